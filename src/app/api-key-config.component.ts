@@ -1,46 +1,407 @@
 import { Component, signal, output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { ConfigService } from './config.service';
+import { Observable, Subscription, from, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import {
+  ApiKeyStorage,
+  AppConfig,
+  ConfigService,
+  ContextSettings,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  DEFAULT_HEALTH_CHECK_INTERVAL,
+  LlmProviderConfig,
+  LlmProviderType,
+  McpServerConfig,
+  ModelSettings,
+  createMcpServerId,
+  isValidMcpServerUrl
+} from './config.service';
+import { OpenAIService } from './openai.service';
+import { McpRegistryService, describeConnectionError } from './mcp-registry.service';
+import { LLM_PROVIDER_LABELS } from './llm/llm-provider';
+import { AnthropicProvider } from './llm/anthropic.provider';
+import { FakeProvider } from './llm/fake.provider';
+import { LlmService } from './llm/llm.service';
+import { contextWindowFor } from './context-budget';
+import { isSecretCryptoAvailable } from './secret-crypto';
+import { MIN_PASSPHRASE_LENGTH } from './api-key-unlock.component';
+import {
+  CONFIG_EXPORT_FILE_NAME,
+  parseConfigExport,
+  toConfigExport
+} from './config-export';
+import { downloadFile } from './conversation-export';
+
+// Server entry as edited in the form; headers are edited as "Name: value" lines
+interface EditableServer {
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  headersText: string;
+}
+
+// Outcome of one check run by "Test connection"
+interface ConnectionCheck {
+  label: string;
+  state: 'testing' | 'ok' | 'failed';
+  detail: string;
+}
+
+interface ConnectionCheckRun {
+  label: string;
+  run: Observable<string>;
+  describe: (error: any) => string;
+}
 
 @Component({
   selector: 'app-api-key-config',
   standalone: true,
-  imports: [FormsModule],
+  imports: [CommonModule, FormsModule],
   template: `
     <div class="api-key-overlay" [class.hidden]="!isVisible()">
       <div class="api-key-modal">
         <h3>Configuration Settings</h3>
-        <p>Configure your OpenAI API key and MCP server settings:</p>
+        <p>Configure your model provider, API key and MCP server settings:</p>
         
         <div class="form-group">
-          <label for="apiKey">OpenAI API Key:</label>
+          <label for="llmProvider">Provider:</label>
+          <select 
+            id="llmProvider" 
+            [(ngModel)]="llmProvider.type" 
+            (ngModelChange)="onProviderChanged()"
+            class="config-input"
+          >
+            <option *ngFor="let type of providerTypes" [value]="type">
+              {{ providerLabels[type] }}
+            </option>
+          </select>
+        </div>
+        
+        <div class="form-group" *ngIf="usesBaseUrl()">
+          <label for="llmBaseUrl">{{ llmProvider.type === 'azure' ? 'Endpoint:' : 'Base URL:' }}</label>
           <input 
-            type="password" 
-            id="apiKey" 
-            [(ngModel)]="apiKey" 
-            placeholder="sk-..."
+            type="text" 
+            id="llmBaseUrl" 
+            [(ngModel)]="llmProvider.baseUrl" 
+            [placeholder]="baseUrlPlaceholder()"
             class="config-input"
           />
         </div>
         
+        <div class="form-group" *ngIf="llmProvider.type === 'azure'">
+          <label for="llmApiVersion">API version:</label>
+          <input 
+            type="text" 
+            id="llmApiVersion" 
+            [(ngModel)]="llmProvider.apiVersion" 
+            class="config-input"
+          />
+        </div>
+        
+        <ng-container *ngIf="llmProvider.type !== 'fake'">
+          <div 
+            class="form-group" 
+            *ngIf="!configService.usesServerManagedKey(llmProvider.type); else serverKeyNotice"
+          >
+            <label for="apiKey">
+              API Key{{ configService.requiresApiKey(llmProvider.type) ? '' : ' (optional)' }}:
+            </label>
+            <input 
+              type="password" 
+              id="apiKey" 
+              [(ngModel)]="apiKey" 
+              [placeholder]="configService.apiKeyLocked() ? 'Saved key is locked' : 'sk-...'"
+              class="config-input"
+            />
+            <small class="help-text" *ngIf="configService.apiKeyLocked()">
+              The saved key is encrypted and locked. Leave this empty to keep it, or enter a
+              new key to replace it.
+            </small>
+          </div>
+          
+          <div 
+            class="form-group" 
+            *ngIf="!configService.usesServerManagedKey(llmProvider.type)"
+          >
+            <label for="apiKeyStorage">Keep the API key:</label>
+            <select id="apiKeyStorage" [(ngModel)]="apiKeyStorage" class="config-input">
+              <option value="encrypted" [disabled]="!cryptoAvailable">
+                Encrypted in this browser, unlocked with a passphrase
+              </option>
+              <option value="session">For this tab only, never saved to disk</option>
+            </select>
+            <small class="help-text" *ngIf="!cryptoAvailable">
+              Encryption needs a secure connection (HTTPS or localhost).
+            </small>
+          </div>
+          
+          <ng-container *ngIf="apiKeyStorage === 'encrypted' && keyChanged() && apiKey.trim()">
+            <div class="form-group">
+              <label for="passphrase">
+                {{ needsPassphrase() ? 'Passphrase:' : 'New passphrase (optional):' }}
+              </label>
+              <input 
+                type="password" 
+                id="passphrase" 
+                [(ngModel)]="passphrase" 
+                [placeholder]="'At least ' + minPassphraseLength + ' characters'"
+                class="config-input"
+                autocomplete="new-password"
+              />
+              <input 
+                type="password" 
+                [(ngModel)]="passphraseConfirmation" 
+                placeholder="Repeat the passphrase"
+                class="config-input passphrase-confirmation"
+                autocomplete="new-password"
+              />
+              <small class="field-error" *ngIf="passphraseError()">{{ passphraseError() }}</small>
+            </div>
+          </ng-container>
+          
+          <div class="form-group" *ngIf="apiKeyStorage === 'encrypted'">
+            <label for="autoLockMinutes">Lock the key after inactivity (minutes):</label>
+            <input 
+              type="number" 
+              id="autoLockMinutes" 
+              min="0"
+              max="1440"
+              [(ngModel)]="autoLockMinutes"
+              class="config-input"
+            />
+            <small class="help-text">
+              The passphrase is asked for again after this long without activity; 0 never locks.
+            </small>
+          </div>
+        </ng-container>
+        <ng-template #serverKeyNotice>
+          <div class="form-group server-key-notice">
+            The OpenAI API key is managed by the server. Chat requests are sent through the server proxy.
+          </div>
+        </ng-template>
+        
+        <div class="form-group">
+          <label>MCP Servers:</label>
+          <div class="server-entry" *ngFor="let server of servers; let i = index">
+            <div class="server-row">
+              <input 
+                type="checkbox" 
+                [(ngModel)]="server.enabled"
+                [id]="'serverEnabled' + i"
+                title="Enabled"
+              />
+              <input 
+                type="text" 
+                [(ngModel)]="server.name" 
+                placeholder="Name"
+                class="config-input server-name"
+              />
+              <button 
+                (click)="removeServer(i)" 
+                [disabled]="servers.length === 1"
+                class="btn btn-link"
+                title="Remove server"
+              >
+                ×
+              </button>
+            </div>
+            <input 
+              type="url" 
+              [(ngModel)]="server.url" 
+              placeholder="/api/mcp or https://mcp.example.com/mcp"
+              class="config-input"
+            />
+            <small class="field-error" *ngIf="server.url.trim() && !isValidServerUrl(server.url)">
+              Enter /api/mcp for this server's MCP proxy, or an http(s) URL.
+            </small>
+            <textarea 
+              [(ngModel)]="server.headersText" 
+              placeholder="Optional headers, one per line (Authorization: Bearer ...)"
+              rows="2"
+              class="config-input"
+            ></textarea>
+          </div>
+          <button (click)="addServer()" class="btn btn-secondary btn-small">Add server</button>
+        </div>
+        
         <div class="form-group">
-          <label for="mcpUrl">MCP Server URL:</label>
+          <label for="healthCheckInterval">Check MCP server health every (seconds):</label>
           <input 
-            type="url" 
-            id="mcpUrl" 
-            [(ngModel)]="mcpServerUrl" 
-            placeholder="http://localhost:3100"
+            type="number" 
+            id="healthCheckInterval" 
+            min="0"
+            max="3600"
+            [(ngModel)]="healthCheckInterval"
             class="config-input"
           />
+          <small class="help-text">
+            Polls each server's health endpoint in the background; 0 turns the checks off.
+          </small>
+        </div>
+        
+        <div class="form-group">
+          <label for="model">Model:</label>
+          <div class="server-row">
+            <input 
+              type="text" 
+              id="model" 
+              [(ngModel)]="modelSettings.model" 
+              list="availableModels"
+              placeholder="gpt-4o-mini"
+              class="config-input"
+            />
+            <button 
+              (click)="loadModels()" 
+              [disabled]="loadingModels()"
+              class="btn btn-secondary btn-small"
+              title="Load the models the provider offers"
+            >
+              {{ loadingModels() ? 'Loading...' : 'Load models' }}
+            </button>
+          </div>
+          <datalist id="availableModels">
+            <option *ngFor="let model of openaiService.availableModels()" [value]="model"></option>
+          </datalist>
+          <small class="field-error" *ngIf="modelsError()">{{ modelsError() }}</small>
+        </div>
+        
+        <div class="form-group settings-grid">
+          <label>
+            Temperature
+            <input 
+              type="number"
+              min="0"
+              max="2"
+              step="0.1"
+              [(ngModel)]="modelSettings.temperature"
+              class="config-input"
+            />
+          </label>
+          <label>
+            Max tokens
+            <input 
+              type="number"
+              min="1"
+              step="1"
+              [(ngModel)]="modelSettings.maxTokens"
+              class="config-input"
+            />
+          </label>
+          <label>
+            Top P
+            <input 
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              [(ngModel)]="modelSettings.topP"
+              class="config-input"
+            />
+          </label>
+          <label>
+            Response format
+            <select [(ngModel)]="modelSettings.responseFormat" class="config-input">
+              <option value="text">Text</option>
+              <option value="json_object">JSON object</option>
+            </select>
+          </label>
+          <label>
+            Context window (tokens)
+            <input 
+              type="number"
+              min="1024"
+              step="1024"
+              [(ngModel)]="contextBudget"
+              [placeholder]="defaultContextWindow()"
+              class="config-input"
+            />
+          </label>
+        </div>
+        <small class="help-text" *ngIf="modelSettings.responseFormat === 'json_object'">
+          JSON mode requires the word "JSON" to appear in the conversation.
+        </small>
+        <small class="help-text">
+          The context window applies to the selected model; leave it empty to use the window
+          known for the model.
+        </small>
+        
+        <div class="form-group checkbox-group">
+          <label for="streamResponses">
+            <input 
+              type="checkbox" 
+              id="streamResponses" 
+              [(ngModel)]="streamResponses"
+            />
+            Stream responses as they are generated
+          </label>
+        </div>
+        
+        <div class="form-group checkbox-group">
+          <label for="summarizeContext">
+            <input 
+              type="checkbox" 
+              id="summarizeContext" 
+              [(ngModel)]="summarizeContext"
+            />
+            Summarize older messages once a conversation outgrows the context window
+          </label>
+        </div>
+        
+        <div class="form-group">
+          <label for="retrievalLimit">Companies described in full per question:</label>
+          <input 
+            type="number" 
+            id="retrievalLimit" 
+            min="1"
+            max="20"
+            [(ngModel)]="retrievalLimit"
+            class="config-input"
+          />
+          <small class="help-text">
+            The companies that best match the question are sent with their details; the others
+            are only listed by name.
+          </small>
+        </div>
+        
+        <div class="form-group checkbox-group">
+          <label for="localEmbeddings">
+            <input 
+              type="checkbox" 
+              id="localEmbeddings" 
+              [(ngModel)]="localEmbeddings"
+            />
+            Also match companies by text similarity (local embeddings)
+          </label>
+        </div>
+        
+        <div class="form-group">
+          <button 
+            (click)="testConnection()" 
+            [disabled]="testingConnection()"
+            class="btn btn-secondary btn-small"
+            title="Check the API key with the provider and initialize each MCP server"
+          >
+            {{ testingConnection() ? 'Testing...' : 'Test connection' }}
+          </button>
+          <ul class="connection-checks" *ngIf="connectionChecks().length">
+            <li *ngFor="let check of connectionChecks()" [attr.data-state]="check.state">
+              <strong>{{ check.label }}:</strong>
+              {{ check.state === 'testing' ? 'testing...' : check.detail }}
+            </li>
+          </ul>
         </div>
         
+        <small class="field-error" *ngIf="saveError()">{{ saveError() }}</small>
+        
         <div class="form-actions">
           <button 
             (click)="saveConfig()" 
-            [disabled]="!apiKey.trim() || !mcpServerUrl.trim()"
+            [disabled]="!canSave() || saving()"
             class="btn btn-primary"
           >
-            Save Configuration
+            {{ saving() ? 'Saving...' : 'Save Configuration' }}
           </button>
           <button 
             (click)="cancel()" 
@@ -50,9 +411,29 @@ import { ConfigService } from './config.service';
           </button>
         </div>
         
+        <div class="form-group config-transfer">
+          <button (click)="exportSettings()" class="btn btn-secondary btn-small">
+            Export settings
+          </button>
+          <button (click)="importInput.click()" class="btn btn-secondary btn-small">
+            Import settings
+          </button>
+          <input 
+            #importInput
+            type="file"
+            accept="application/json,.json"
+            hidden
+            (change)="importSettings($event)"
+          />
+        </div>
+        <small class="field-error" *ngIf="importError()">{{ importError() }}</small>
+        <small class="help-text" *ngIf="importNotice()">{{ importNotice() }}</small>
+        
         <div class="help-text">
           <small>
-            Your settings are stored locally and securely.
+            Exported settings leave out the API key and MCP server headers, so they can be
+            shared. Your settings are stored in this browser. The API key is only saved encrypted
+            with your passphrase, or kept for this tab only.
             Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank">OpenAI Platform</a>.
           </small>
         </div>
@@ -84,6 +465,8 @@ import { ConfigService } from './config.service';
       box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
       max-width: 500px;
       width: 90%;
+      max-height: 90vh;
+      overflow-y: auto;
     }
     
     .api-key-modal h3 {
@@ -102,6 +485,103 @@ import { ConfigService } from './config.service';
       color: #555;
     }
     
+    .server-entry {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+      padding: 0.75rem;
+      margin-bottom: 0.75rem;
+      border: 1px solid #eee;
+      border-radius: 4px;
+    }
+    
+    .server-row {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+    
+    .server-name {
+      flex: 1;
+    }
+    
+    .btn-link {
+      background: none;
+      color: #666;
+      padding: 0.25rem 0.5rem;
+      font-size: 1.25rem;
+    }
+    
+    .btn-link:disabled {
+      color: #ccc;
+      cursor: not-allowed;
+    }
+    
+    .btn-small {
+      padding: 0.5rem 1rem;
+      font-size: 0.875rem;
+    }
+    
+    .settings-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 0.75rem;
+    }
+    
+    .settings-grid label {
+      font-weight: 400;
+      font-size: 0.875rem;
+    }
+    
+    .field-error {
+      color: #dc3545;
+    }
+    
+    .passphrase-confirmation {
+      margin-top: 0.5rem;
+    }
+    
+    .connection-checks {
+      margin: 0.5rem 0 0 0;
+      padding: 0;
+      list-style: none;
+      font-size: 0.875rem;
+    }
+    
+    .connection-checks li {
+      padding: 0.25rem 0;
+      color: #555;
+    }
+    
+    .connection-checks li[data-state='ok'] strong {
+      color: #16a34a;
+    }
+    
+    .connection-checks li[data-state='failed'] {
+      color: #dc3545;
+    }
+    
+    .config-transfer {
+      display: flex;
+      gap: 0.5rem;
+    }
+    
+    .server-key-notice {
+      padding: 0.75rem;
+      background: #f1f5f9;
+      border-radius: 4px;
+      color: #555;
+      font-size: 0.875rem;
+    }
+    
+    .checkbox-group label {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      font-weight: 400;
+      cursor: pointer;
+    }
+    
     .config-input {
       width: 100%;
       padding: 0.75rem;
@@ -172,46 +652,378 @@ import { ConfigService } from './config.service';
   `]
 })
 export class ApiKeyConfigComponent {
-  private configService = inject(ConfigService);
+  protected configService = inject(ConfigService);
+  protected openaiService = inject(OpenAIService);
+  private mcpRegistry = inject(McpRegistryService);
+  
+  protected readonly providerLabels = LLM_PROVIDER_LABELS;
+  protected readonly providerTypes = Object.keys(LLM_PROVIDER_LABELS) as LlmProviderType[];
+  protected readonly cryptoAvailable = isSecretCryptoAvailable();
+  protected readonly minPassphraseLength = MIN_PASSPHRASE_LENGTH;
   
   isVisible = signal(false);
   apiKey = '';
-  mcpServerUrl = '';
+  apiKeyStorage: ApiKeyStorage = 'encrypted';
+  passphrase = '';
+  passphraseConfirmation = '';
+  autoLockMinutes = DEFAULT_AUTO_LOCK_MINUTES;
+  llmProvider: LlmProviderConfig = { ...this.configService.getLlmProvider() };
+  servers: EditableServer[] = [];
+  streamResponses = true;
+  summarizeContext = true;
+  retrievalLimit = 3;
+  localEmbeddings = false;
+  healthCheckInterval = DEFAULT_HEALTH_CHECK_INTERVAL;
+  contextBudget: number | null = null;
+  // Budgets of all models, of which the form edits the selected model's
+  private contextBudgets: Record<string, number> = {};
+  modelSettings: ModelSettings = { ...this.configService.getModelSettings() };
+  loadingModels = signal(false);
+  modelsError = signal('');
+  saving = signal(false);
+  saveError = signal('');
+  connectionChecks = signal<ConnectionCheck[]>([]);
+  importError = signal('');
+  importNotice = signal('');
+  private connectionTest: Subscription | null = null;
   
-  configSaved = output<{apiKey: string, mcpServerUrl: string}>();
+  configSaved = output<{apiKey: string, mcpServers: McpServerConfig[]}>();
   cancelled = output<void>();
   
   show() {
     this.isVisible.set(true);
     // Load current values
     this.apiKey = this.configService.getApiKey();
-    this.mcpServerUrl = this.configService.getMcpServerUrl();
+    this.apiKeyStorage = this.configService.config().apiKeyStorage;
+    this.passphrase = '';
+    this.passphraseConfirmation = '';
+    this.saveError.set('');
+    this.importError.set('');
+    this.importNotice.set('');
+    this.connectionChecks.set([]);
+    this.fillForm(this.configService.config());
+    this.modelsError.set('');
+    
+    // Fill the model list once; the button reloads it, e.g. after entering a new key
+    const modelsLoaded = this.openaiService.availableModels().length > 0;
+    if (this.configService.isApiKeyConfigured() && !modelsLoaded) {
+      this.loadModels();
+    }
+  }
+  
+  loadModels() {
+    this.loadingModels.set(true);
+    this.modelsError.set('');
+    this.openaiService.loadModels(this.apiKey.trim(), this.llmProvider).subscribe({
+      next: () => this.loadingModels.set(false),
+      error: (error) => {
+        this.loadingModels.set(false);
+        const message = error.error?.error?.message || error.message;
+        this.modelsError.set(`Could not load models: ${message}`);
+      }
+    });
+  }
+  
+  // Models differ per provider, so the list is reloaded for the new one
+  onProviderChanged() {
+    this.openaiService.availableModels.set([]);
+    this.modelsError.set('');
+    if (this.llmProvider.type === 'fake') {
+      this.modelSettings.model = FakeProvider.MODEL;
+    }
+  }
+  
+  usesBaseUrl(): boolean {
+    return ['azure', 'openai-compatible', 'anthropic'].includes(this.llmProvider.type);
+  }
+  
+  baseUrlPlaceholder(): string {
+    switch (this.llmProvider.type) {
+      case 'azure':
+        return 'https://my-resource.openai.azure.com';
+      case 'anthropic':
+        return AnthropicProvider.DEFAULT_BASE_URL;
+      default:
+        return LlmService.DEFAULT_COMPATIBLE_URL;
+    }
   }
   
   hide() {
+    this.connectionTest?.unsubscribe();
     this.isVisible.set(false);
   }
   
+  testingConnection(): boolean {
+    return this.connectionChecks().some(check => check.state === 'testing');
+  }
+  
+  /**
+   * Check the entered key against the provider and initialize every entered MCP server,
+   * without saving anything
+   */
+  testConnection() {
+    this.connectionTest?.unsubscribe();
+    const checks: ConnectionCheckRun[] = [
+      {
+        label: this.providerLabels[this.llmProvider.type],
+        run: this.openaiService.testProvider(
+          this.apiKey.trim(),
+          this.llmProvider,
+          this.modelSettings
+        ),
+        describe: error => error.error?.error?.message || error.message
+      },
+      ...this.toServerConfigs()
+        .filter(server => !!server.url)
+        .map(server => ({
+          label: server.name || server.url,
+          run: this.mcpRegistry
+            .testConnection(server)
+            .pipe(
+              map(result =>
+                `${result.serverInfo.name} ${result.serverInfo.version}, ` +
+                `${result.toolCount} tools (protocol ${result.protocolVersion})`
+              )
+            ),
+          describe: describeConnectionError
+        }))
+    ];
+    
+    this.connectionChecks.set(
+      checks.map(check => ({ label: check.label, state: 'testing', detail: '' }))
+    );
+    const update = (index: number, state: ConnectionCheck['state'], detail: string) =>
+      this.connectionChecks.update(current =>
+        current.map((check, i) => (i === index ? { ...check, state, detail } : check))
+      );
+    
+    this.connectionTest = new Subscription();
+    checks.forEach((check, index) =>
+      this.connectionTest!.add(
+        check.run.subscribe({
+          next: detail => update(index, 'ok', detail),
+          error: error => update(index, 'failed', check.describe(error))
+        })
+      )
+    );
+  }
+  
+  // Exports the saved settings, not unsaved edits in the dialog
+  exportSettings() {
+    const settings = toConfigExport(this.configService.exportConfig());
+    downloadFile(CONFIG_EXPORT_FILE_NAME, JSON.stringify(settings, null, 2), 'application/json');
+  }
+  
+  // Fill the form from a settings file; nothing is saved until the dialog is
+  importSettings(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    this.importError.set('');
+    this.importNotice.set('');
+    
+    from(file.text())
+      .pipe(map(text => parseConfigExport(text)))
+      .subscribe({
+        next: (imported) => {
+          this.fillForm({ ...this.configService.config(), ...imported });
+          this.apiKeyStorage = imported.apiKeyStorage ?? this.apiKeyStorage;
+          this.connectionChecks.set([]);
+          this.importNotice.set(
+            `Loaded settings from ${file.name}. Review them, add any server headers and save.`
+          );
+        },
+        error: (error) => this.importError.set(`Import failed: ${error.message || error}`)
+      });
+  }
+  
+  addServer() {
+    this.servers.push({ id: '', name: '', url: '', enabled: true, headersText: '' });
+  }
+  
+  removeServer(index: number) {
+    this.servers.splice(index, 1);
+  }
+  
+  // The key field is hidden and optional when the server manages the key or the
+  // provider does not need one; Azure also needs its resource endpoint
+  canSave(): boolean {
+    const type = this.llmProvider.type;
+    const hasKey =
+      !this.configService.requiresApiKey(type) ||
+      this.configService.usesServerManagedKey(type) ||
+      !!this.apiKey.trim() ||
+      this.configService.apiKeyLocked();
+    const hasEndpoint = type !== 'azure' || !!this.llmProvider.baseUrl.trim();
+    const serversValid = this.servers.every(
+      server => !!server.name.trim() && this.isValidServerUrl(server.url)
+    );
+    return hasKey && hasEndpoint && this.servers.length > 0 && serversValid &&
+      !!this.modelSettings.model?.trim() && !this.passphraseError();
+  }
+  
+  // The key is stored again when it, where it is kept or its passphrase changes
+  keyChanged(): boolean {
+    return (
+      this.apiKey.trim() !== this.configService.getApiKey() ||
+      this.apiKeyStorage !== this.configService.config().apiKeyStorage ||
+      !!this.passphrase
+    );
+  }
+  
+  // A new encrypted key needs a passphrase unless the current one was unlocked in this session
+  needsPassphrase(): boolean {
+    return (
+      this.apiKeyStorage === 'encrypted' &&
+      !!this.apiKey.trim() &&
+      this.keyChanged() &&
+      !this.configService.hasApiKeyPassphrase()
+    );
+  }
+  
+  passphraseError(): string {
+    if (this.apiKeyStorage !== 'encrypted' || !this.apiKey.trim()) {
+      return '';
+    }
+    if (!this.passphrase) {
+      return this.needsPassphrase() ? 'Choose a passphrase to encrypt the key.' : '';
+    }
+    if (this.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+    }
+    return this.passphrase === this.passphraseConfirmation ? '' : 'The passphrases do not match.';
+  }
+  
   saveConfig() {
-    if (this.apiKey.trim() && this.mcpServerUrl.trim()) {
+    if (this.canSave()) {
       const config = {
         apiKey: this.apiKey.trim(),
-        mcpServerUrl: this.mcpServerUrl.trim()
+        mcpServers: this.toServerConfigs()
       };
       
-      // Save to config service
-      this.configService.updateConfig({
-        openaiApiKey: config.apiKey,
-        mcpServerUrl: config.mcpServerUrl
+      // Encrypting the key is asynchronous; the other settings are applied only once it is
+      // stored, so a failure leaves the saved settings as they were
+      this.saving.set(true);
+      this.saveError.set('');
+      this.storeApiKey(config.apiKey).subscribe({
+        next: () => {
+          this.configService.updateConfig({
+            llmProvider: this.llmProvider,
+            mcpServers: config.mcpServers,
+            streamResponses: this.streamResponses,
+            healthCheckInterval: this.healthCheckInterval ?? DEFAULT_HEALTH_CHECK_INTERVAL,
+            autoLockMinutes: this.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES,
+            contextSettings: this.toContextSettings(),
+            modelSettings: this.modelSettings
+          });
+          this.saving.set(false);
+          this.configSaved.emit(config);
+          this.hide();
+        },
+        error: (error) => {
+          this.saving.set(false);
+          this.saveError.set(`Could not store the API key: ${error.message}`);
+        }
       });
-      
-      this.configSaved.emit(config);
-      this.hide();
     }
   }
   
+  private storeApiKey(apiKey: string): Observable<void> {
+    const keepKey =
+      this.configService.usesServerManagedKey(this.llmProvider.type) || !this.keyChanged();
+    // An empty field leaves a locked key as it is
+    if (keepKey || (this.configService.apiKeyLocked() && !apiKey)) {
+      return of(undefined);
+    }
+    return this.configService.storeApiKey(
+      apiKey,
+      this.apiKeyStorage,
+      this.passphrase || undefined
+    );
+  }
+  
   cancel() {
     this.cancelled.emit();
     this.hide();
   }
-}
\ No newline at end of file
+  
+  defaultContextWindow(): number {
+    return contextWindowFor(this.modelSettings.model || '');
+  }
+  
+  // Budgets are kept per model, so switching models keeps the budget set for the others
+  private toContextSettings(): ContextSettings {
+    const model = this.modelSettings.model.trim();
+    const budgets = { ...this.contextBudgets };
+    if (this.contextBudget) {
+      budgets[model] = this.contextBudget;
+    } else {
+      delete budgets[model];
+    }
+    return {
+      budgets,
+      summarize: this.summarizeContext,
+      retrievalLimit: this.retrievalLimit,
+      localEmbeddings: this.localEmbeddings
+    };
+  }
+  
+  // Everything but the API key and where it is kept
+  private fillForm(config: AppConfig) {
+    this.llmProvider = { ...config.llmProvider };
+    this.servers = config.mcpServers.map(server => ({
+      id: server.id,
+      name: server.name,
+      url: server.url,
+      enabled: server.enabled,
+      headersText: Object.entries(server.headers)
+        .map(([name, value]) => `${name}: ${value}`)
+        .join('\n')
+    }));
+    this.streamResponses = config.streamResponses;
+    this.healthCheckInterval = config.healthCheckInterval;
+    this.autoLockMinutes = config.autoLockMinutes;
+    const contextSettings = config.contextSettings;
+    this.summarizeContext = contextSettings.summarize;
+    this.retrievalLimit = contextSettings.retrievalLimit;
+    this.localEmbeddings = contextSettings.localEmbeddings;
+    this.contextBudgets = { ...contextSettings.budgets };
+    this.modelSettings = { ...config.modelSettings };
+    this.contextBudget = contextSettings.budgets[this.modelSettings.model] ?? null;
+  }
+  
+  isValidServerUrl(url: string): boolean {
+    return isValidMcpServerUrl(url);
+  }
+  
+  private toServerConfigs(): McpServerConfig[] {
+    const ids: string[] = [];
+    return this.servers.map(server => {
+      const name = server.name.trim();
+      // New servers get an id from their name; existing ones keep theirs so tool names stay stable
+      const id = server.id && !ids.includes(server.id) ? server.id : createMcpServerId(name, ids);
+      ids.push(id);
+      return {
+        id,
+        name,
+        url: server.url.trim(),
+        enabled: server.enabled,
+        headers: this.parseHeaders(server.headersText)
+      };
+    });
+  }
+  
+  private parseHeaders(text: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const line of text.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+      }
+    }
+    return headers;
+  }
+}
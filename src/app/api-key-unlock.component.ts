@@ -0,0 +1,257 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ConfigService } from './config.service';
+import { InvalidPassphraseError } from './secret-crypto';
+
+// Shorter passphrases are too easy to guess offline from a copy of localStorage
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Asks for the passphrase of an encrypted API key on load and after an auto-lock, and
+ * offers to encrypt a plain-text key left by an older version
+ */
+@Component({
+  selector: 'app-api-key-unlock',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="unlock-overlay" *ngIf="isOpen()">
+      <div class="unlock-modal" *ngIf="configService.apiKeyLocked(); else protectKey">
+        <h3>Unlock your API key</h3>
+        <p>Your API key is encrypted in this browser. Enter your passphrase to use it.</p>
+        <input
+          type="password"
+          [(ngModel)]="passphrase"
+          (keydown.enter)="unlock()"
+          placeholder="Passphrase"
+          class="config-input"
+          autocomplete="current-password"
+        />
+        <small class="field-error" *ngIf="error()">{{ error() }}</small>
+        <div class="form-actions">
+          <button (click)="unlock()" [disabled]="busy() || !passphrase" class="btn btn-primary">
+            {{ busy() ? 'Unlocking...' : 'Unlock' }}
+          </button>
+          <button (click)="dismiss()" class="btn btn-secondary">Not now</button>
+        </div>
+        <button (click)="forget()" class="btn-link">
+          Forgot the passphrase? Remove the saved key
+        </button>
+      </div>
+
+      <ng-template #protectKey>
+        <div class="unlock-modal">
+          <h3>Protect your API key</h3>
+          <p>
+            An earlier version saved your API key in plain text. It has been removed from
+            storage and is kept for this tab only. Choose a passphrase to keep it encrypted
+            in this browser.
+          </p>
+          <input
+            type="password"
+            [(ngModel)]="passphrase"
+            placeholder="Passphrase (at least {{ minLength }} characters)"
+            class="config-input"
+            autocomplete="new-password"
+          />
+          <input
+            type="password"
+            [(ngModel)]="confirmation"
+            (keydown.enter)="protect()"
+            placeholder="Repeat the passphrase"
+            class="config-input"
+            autocomplete="new-password"
+          />
+          <small class="field-error" *ngIf="error()">{{ error() }}</small>
+          <div class="form-actions">
+            <button
+              (click)="protect()"
+              [disabled]="busy() || !passphrase"
+              class="btn btn-primary">
+              {{ busy() ? 'Encrypting...' : 'Encrypt key' }}
+            </button>
+            <button (click)="dismiss()" class="btn btn-secondary">Keep for this tab only</button>
+          </div>
+        </div>
+      </ng-template>
+    </div>
+  `,
+  styles: [`
+    .unlock-overlay {
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1100;
+    }
+
+    .unlock-modal {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      background: white;
+      padding: 2rem;
+      border-radius: 8px;
+      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+      max-width: 420px;
+      width: 90%;
+    }
+
+    .unlock-modal h3 {
+      margin: 0;
+      color: #333;
+    }
+
+    .unlock-modal p {
+      margin: 0;
+      color: #555;
+      line-height: 1.4;
+    }
+
+    .config-input {
+      width: 100%;
+      padding: 0.75rem;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      font-size: 1rem;
+      box-sizing: border-box;
+    }
+
+    .config-input:focus {
+      outline: none;
+      border-color: #007bff;
+      box-shadow: 0 0 0 2px rgba(0, 123, 255, 0.25);
+    }
+
+    .field-error {
+      color: #dc3545;
+    }
+
+    .form-actions {
+      display: flex;
+      gap: 1rem;
+    }
+
+    .btn {
+      padding: 0.75rem 1.5rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 1rem;
+    }
+
+    .btn-primary {
+      background: #007bff;
+      color: white;
+    }
+
+    .btn-primary:disabled {
+      background: #ccc;
+      cursor: not-allowed;
+    }
+
+    .btn-secondary {
+      background: #6c757d;
+      color: white;
+    }
+
+    .btn-link {
+      align-self: flex-start;
+      background: none;
+      border: none;
+      padding: 0;
+      color: #666;
+      font-size: 0.875rem;
+      text-decoration: underline;
+      cursor: pointer;
+    }
+  `]
+})
+export class ApiKeyUnlockComponent {
+  protected configService = inject(ConfigService);
+  protected readonly minLength = MIN_PASSPHRASE_LENGTH;
+
+  private dismissed = signal(false);
+  busy = signal(false);
+  error = signal('');
+  passphrase = '';
+  confirmation = '';
+
+  isOpen(): boolean {
+    const needed = this.configService.apiKeyLocked() || this.configService.plainKeyMigrated();
+    return needed && !this.dismissed();
+  }
+
+  // Open the prompt again after it was dismissed, e.g. when a message needs the key
+  show() {
+    this.dismissed.set(false);
+  }
+
+  dismiss() {
+    this.reset();
+    this.dismissed.set(true);
+  }
+
+  unlock() {
+    if (!this.passphrase || this.busy()) {
+      return;
+    }
+    this.busy.set(true);
+    this.error.set('');
+    this.configService.unlockApiKey(this.passphrase).subscribe({
+      next: () => this.reset(),
+      error: (error) => {
+        this.busy.set(false);
+        this.error.set(
+          error instanceof InvalidPassphraseError
+            ? 'Wrong passphrase. Try again.'
+            : `Could not unlock the key: ${error.message}`
+        );
+      }
+    });
+  }
+
+  protect() {
+    if (!this.passphrase || this.busy()) {
+      return;
+    }
+    if (this.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      this.error.set(`The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (this.passphrase !== this.confirmation) {
+      this.error.set('The passphrases do not match.');
+      return;
+    }
+    this.busy.set(true);
+    this.error.set('');
+    const apiKey = this.configService.getApiKey();
+    this.configService.storeApiKey(apiKey, 'encrypted', this.passphrase).subscribe({
+      next: () => this.reset(),
+      error: (error) => {
+        this.busy.set(false);
+        this.error.set(`Could not encrypt the key: ${error.message}`);
+      }
+    });
+  }
+
+  forget() {
+    if (confirm('Remove the saved API key? You will need to enter it again.')) {
+      this.configService.forgetApiKey();
+      this.reset();
+    }
+  }
+
+  private reset() {
+    this.busy.set(false);
+    this.error.set('');
+    this.passphrase = '';
+    this.confirmation = '';
+  }
+}
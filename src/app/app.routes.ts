@@ -1,3 +1,14 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+// The chat UI lives in the root component; routes only select which conversation it shows,
+// except for the tools view, which replaces the chat while it is open and is loaded on demand
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', children: [] },
+  { path: 'chat/:id', children: [] },
+  {
+    path: 'tools',
+    loadComponent: () =>
+      import('./tool-runner.component').then((module) => module.ToolRunnerComponent)
+  },
+  { path: '**', redirectTo: '' }
+];
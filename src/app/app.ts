@@ -1,60 +1,170 @@
-import { Component, signal, ElementRef, ViewChild, AfterViewChecked, OnInit, inject } from '@angular/core';
+import {
+  Component,
+  signal,
+  ElementRef,
+  ViewChild,
+  AfterViewChecked,
+  OnInit,
+  effect,
+  inject,
+  untracked,
+  viewChild
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { RouterOutlet } from '@angular/router';
-import { OpenAIService, OpenAIMessage } from './openai.service';
+import { NavigationEnd, Router, RouterOutlet } from '@angular/router';
+import { Observable, Subscription, of } from 'rxjs';
+import { catchError, filter, switchMap } from 'rxjs/operators';
+import { OpenAIService, OpenAIMessage, ChatTurnEvent } from './openai.service';
 import { ApiKeyConfigComponent } from './api-key-config.component';
-import { ConfigService } from './config.service';
+import { ApiKeyUnlockComponent } from './api-key-unlock.component';
+import { AutoLockService } from './auto-lock.service';
+import { ConfigService, McpServerConfig } from './config.service';
+import { McpRegistryService, ServerScoped } from './mcp-registry.service';
+import type { AttachedResource } from './mcp-library.component';
+import { McpLibraryComponent } from './mcp-library.component';
+import { MCPGetPromptResult, MCPPrompt, MCPResource } from './mcp-client';
+import {
+  ConversationBranch,
+  branchesAfterEdit,
+  switchBranch,
+  withHistoryIndexes
+} from './conversation-branches';
+import {
+  Conversation,
+  ConversationStoreService,
+  StoredBranch,
+  StoredMessage,
+  ToolCallRecord
+} from './conversation-store.service';
+import {
+  downloadFile,
+  exportFileName,
+  toConversationExport,
+  toMarkdown
+} from './conversation-export';
+import { ConversationSidebarComponent } from './conversation-sidebar.component';
+import { MessageContentComponent } from './message-content.component';
+import { LlmService } from './llm/llm.service';
+import { ContextSource } from './context-retrieval';
+import { TraceEntry, TurnTraceService } from './turn-trace.service';
+import { TurnInspectorComponent } from './turn-inspector.component';
+import { RequestTimeoutError } from './resilience';
+import { HealthChange, McpHealthMonitorService } from './mcp-health-monitor.service';
+import { ChatHeaderComponent } from './chat-header.component';
+import { ExportFormat } from './export-menu.component';
+import { WelcomeComponent } from './welcome.component';
 
 interface Message {
   content: string;
   isUser: boolean;
   timestamp: Date;
+  isStreaming?: boolean;
+  attachments?: string[];
+  toolCalls?: ToolCallRecord[];
+  sources?: ContextSource[];
+  // Where the message's turn starts in conversationHistory (see StoredMessage)
+  historyIndex?: number;
+  stopped?: boolean;
+  branches?: ConversationBranch<Message>[];
+  activeBranch?: number;
 }
 
 @Component({
   selector: 'app-root',
-  imports: [CommonModule, RouterOutlet, ApiKeyConfigComponent],
+  imports: [
+    CommonModule,
+    RouterOutlet,
+    ApiKeyConfigComponent,
+    McpLibraryComponent,
+    ConversationSidebarComponent,
+    MessageContentComponent,
+    TurnInspectorComponent,
+    ApiKeyUnlockComponent,
+    ChatHeaderComponent,
+    WelcomeComponent
+  ],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App implements AfterViewChecked, OnInit {
   protected configService = inject(ConfigService);
+  private conversationStore = inject(ConversationStoreService);
+  private router = inject(Router);
+  protected llm = inject(LlmService);
+  private turnTrace = inject(TurnTraceService);
+  private healthMonitor = inject(McpHealthMonitorService);
+  // Injected so inactivity locks the API key from the start
+  private autoLock = inject(AutoLockService);
   
   constructor(private openaiService: OpenAIService) {
     // Initialize with current configuration state
     this.isApiKeyConfigured = this.configService.isApiKeyConfigured;
+
+    this.healthMonitor.changes.subscribe(change => this.onHealthChanged(change));
+
+    // The configuration dialog and the MCP library are deferred; each opens as soon as the
+    // first request to show it has loaded it
+    effect(() => {
+      const dialog = this.apiKeyConfig();
+      if (dialog) {
+        untracked(() => dialog.show());
+      }
+    });
+    effect(() => {
+      const library = this.mcpLibrary();
+      if (library) {
+        untracked(() => library.show());
+      }
+    });
+
+    // Load the conversation named in the URL whenever it changes
+    this.router.events
+      .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd))
+      .subscribe((event) => {
+        // The tools view leaves the open conversation as it is
+        this.isToolsView.set(event.urlAfterRedirects.startsWith('/tools'));
+        if (!this.isToolsView()) {
+          this.onConversationRouteChanged(this.getRouteConversationId());
+        }
+      });
   }
   
   protected readonly title = signal('angular-app');
   
   @ViewChild('messagesContainer') messagesContainer!: ElementRef;
   @ViewChild('messageInput') messageInput!: ElementRef;
-  @ViewChild('apiKeyConfig') apiKeyConfig!: ApiKeyConfigComponent;
+  private apiKeyConfig = viewChild<ApiKeyConfigComponent>('apiKeyConfig');
+  @ViewChild('apiKeyUnlock') apiKeyUnlock!: ApiKeyUnlockComponent;
+  private mcpLibrary = viewChild<McpLibraryComponent>('mcpLibrary');
   
   messages = signal<Message[]>([
     {
-      content: "Welcome! I'm your AI assistant powered by OpenAI's GPT models with MCP (Model Context Protocol) integration.\n\n🔧 **Current Configuration:**\n- MCP Server: " + this.configService.getMcpServerUrl() + "\n- OpenAI API: " + (this.configService.getApiKey() ? 'Configured' : 'Not configured') + "\n\n💡 **Try asking:** \"What AI companies are available?\" to access live data from the MCP server!\n\nHow can I help you today?",
+      content: "Welcome! I'm your AI assistant powered by OpenAI's GPT models with MCP (Model Context Protocol) integration.\n\n🔧 **Current Configuration:**\n- MCP Servers: " + this.describeServers(this.configService.getMcpServers()) + "\n- OpenAI API: " + (this.configService.getApiKey() ? 'Configured' : 'Not configured') + "\n\n💡 **Try asking:** \"What AI companies are available?\" to access live data from the MCP server!\n\nHow can I help you today?",
       isUser: false,
       timestamp: new Date()
     }
   ]);
   
   isApiKeyConfigured = signal(false);
-  mcpHealthStatus = signal<string>('Unknown');
+  protected mcpRegistry = inject(McpRegistryService);
+  mcpHealthStatus = this.mcpRegistry.overallStatus;
+  isResponding = signal(false);
+  mcpResources = signal<ServerScoped<MCPResource>[]>([]);
+  mcpPrompts = signal<ServerScoped<MCPPrompt>[]>([]);
+  attachedResources = signal<AttachedResource[]>([]);
+  currentConversationId = signal<string | null>(null);
+  isToolsView = signal(false);
+  protected apiKeyConfigRequested = signal(false);
+  protected mcpLibraryRequested = signal(false);
+  // Timestamp of the user message being edited
+  editingMessage = signal<Date | null>(null);
+  private conversationCreatedAt = 0;
+  private activeTurn: Subscription | null = null;
   private shouldScrollToBottom = false;
   private conversationHistory: OpenAIMessage[] = [];
   
-  // Suggested questions for users
-  suggestedQuestions = [
-    "What AI companies are available?",
-    "Tell me about OpenAI's products",
-    "Which companies offer chatbots?",
-    "What LLM models does Google have?",
-    "Compare Anthropic and OpenAI"
-  ];
-  
   ngOnInit() {
-    // Always check MCP health on startup to show current status
+    // Connect to the MCP servers on startup; their status shows in the header
     this.checkMCPHealth();
   }
 
@@ -69,35 +179,58 @@ export class App implements AfterViewChecked, OnInit {
     const input = this.messageInput.nativeElement;
     const message = input.value.trim();
     
-    if (!message) return;
+    // A new question waits until the current reply is done or stopped
+    if (!message || this.isResponding()) return;
+    
+    const attachments = this.attachedResources();
+    this.ensureConversation();
     
     // Add user message
+    const timestamp = new Date();
     this.messages.update(messages => [
       ...messages,
       {
         content: message,
         isUser: true,
-        timestamp: new Date()
+        timestamp,
+        attachments: attachments.length ? attachments.map(resource => resource.name) : undefined
       }
     ]);
     
-    // Clear input
+    // Clear input and attachments
     input.value = '';
+    this.attachedResources.set([]);
     this.adjustTextareaHeight({ target: input });
     this.shouldScrollToBottom = true;
     
-    // Simulate AI response after a delay
-    setTimeout(() => {
-      this.addAIResponse(message);
-    }, 1000);
+    this.addAIResponse(message + this.formatAttachments(attachments), timestamp);
+    this.persistConversation();
+  }
+
+  // Append attached resource contents to the question sent to the model
+  private formatAttachments(attachments: AttachedResource[]): string {
+    return attachments
+      .map(resource => {
+        const text = resource.contents
+          .map(contents => contents.text ?? `[binary content: ${contents.mimeType || 'unknown type'}]`)
+          .join('\n');
+        return `\n\nAttached resource "${resource.name}" (${resource.uri}):\n\`\`\`\n${text}\n\`\`\``;
+      })
+      .join('');
   }
 
-  private addAIResponse(userMessage: string) {
+  private addAIResponse(userMessage: string, userTimestamp: Date) {
     if (!this.configService.isApiKeyConfigured()) {
+      const locked = this.configService.apiKeyLocked();
+      if (locked) {
+        this.apiKeyUnlock.show();
+      }
       this.messages.update(messages => [
         ...messages,
         {
-          content: "Please configure your OpenAI API key first by clicking the settings button.",
+          content: locked
+            ? "Your API key is locked. Enter your passphrase to unlock it, then send your message again."
+            : "Please configure your API key first by clicking the settings button.",
           isUser: false,
           timestamp: new Date()
         }
@@ -107,6 +240,7 @@ export class App implements AfterViewChecked, OnInit {
     }
 
     // Add user message to conversation history
+    this.updateMessage(userTimestamp, { historyIndex: this.conversationHistory.length });
     this.conversationHistory.push({
       role: 'user',
       content: userMessage
@@ -117,58 +251,242 @@ export class App implements AfterViewChecked, OnInit {
   }
 
   private proceedWithRegularAIResponse() {
-    // First, try to get MCP context/tools, then call OpenAI API
-    this.openaiService.getMCPTools().subscribe({
-      next: (mcpTools) => {
-        console.log('MCP Tools available:', mcpTools);
-        
-        this.mcpHealthStatus.set('Healthy');
-        // Use MCP context with OpenAI
-        this.openaiService.sendMessageWithMCPContext(this.conversationHistory, mcpTools).subscribe({
-          next: (response) => this.handleAIResponse(response),
-          error: (error) => this.handleAIError(error)
-        });
-      },
-      error: (mcpError) => {
+    const stream = this.configService.isStreamingEnabled();
+    const replyTimestamp = this.startAssistantMessage();
+
+    // First, try to get MCP context/tools, then call OpenAI API. The whole turn is one
+    // subscription, so stopping it also cancels the MCP and LLM requests in flight
+    const turn = this.openaiService.getMCPTools().pipe(
+      catchError(mcpError => {
         console.warn('MCP tools not available, using OpenAI without MCP context:', mcpError);
-        this.mcpHealthStatus.set('Unavailable');
-        // Fallback to regular OpenAI call
-        this.openaiService.sendMessage(this.conversationHistory).subscribe({
-          next: (response) => this.handleAIResponse(response),
-          error: (error) => this.handleAIError(error)
-        });
-      }
-    });
+        return of(null);
+      }),
+      switchMap(mcpTools =>
+        mcpTools
+          // Use MCP context and tools with OpenAI; the model may call tools before answering
+          ? this.openaiService.streamMessageWithMCPContext(this.conversationHistory, mcpTools, stream)
+          // Fallback to regular OpenAI call
+          : this.openaiService.runToolLoop(this.conversationHistory, [], stream)
+      )
+    );
+    this.consumeTurn(turn, replyTimestamp);
   }
 
-  private handleAIResponse(response: string) {
-    // Add AI response to conversation history
-    this.conversationHistory.push({
-      role: 'assistant',
-      content: response
-    });
-
-    // Add response to messages
+  // Add an empty bot message that grows as the reply arrives; its timestamp identifies it
+  private startAssistantMessage(): Date {
+    const timestamp = new Date();
+    this.isResponding.set(true);
+    this.turnTrace.begin(timestamp.toISOString());
     this.messages.update(messages => [
       ...messages,
       {
-        content: response,
+        content: '',
         isUser: false,
-        timestamp: new Date()
+        timestamp,
+        isStreaming: true,
+        historyIndex: this.conversationHistory.length
       }
     ]);
-    
     this.shouldScrollToBottom = true;
+    return timestamp;
+  }
+
+  private updateAssistantMessage(timestamp: Date, changes: Partial<Message>) {
+    this.updateMessage(timestamp, changes);
+    this.shouldScrollToBottom = true;
+  }
+
+  private updateMessage(timestamp: Date, changes: Partial<Message>) {
+    this.messages.update(messages =>
+      messages.map(message => message.timestamp === timestamp ? { ...message, ...changes } : message)
+    );
+  }
+
+  private getAssistantMessage(timestamp: Date): Message | undefined {
+    return this.messages().find(message => message.timestamp === timestamp);
+  }
+
+  private consumeTurn(events: Observable<ChatTurnEvent>, replyTimestamp: Date) {
+    this.activeTurn = events.subscribe({
+      next: (event) => {
+        if (event.type === 'delta') {
+          const current = this.getAssistantMessage(replyTimestamp)?.content ?? '';
+          this.updateAssistantMessage(replyTimestamp, { content: current + event.content });
+          return;
+        }
+        if (event.type === 'sources') {
+          this.updateAssistantMessage(replyTimestamp, { sources: event.sources });
+          return;
+        }
+
+        // Add every message of the turn (tool calls, tool results and the answer) to history
+        this.conversationHistory.push(event.message);
+
+        if (event.message.role === 'assistant') {
+          // Text streamed before a tool call is superseded by the answer that follows it
+          this.updateAssistantMessage(replyTimestamp, {
+            content: event.message.tool_calls?.length ? '' : event.message.content ?? ''
+          });
+        }
+        this.recordToolActivity(replyTimestamp, event.message);
+      },
+      error: (error) => {
+        this.turnTrace.end(replyTimestamp.toISOString());
+        this.messages.update(messages => messages.filter(message => message.timestamp !== replyTimestamp));
+        this.handleAIError(error);
+        this.persistConversation();
+      },
+      complete: () => {
+        this.turnTrace.end(replyTimestamp.toISOString());
+        this.updateAssistantMessage(replyTimestamp, { isStreaming: false });
+        this.isResponding.set(false);
+        this.persistConversation();
+      }
+    });
+  }
+
+  // Stop the reply being generated, keeping the text received so far as the answer
+  stopResponse() {
+    const reply = this.messages().find(message => message.isStreaming);
+    this.cancelActiveTurn();
+    if (!reply) {
+      return;
+    }
+
+    this.turnTrace.end(reply.timestamp.toISOString());
+    // Tool calls of an unfinished turn would leave the history without their results
+    this.truncateHistory(reply.historyIndex ?? this.conversationHistory.length);
+    if (reply.content) {
+      this.conversationHistory.push({ role: 'assistant', content: reply.content });
+    }
+    this.updateMessage(reply.timestamp, { isStreaming: false, stopped: true });
+    this.persistConversation();
+  }
+
+  // Only the latest reply can be regenerated; earlier ones are changed by editing
+  canRegenerate(message: Message): boolean {
+    const messages = this.messages();
+    return (
+      !message.isUser &&
+      message.historyIndex !== undefined &&
+      !this.isResponding() &&
+      messages[messages.length - 1] === message
+    );
+  }
+
+  regenerateResponse(message: Message) {
+    if (!this.canRegenerate(message)) {
+      return;
+    }
+    this.truncateHistory(message.historyIndex!);
+    this.messages.update(messages => messages.filter(current => current !== message));
+    this.proceedWithRegularAIResponse();
+  }
+
+  canEdit(message: Message): boolean {
+    return message.isUser && message.historyIndex !== undefined && !this.isResponding();
+  }
+
+  startEdit(message: Message) {
+    if (this.canEdit(message)) {
+      this.editingMessage.set(message.timestamp);
+    }
+  }
+
+  cancelEdit() {
+    this.editingMessage.set(null);
+  }
+
+  // Send an edited question in place of the original; what followed it is dropped, or kept
+  // as a branch to switch back to
+  saveEdit(message: Message, text: string, keepBranch: boolean) {
+    const content = text.trim();
+    const messages = this.messages();
+    const index = messages.indexOf(message);
+    this.editingMessage.set(null);
+    if (!content || index < 0 || !this.canEdit(message)) {
+      return;
+    }
+
+    const historyIndex = message.historyIndex!;
+    const sent = this.conversationHistory[historyIndex]?.content;
+    // Attached resources were sent after the question; the edited question keeps them
+    const attachments =
+      typeof sent === 'string' && sent.startsWith(message.content)
+        ? sent.slice(message.content.length)
+        : '';
+    const branches = branchesAfterEdit(messages, this.conversationHistory, index, keepBranch);
+
+    this.truncateHistory(historyIndex);
+    const timestamp = new Date();
+    this.messages.set([
+      ...messages.slice(0, index),
+      { content, isUser: true, timestamp, attachments: message.attachments, ...branches }
+    ]);
+    this.shouldScrollToBottom = true;
+    this.addAIResponse(content + attachments, timestamp);
+    this.persistConversation();
+  }
+
+  showBranch(message: Message, target: number) {
+    const index = this.messages().indexOf(message);
+    if (index < 0 || this.isResponding() || !message.branches?.[target]) {
+      return;
+    }
+    const branch = switchBranch(this.messages(), this.conversationHistory, index, target);
+    this.messages.set(branch.messages);
+    this.conversationHistory = branch.history;
+    this.openaiService.setHistorySummary(null);
+    this.openaiService.estimateContextUsage(branch.history);
+    this.persistConversation();
+  }
+
+  // Drop history from `length` on, and the summary if it covered any of it
+  private truncateHistory(length: number) {
+    this.conversationHistory = this.conversationHistory.slice(0, length);
+    const summary = this.openaiService.historySummary();
+    if (summary && summary.messageCount > length) {
+      this.openaiService.setHistorySummary(null);
+    }
+  }
+
+  // Keep the tools called for a reply, and their results, on the reply's bubble
+  private recordToolActivity(replyTimestamp: Date, message: OpenAIMessage) {
+    const toolCalls = this.getAssistantMessage(replyTimestamp)?.toolCalls ?? [];
+
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      this.updateAssistantMessage(replyTimestamp, {
+        toolCalls: [
+          ...toolCalls,
+          ...message.tool_calls.map(toolCall => ({
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments
+          }))
+        ]
+      });
+    } else if (message.role === 'tool') {
+      this.updateAssistantMessage(replyTimestamp, {
+        toolCalls: toolCalls.map(toolCall =>
+          toolCall.id === message.tool_call_id ? { ...toolCall, result: message.content ?? '' } : toolCall
+        )
+      });
+    }
   }
 
   private handleAIError(error: any) {
-    console.error('OpenAI API error:', error);
+    console.error(`${this.llm.getLabel()} API error:`, error);
+    this.isResponding.set(false);
     let errorMessage = 'Sorry, I encountered an error while processing your request.';
     
     if (error.status === 401) {
-      errorMessage = 'Invalid API key. Please check your OpenAI API key configuration.';
+      errorMessage = `Invalid API key. Please check your ${this.llm.getLabel()} API key configuration.`;
     } else if (error.status === 429) {
       errorMessage = 'Rate limit exceeded. Please try again in a moment.';
+    } else if (error instanceof RequestTimeoutError) {
+      errorMessage = `${this.llm.getLabel()} did not respond in time, even after retrying. Please try again.`;
+    } else if ([0, 502, 503, 504].includes(error.status)) {
+      errorMessage = `${this.llm.getLabel()} is unreachable or overloaded, even after retrying. Please try again later.`;
     }
     
     this.messages.update(messages => [
@@ -204,17 +522,22 @@ export class App implements AfterViewChecked, OnInit {
   }
 
   showApiKeyConfig() {
-    this.apiKeyConfig.show();
+    const dialog = this.apiKeyConfig();
+    if (dialog) {
+      dialog.show();
+    } else {
+      this.apiKeyConfigRequested.set(true);
+    }
   }
 
-  onConfigSaved(config: {apiKey: string, mcpServerUrl: string}) {
+  onConfigSaved(config: {apiKey: string, mcpServers: McpServerConfig[]}) {
     // Configuration is already saved by the ConfigService in the component
     
     // Update welcome message
     this.messages.update(messages => [
       ...messages,
       {
-        content: `Great! Your configuration has been saved. API key configured and MCP server set to ${config.mcpServerUrl}. I'm now ready to assist you with AI-powered responses. How can I help you today?`,
+        content: `Great! Your configuration has been saved. API key configured and MCP servers set to ${this.describeServers(config.mcpServers)}. I'm now ready to assist you with AI-powered responses. How can I help you today?`,
         isUser: false,
         timestamp: new Date()
       }
@@ -226,62 +549,142 @@ export class App implements AfterViewChecked, OnInit {
     this.checkMCPHealth();
   }
 
+  private describeServers(servers: McpServerConfig[]): string {
+    const enabled = servers.filter(server => server.enabled);
+    return enabled.length ? enabled.map(server => `${server.name} (${server.url})`).join(', ') : 'none';
+  }
+
   onConfigCancelled() {
     // Handle cancellation if needed
   }
 
+  // Start new MCP sessions; the outcome shows in the header's status popover, not in the chat
   checkMCPHealth() {
-    const mcpUrl = this.configService.getMcpServerUrl();
-    
-    this.mcpHealthStatus.set('Checking...');
-    
-    this.openaiService.initializeMCP().subscribe({
-      next: (response) => {
-        this.mcpHealthStatus.set('Healthy');
-        
-        this.messages.update(messages => [
-          ...messages,
-          {
-            content: `✅ MCP Server initialized successfully! Server at ${mcpUrl} is ready for use.`,
-            isUser: false,
-            timestamp: new Date()
-          }
-        ]);
-        this.shouldScrollToBottom = true;
-      },
-      error: (error) => {
-        this.mcpHealthStatus.set('Unavailable');
-        console.error('MCP Initialization Error:', error);
-        
-        let errorMsg = `❌ MCP Server initialization failed for ${mcpUrl}.`;
-        if (error.status === 404) {
-          errorMsg += ' Please check the proxy configuration and ensure the MCP server is running.';
-        } else if (error.status === 406) {
-          errorMsg += ' Server returned 406 Not Acceptable. Please check the MCP server configuration.';
-        } else if (error.status === 0) {
-          errorMsg += ' This might be due to CORS issues or the server being unavailable.';
-        } else {
-          errorMsg += ` Error: ${error.status} ${error.statusText}`;
-        }
-        
-        this.messages.update(messages => [
-          ...messages,
-          {
-            content: errorMsg,
-            isUser: false,
-            timestamp: new Date()
-          }
-        ]);
-        this.shouldScrollToBottom = true;
+    this.openaiService.initializeMCP().subscribe((outcomes) => {
+      if (outcomes.some(outcome => outcome.result)) {
+        this.loadMCPLibrary();
       }
     });
   }
 
+  // Tell the user when a server goes down or comes back, and reconnect to it when it does
+  private onHealthChanged(change: HealthChange) {
+    const { server, current, sample } = change;
+    if (current === 'unhealthy') {
+      const reason = sample.error ?? 'unknown error';
+      this.addBotMessage(`⚠️ MCP server "${server.name}" stopped responding to health checks: ${reason}`);
+      return;
+    }
+    this.addBotMessage(`✅ MCP server "${server.name}" is healthy again (${sample.latencyMs} ms).`);
+    if (this.mcpRegistry.getStatus(server.id).state !== 'Healthy') {
+      this.mcpRegistry.initialize(server).subscribe({
+        next: () => this.loadMCPLibrary(),
+        error: (error) => console.warn(`Could not reconnect to MCP server ${server.name}:`, error)
+      });
+    }
+  }
+
+  private addBotMessage(content: string) {
+    this.messages.update(messages => [
+      ...messages,
+      {
+        content,
+        isUser: false,
+        timestamp: new Date()
+      }
+    ]);
+    this.shouldScrollToBottom = true;
+  }
+
+  // Discover resources and prompts offered by the MCP server
+  private loadMCPLibrary() {
+    this.openaiService.discoverMCPLibrary().subscribe({
+      next: (library) => {
+        this.mcpResources.set(library.resources);
+        this.mcpPrompts.set(library.prompts);
+      },
+      error: (error) => console.warn('Could not load MCP resources and prompts:', error)
+    });
+  }
+
+  // Drop cached MCP tool lists and results, then fetch the tools and library again
+  refreshMCPData() {
+    this.openaiService.invalidateMCPCache();
+    this.loadMCPLibrary();
+    this.openaiService.getMCPTools().subscribe({
+      error: (error) => console.warn('Could not refresh MCP tools:', error)
+    });
+  }
+
+  showMCPLibrary() {
+    const library = this.mcpLibrary();
+    if (library) {
+      library.show();
+    } else {
+      this.mcpLibraryRequested.set(true);
+    }
+  }
+
+  onResourceAttached(resource: AttachedResource) {
+    this.attachedResources.update(resources => [
+      ...resources.filter(existing => existing.uri !== resource.uri),
+      resource
+    ]);
+    this.messageInput?.nativeElement.focus();
+  }
+
+  removeAttachment(uri: string) {
+    this.attachedResources.update(resources => resources.filter(resource => resource.uri !== uri));
+  }
+
+  // Start a new conversation from the messages of a server-provided prompt template
+  onPromptApplied(event: { prompt: MCPPrompt; result: MCPGetPromptResult }) {
+    this.clearConversation();
+    this.ensureConversation();
+
+    for (const promptMessage of event.result.messages) {
+      const content = promptMessage.content;
+      const text =
+        content.type === 'text'
+          ? content.text
+          : content.type === 'resource'
+            ? content.resource.text ?? `[resource: ${content.resource.uri}]`
+            : `[image: ${content.mimeType}]`;
+
+      this.messages.update(messages => [
+        ...messages,
+        {
+          content: text,
+          isUser: promptMessage.role === 'user',
+          timestamp: new Date(),
+          historyIndex: this.conversationHistory.length
+        }
+      ]);
+      this.conversationHistory.push({ role: promptMessage.role, content: text });
+    }
+    this.shouldScrollToBottom = true;
+    this.persistConversation();
+
+    // The template usually ends with the user's question; answer it right away
+    const last = this.conversationHistory[this.conversationHistory.length - 1];
+    if (last?.role === 'user' && this.configService.isApiKeyConfigured()) {
+      this.proceedWithRegularAIResponse();
+    }
+  }
+
   getMCPHealthStatus(): string {
     return this.mcpHealthStatus();
   }
 
+  // Start a new, unsaved conversation; the previous one stays in the sidebar
   clearConversation() {
+    this.cancelActiveTurn();
+    this.currentConversationId.set(null);
+    this.attachedResources.set([]);
+    if (this.getRouteConversationId() || this.isToolsView()) {
+      this.router.navigate(['/']);
+    }
+
     this.messages.set([
       {
         content: this.configService.isApiKeyConfigured() 
@@ -292,8 +695,169 @@ export class App implements AfterViewChecked, OnInit {
       }
     ]);
     this.conversationHistory = [];
+    this.turnTrace.clear();
+    this.openaiService.setModelOverrides({});
+    this.openaiService.setHistorySummary(null);
+    this.openaiService.estimateContextUsage([]);
     this.shouldScrollToBottom = true;
   }
+
+  private getRouteConversationId(): string | null {
+    let route = this.router.routerState.snapshot.root;
+    while (route.firstChild) {
+      route = route.firstChild;
+    }
+    return route.paramMap.get('id');
+  }
+
+  private onConversationRouteChanged(id: string | null) {
+    if (id === this.currentConversationId()) {
+      return;
+    }
+    if (!id) {
+      this.clearConversation();
+      return;
+    }
+
+    this.cancelActiveTurn();
+    this.turnTrace.clear();
+    this.currentConversationId.set(id);
+    this.conversationStore.get(id).subscribe({
+      next: (conversation) => {
+        // Another thread was opened while this one was loading
+        if (this.currentConversationId() !== id) {
+          return;
+        }
+        if (!conversation) {
+          this.router.navigate(['/'], { replaceUrl: true });
+          return;
+        }
+
+        this.conversationCreatedAt = conversation.createdAt;
+        this.conversationHistory = conversation.history;
+        this.openaiService.setModelOverrides(conversation.modelOverrides ?? {});
+        this.openaiService.setHistorySummary(conversation.historySummary ?? null);
+        this.openaiService.estimateContextUsage(conversation.history);
+        this.messages.set(
+          withHistoryIndexes(
+            conversation.messages.map(message => this.fromStoredMessage(message)),
+            conversation.history
+          )
+        );
+        this.attachedResources.set([]);
+        this.shouldScrollToBottom = true;
+      },
+      error: (error) => {
+        console.error('Failed to load conversation:', error);
+        this.router.navigate(['/'], { replaceUrl: true });
+      }
+    });
+  }
+
+  // Give the current chat an id and URL once it has something worth keeping
+  private ensureConversation() {
+    if (this.currentConversationId()) {
+      return;
+    }
+    const id = this.conversationStore.createId();
+    this.currentConversationId.set(id);
+    this.conversationCreatedAt = Date.now();
+    this.router.navigate(['/chat', id], { replaceUrl: true });
+  }
+
+  private persistConversation() {
+    const id = this.currentConversationId();
+    if (!id) {
+      return;
+    }
+
+    this.conversationStore.save(this.buildConversation(id)).subscribe({
+      error: (error) => console.error('Failed to save conversation:', error)
+    });
+  }
+
+  private buildConversation(id: string): Conversation {
+    // A reply still being written is saved when its turn completes
+    const messages: StoredMessage[] = this.messages()
+      .filter(message => !message.isStreaming)
+      .map(message => this.toStoredMessage(message));
+
+    // Keep a title the user chose over the generated one
+    const existing = this.conversationStore.conversations().find(summary => summary.id === id);
+    const firstQuestion = messages.find(message => message.isUser)?.content ?? 'New conversation';
+
+    return {
+      id,
+      title: existing?.title ?? this.createTitle(firstQuestion),
+      createdAt: this.conversationCreatedAt || Date.now(),
+      updatedAt: Date.now(),
+      history: [...this.conversationHistory],
+      messages,
+      modelOverrides: this.openaiService.modelOverrides(),
+      historySummary: this.openaiService.historySummary() ?? undefined
+    };
+  }
+
+  private toStoredMessage(message: Message): StoredMessage {
+    const { timestamp, isStreaming, branches, ...rest } = message;
+    return {
+      ...rest,
+      timestamp: timestamp.toISOString(),
+      branches: branches?.map(
+        (branch): StoredBranch => ({
+          messages: branch.messages.map(branchMessage => this.toStoredMessage(branchMessage)),
+          history: branch.history
+        })
+      )
+    };
+  }
+
+  private fromStoredMessage(message: StoredMessage): Message {
+    return {
+      ...message,
+      timestamp: new Date(message.timestamp),
+      branches: message.branches?.map(branch => ({
+        messages: branch.messages.map(branchMessage => this.fromStoredMessage(branchMessage)),
+        history: branch.history
+      }))
+    };
+  }
+
+  // Overrides belong to the conversation; an unsaved one keeps them until its first message
+  onModelOverridesChanged() {
+    this.persistConversation();
+  }
+
+  exportConversation(format: ExportFormat) {
+    const conversation = this.buildConversation(this.currentConversationId() ?? 'draft');
+    const modelSettings = this.openaiService.getModelSettings();
+
+    if (format === 'markdown') {
+      downloadFile(
+        exportFileName(conversation, 'md'),
+        toMarkdown(conversation, modelSettings),
+        'text/markdown'
+      );
+    } else {
+      downloadFile(
+        exportFileName(conversation, 'json'),
+        JSON.stringify(toConversationExport(conversation, modelSettings), null, 2),
+        'application/json'
+      );
+    }
+  }
+
+  private createTitle(text: string): string {
+    const line = text.trim().split('\n')[0];
+    return line.length > 60 ? line.slice(0, 57).trimEnd() + '...' : line;
+  }
+
+  // Stop a reply that belongs to a conversation being left
+  private cancelActiveTurn() {
+    this.activeTurn?.unsubscribe();
+    this.activeTurn = null;
+    this.isResponding.set(false);
+  }
   
   // Handle clicking on suggested questions
   onSuggestedQuestionClick(question: string) {
@@ -312,6 +876,15 @@ export class App implements AfterViewChecked, OnInit {
     return message.timestamp;
   }
 
+  // Requests recorded while the reply was generated; empty for replies from earlier sessions
+  traceEntries(message: Message): TraceEntry[] {
+    return this.turnTrace.traces()[message.timestamp.toISOString()] ?? [];
+  }
+
+  sourceTitle(source: ContextSource): string {
+    return source.matches.length ? `Matched: ${source.matches.join(', ')}` : 'Similar to the question';
+  }
+
   // Check if there are any user messages
   hasUserMessages(): boolean {
     return this.messages().some(message => message.isUser);
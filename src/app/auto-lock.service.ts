@@ -0,0 +1,47 @@
+import { Injectable, PLATFORM_ID, effect, inject } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+import { interval } from 'rxjs';
+import { ConfigService } from './config.service';
+
+// Events that count as the user being active
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+// How often inactivity is checked; the key locks at most this late
+const CHECK_INTERVAL_MS = 30_000;
+
+/**
+ * Locks an unlocked encrypted API key after the configured minutes without user activity,
+ * so a key left open in an unattended tab needs its passphrase again.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AutoLockService {
+  private configService = inject(ConfigService);
+  private lastActivity = Date.now();
+
+  constructor() {
+    if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+      return;
+    }
+    // Plain listeners: recording activity must not trigger change detection
+    const document = inject(DOCUMENT);
+    const recordActivity = () => (this.lastActivity = Date.now());
+    for (const type of ACTIVITY_EVENTS) {
+      document.addEventListener(type, recordActivity, { capture: true, passive: true });
+    }
+
+    effect((onCleanup) => {
+      const { apiKeyStorage, autoLockMinutes, openaiApiKey } = this.configService.config();
+      if (apiKeyStorage !== 'encrypted' || !autoLockMinutes || !openaiApiKey) {
+        return;
+      }
+      const limitMs = autoLockMinutes * 60_000;
+      const subscription = interval(CHECK_INTERVAL_MS).subscribe(() => {
+        if (Date.now() - this.lastActivity >= limitMs) {
+          this.configService.lockApiKey();
+        }
+      });
+      onCleanup(() => subscription.unsubscribe());
+    });
+  }
+}
@@ -0,0 +1,242 @@
+import { Component, inject, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ConfigService } from './config.service';
+import { LlmService } from './llm/llm.service';
+import { McpRegistryService } from './mcp-registry.service';
+import { McpStatusComponent } from './mcp-status.component';
+import { ContextMeterComponent } from './context-meter.component';
+import { ConversationSettingsComponent } from './conversation-settings.component';
+import { ExportFormat, ExportMenuComponent } from './export-menu.component';
+
+/**
+ * Chat header: the provider and MCP status, the context meter and the conversation controls.
+ * Actions that concern the whole chat are emitted for the root component to carry out.
+ */
+@Component({
+  selector: 'app-chat-header',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    McpStatusComponent,
+    ContextMeterComponent,
+    ConversationSettingsComponent,
+    ExportMenuComponent
+  ],
+  template: `
+    <div class="header-content">
+      <div class="bot-avatar">AI</div>
+      <div class="header-info">
+        <h1>AI Assistant</h1>
+        <p>{{ configService.isApiKeyConfigured() ? 'Powered by ' + llm.getLabel() : configService.apiKeyLocked() ? 'API key locked' : 'Configure API key to start' }}{{ configService.usesServerManagedKey() ? ' (server-managed key)' : '' }}</p>
+        <p class="mcp-status-line">
+          <app-mcp-status (reconnect)="reconnect.emit()"></app-mcp-status>
+        </p>
+      </div>
+      <div class="header-controls">
+        <app-context-meter></app-context-meter>
+        <app-conversation-settings
+          (overridesChanged)="overridesChanged.emit()">
+        </app-conversation-settings>
+        <button
+          class="control-btn"
+          (click)="newConversation.emit()"
+          title="New conversation">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M3 6h18"/>
+            <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/>
+            <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/>
+          </svg>
+        </button>
+        <div class="menu-anchor" *ngIf="canExport()">
+          <button
+            class="control-btn"
+            (click)="exportMenuOpen.set(!exportMenuOpen())"
+            title="Export conversation">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+              <path d="M7 10l5 5 5-5"/>
+              <path d="M12 15V3"/>
+            </svg>
+          </button>
+          <app-export-menu
+            *ngIf="exportMenuOpen()"
+            (formatSelected)="onFormatSelected($event)">
+          </app-export-menu>
+        </div>
+        <button
+          class="control-btn"
+          (click)="refreshRequested.emit()"
+          [title]="cacheTitle()">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M21 12a9 9 0 1 1-3-6.7L21 8"/>
+            <path d="M21 3v5h-5"/>
+          </svg>
+        </button>
+        <button
+          class="control-btn"
+          *ngIf="hasLibrary()"
+          (click)="libraryOpened.emit()"
+          title="Browse MCP resources and prompts">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"/>
+            <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"/>
+          </svg>
+        </button>
+        <a
+          class="control-btn"
+          routerLink="/tools"
+          title="Run MCP tools directly">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M14.7 6.3a1 1 0 0 0 0 1.4l1.6 1.6a1 1 0 0 0 1.4 0l3.77-3.77a6 6 0 0 1-7.94 7.94l-6.91 6.91a2.12 2.12 0 0 1-3-3l6.91-6.91a6 6 0 0 1 7.94-7.94l-3.76 3.76z"/>
+          </svg>
+        </a>
+        <button
+          class="control-btn"
+          (click)="reconnect.emit()"
+          title="Reconnect to the MCP servers">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <path d="M22 12h-4l-3 9L9 3l-3 9H2"/>
+          </svg>
+        </button>
+        <button
+          class="control-btn settings-btn"
+          (click)="settingsOpened.emit()"
+          title="Configure API key">
+          <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+            <circle cx="12" cy="12" r="3"/>
+            <path d="M12 1v6m0 6v6m11-7h-6m-6 0H1m15.5-6.5L19 7l-1.5 1.5M5 17l1.5-1.5L5 14l-1.5 1.5"/>
+          </svg>
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: block;
+      background: var(--surface);
+      border-bottom: 1px solid var(--border);
+      padding: 1rem 1.5rem;
+      box-shadow: var(--shadow);
+      z-index: 10;
+    }
+
+    .header-content {
+      display: flex;
+      align-items: center;
+      gap: 0.75rem;
+      max-width: 1200px;
+      margin: 0 auto;
+      justify-content: space-between;
+    }
+
+    .header-controls {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .control-btn {
+      padding: 0.5rem;
+      border: 1px solid var(--border);
+      background: var(--surface);
+      border-radius: 6px;
+      cursor: pointer;
+      color: var(--text-secondary);
+      transition: all 0.2s ease;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+    }
+
+    .control-btn:hover {
+      background: var(--background);
+      color: var(--text-primary);
+      border-color: var(--primary-color);
+    }
+
+    .settings-btn {
+      background: var(--primary-color);
+      color: white;
+      border-color: var(--primary-color);
+    }
+
+    .settings-btn:hover {
+      background: var(--primary-hover);
+      border-color: var(--primary-hover);
+    }
+
+    .menu-anchor {
+      position: relative;
+    }
+
+    .bot-avatar {
+      width: 2.5rem;
+      height: 2.5rem;
+      background: linear-gradient(135deg, var(--primary-color), var(--primary-hover));
+      border-radius: 50%;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: white;
+      font-weight: 600;
+      font-size: 1.125rem;
+    }
+
+    .header-info h1 {
+      margin: 0;
+      font-size: 1.25rem;
+      font-weight: 600;
+      color: var(--text-primary);
+    }
+
+    .header-info p {
+      margin: 0;
+      font-size: 0.875rem;
+      color: var(--text-secondary);
+    }
+
+    .header-info .mcp-status-line {
+      font-size: 0.8em;
+    }
+
+    @media (max-width: 768px) {
+      :host {
+        padding: 1rem;
+      }
+    }
+  `]
+})
+export class ChatHeaderComponent {
+  protected configService = inject(ConfigService);
+  protected llm = inject(LlmService);
+  private mcpRegistry = inject(McpRegistryService);
+
+  // The conversation has user messages worth exporting
+  canExport = input(false);
+  // Some MCP server offers resources or prompts
+  hasLibrary = input(false);
+
+  newConversation = output<void>();
+  exportRequested = output<ExportFormat>();
+  refreshRequested = output<void>();
+  libraryOpened = output<void>();
+  reconnect = output<void>();
+  settingsOpened = output<void>();
+  overridesChanged = output<void>();
+
+  exportMenuOpen = signal(false);
+
+  cacheTitle(): string {
+    const clearedAt = this.mcpRegistry.cacheClearedAt();
+    return clearedAt
+      ? `Refresh MCP data (cache cleared at ${new Date(clearedAt).toLocaleTimeString()})`
+      : 'Refresh MCP data';
+  }
+
+  onFormatSelected(format: ExportFormat) {
+    this.exportMenuOpen.set(false);
+    this.exportRequested.emit(format);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Copy text to the clipboard, resolving with whether it worked. The Clipboard API only
+ * exists in secure contexts, so plain-http hosts fall back to copying a selection.
+ */
+export function copyToClipboard(text: string): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.clipboard?.writeText) {
+    return Promise.resolve(copyWithSelection(text));
+  }
+  return navigator.clipboard.writeText(text).then(
+    () => true,
+    (error) => {
+      console.warn('Could not copy to the clipboard:', error);
+      return copyWithSelection(text);
+    }
+  );
+}
+
+// Older copy path through a hidden textarea; execCommand is deprecated but still the only
+// option outside secure contexts
+function copyWithSelection(text: string): boolean {
+  if (typeof document === 'undefined') {
+    return false;
+  }
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+  try {
+    return document.execCommand('copy');
+  } catch {
+    return false;
+  } finally {
+    textarea.remove();
+  }
+}
@@ -0,0 +1,85 @@
+import type { Company } from './company-models';
+import {
+  comparisonRows,
+  parseCompanyNames,
+  parseMessageBlocks,
+  resolveCompanies,
+} from './company-blocks';
+
+describe('company blocks', () => {
+  const companies: Company[] = [
+    {
+      company: 'OpenAI',
+      description: 'AI research lab',
+      chats: [{ chatbot: 'ChatGPT' }],
+      llms: [{ llm: 'GPT-4o', specialization: 'multimodal' }],
+    },
+    {
+      company: 'Anthropic',
+      description: 'AI safety company',
+      chats: [{ chatbot: 'Claude' }],
+      llms: [
+        { llm: 'Claude 3.5 Sonnet', specialization: 'coding' },
+        { llm: 'Claude 3 Haiku', specialization: '' },
+      ],
+    },
+    { company: 'Google DeepMind', description: '', chats: [], llms: [] },
+  ];
+
+  it('should split a message into Markdown and company blocks', () => {
+    const content = [
+      'Here is how they compare:',
+      '',
+      '```company-comparison',
+      '["Anthropic", "OpenAI"]',
+      '```',
+      '',
+      'Both offer chatbots.',
+    ].join('\n');
+
+    expect(parseMessageBlocks(content)).toEqual([
+      { type: 'markdown', text: 'Here is how they compare:\n\n' },
+      {
+        type: 'comparison',
+        names: ['Anthropic', 'OpenAI'],
+        raw: '```company-comparison\n["Anthropic", "OpenAI"]\n```',
+      },
+      { type: 'markdown', text: '\n\nBoth offer chatbots.' },
+    ]);
+  });
+
+  it('should leave unfinished and other code blocks as Markdown', () => {
+    const streaming = 'Cards:\n```company-cards\n["OpenAI"]';
+    expect(parseMessageBlocks(streaming)).toEqual([{ type: 'markdown', text: streaming }]);
+
+    const code = '```json\n["OpenAI"]\n```';
+    expect(parseMessageBlocks(code)).toEqual([{ type: 'markdown', text: code }]);
+  });
+
+  it('should read names from JSON or plain lists', () => {
+    expect(parseCompanyNames('["OpenAI", 3, "Anthropic"]')).toEqual(['OpenAI', 'Anthropic']);
+    expect(parseCompanyNames('{"companies": ["OpenAI"]}')).toEqual(['OpenAI']);
+    expect(parseCompanyNames('- OpenAI\n- Anthropic')).toEqual(['OpenAI', 'Anthropic']);
+    expect(parseCompanyNames('OpenAI, Anthropic')).toEqual(['OpenAI', 'Anthropic']);
+    expect(parseCompanyNames('{"name": "OpenAI"}')).toEqual([]);
+  });
+
+  it('should resolve exact, partial and misspelled names', () => {
+    expect(resolveCompanies(['openai', 'Google', 'Antropic', 'Mistral'], companies)).toEqual({
+      companies: [companies[0], companies[2], companies[1]],
+      missing: ['Mistral'],
+    });
+  });
+
+  it('should build comparison rows with one cell per company', () => {
+    const rows = comparisonRows([companies[0], companies[1], companies[2]]);
+
+    expect(rows.map((row) => row.label)).toEqual(['Description', 'Chatbots', 'LLM models']);
+    expect(rows[2].cells).toEqual([
+      'GPT-4o (multimodal)',
+      'Claude 3.5 Sonnet (coding)\nClaude 3 Haiku',
+      '—',
+    ]);
+    expect(rows[0].cells[2]).toBe('—');
+  });
+});
@@ -0,0 +1,151 @@
+import type { Company } from './company-models';
+import { similarity } from './context-retrieval';
+
+// Fence languages the model uses to ask for company cards and comparison tables
+export const COMPANY_CARDS_FENCE = 'company-cards';
+export const COMPANY_COMPARISON_FENCE = 'company-comparison';
+
+// A piece of a bot message: Markdown text, or a block the app renders from company data
+export type MessageBlock =
+  | { type: 'markdown'; text: string }
+  | { type: 'cards' | 'comparison'; names: string[]; raw: string };
+
+// Companies a block names, matched against the dataset
+export interface ResolvedCompanies {
+  companies: Company[];
+  // Names not found in the dataset
+  missing: string[];
+}
+
+// A row of a comparison table, one cell per company
+export interface ComparisonRow {
+  label: string;
+  cells: string[];
+}
+
+// A closed fence of one of the block languages, with the fences on lines of their own
+const BLOCK_LANGUAGES = `${COMPANY_CARDS_FENCE}|${COMPANY_COMPARISON_FENCE}`;
+const BLOCK_PATTERN = new RegExp(
+  `^\`\`\`(${BLOCK_LANGUAGES})[ \\t]*\\n([\\s\\S]*?)\\n?\`\`\`[ \\t]*$`,
+  'gm'
+);
+
+/**
+ * Split a message into Markdown and company blocks. Only closed fences count, so a block
+ * still being streamed shows as text until it is complete.
+ */
+export function parseMessageBlocks(content: string): MessageBlock[] {
+  const blocks: MessageBlock[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(BLOCK_PATTERN)) {
+    const names = parseCompanyNames(match[2]);
+    if (names.length === 0) {
+      continue;
+    }
+    pushMarkdown(blocks, content.slice(last, match.index));
+    blocks.push({
+      type: match[1] === COMPANY_CARDS_FENCE ? 'cards' : 'comparison',
+      names,
+      raw: match[0],
+    });
+    last = match.index! + match[0].length;
+  }
+  pushMarkdown(blocks, content.slice(last));
+  return blocks;
+}
+
+function pushMarkdown(blocks: MessageBlock[], text: string) {
+  if (text.trim()) {
+    blocks.push({ type: 'markdown', text });
+  }
+}
+
+/**
+ * Company names in a block: a JSON array, an object with a `companies` array, or one
+ * name per line or comma
+ */
+export function parseCompanyNames(body: string): string[] {
+  let names: unknown;
+  try {
+    const parsed = JSON.parse(body);
+    names = Array.isArray(parsed) ? parsed : parsed?.companies;
+  } catch {
+    names = body.split(/[\n,]/);
+  }
+  if (!Array.isArray(names)) {
+    return [];
+  }
+  return names
+    .filter((name): name is string => typeof name === 'string')
+    .map((name) => name.replace(/^\s*[-*]\s+/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Look up the named companies: exact names first, then names that contain one another
+ * ("Google" for "Google DeepMind"), then close spellings
+ */
+export function resolveCompanies(names: string[], dataset: Company[]): ResolvedCompanies {
+  const companies: Company[] = [];
+  const missing: string[] = [];
+
+  for (const name of names) {
+    const wanted = name.toLowerCase();
+    const found =
+      dataset.find((company) => company.company.toLowerCase() === wanted) ??
+      dataset.find((company) => {
+        const candidate = company.company.toLowerCase();
+        // Very short names would match too much, e.g. "AI"
+        return wanted.length >= 3 && (candidate.includes(wanted) || wanted.includes(candidate));
+      }) ??
+      dataset.find((company) => similarity(company.company.toLowerCase(), wanted) >= 0.75);
+
+    if (!found) {
+      missing.push(name);
+    } else if (!companies.includes(found)) {
+      companies.push(found);
+    }
+  }
+  return { companies, missing };
+}
+
+/**
+ * Rows of a side-by-side comparison of companies
+ */
+export function comparisonRows(companies: Company[]): ComparisonRow[] {
+  const list = (items: string[]) => (items.length ? items.join('\n') : '—');
+  return [
+    { label: 'Description', cells: companies.map((company) => company.description || '—') },
+    {
+      label: 'Chatbots',
+      cells: companies.map((company) => list(company.chats.map((chat) => chat.chatbot))),
+    },
+    {
+      label: 'LLM models',
+      cells: companies.map((company) =>
+        list(
+          company.llms.map((llm) =>
+            llm.specialization ? `${llm.llm} (${llm.specialization})` : llm.llm
+          )
+        )
+      ),
+    },
+  ];
+}
+
+/**
+ * Instructions for the system prompt, telling the model how to ask for cards and tables
+ */
+export function companyBlocksInstructions(): string {
+  return `To show details of specific companies, you can add a block naming them; the app renders it from the dataset, so do not repeat the details yourself:
+- Company cards: a fenced code block with the language \`${COMPANY_CARDS_FENCE}\` holding a JSON array of company names, e.g.
+\`\`\`${COMPANY_CARDS_FENCE}
+["OpenAI"]
+\`\`\`
+- A side-by-side comparison table: the same with the language \`${COMPANY_COMPARISON_FENCE}\`, e.g.
+\`\`\`${COMPANY_COMPARISON_FENCE}
+["Anthropic", "OpenAI"]
+\`\`\`
+Use the exact company names from the data, and add a short prose answer around the block.`;
+}
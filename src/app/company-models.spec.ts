@@ -0,0 +1,108 @@
+import {
+  MCPParseError,
+  parseChatbots,
+  parseCompanies,
+  parseLlmModels,
+  readToolPayload,
+} from './company-models';
+
+describe('company models', () => {
+  const openai = {
+    company: 'OpenAI',
+    description: 'AI research lab',
+    chats: [{ chatbot: 'ChatGPT' }],
+    llms: [{ llm: 'GPT-4o', specialization: 'multimodal' }],
+  };
+  const textResult = (value: unknown) => ({
+    content: [{ type: 'text', text: JSON.stringify(value) }],
+  });
+
+  const parseError = (parse: () => unknown): MCPParseError => {
+    try {
+      parse();
+    } catch (error) {
+      expect(error).toBeInstanceOf(MCPParseError);
+      return error as MCPParseError;
+    }
+    throw new Error('Expected an MCPParseError');
+  };
+
+  it('should read companies from each payload shape', () => {
+    expect(parseCompanies(textResult([openai]))).toEqual([openai]);
+    expect(parseCompanies(textResult({ companies: [openai] }))).toEqual([openai]);
+    expect(parseCompanies(textResult(openai))).toEqual([openai]);
+    expect(parseCompanies({ content: [], structuredContent: { companies: [openai] } })).toEqual([
+      openai,
+    ]);
+    expect(parseCompanies([openai])).toEqual([openai]);
+  });
+
+  it('should fill in optional fields', () => {
+    const result = textResult([{ company: 'Mistral', llms: [{ llm: 'Large' }] }]);
+    expect(parseCompanies(result)).toEqual([
+      {
+        company: 'Mistral',
+        description: '',
+        chats: [],
+        llms: [{ llm: 'Large', specialization: '' }],
+      },
+    ]);
+  });
+
+  it('should report every invalid value with its path', () => {
+    const error = parseError(() =>
+      parseCompanies(
+        textResult({
+          companies: [
+            openai,
+            { description: 'No name', chats: 'ChatGPT' },
+            { company: 'Meta', llms: [{ llm: 3 }, null] },
+          ],
+        })
+      )
+    );
+
+    expect(error.issues).toEqual([
+      { path: 'companies[1].company', message: 'is required' },
+      { path: 'companies[1].chats', message: 'expected an array, got "ChatGPT"' },
+      { path: 'companies[2].llms[0].llm', message: 'expected a non-empty string, got number' },
+      { path: 'companies[2].llms[1]', message: 'expected an object, got null' },
+    ]);
+    expect(error.message).toContain('companies[1].company is required');
+  });
+
+  it('should report text that is not JSON and tool errors', () => {
+    const notJson = parseError(() =>
+      parseCompanies({ content: [{ type: 'text', text: 'Company list unavailable' }] })
+    );
+    expect(notJson.issues[0].path).toBe('content[0].text');
+
+    const failed = parseError(() =>
+      parseChatbots({ isError: true, content: [{ type: 'text', text: 'Unknown company' }] })
+    );
+    expect(failed.message).toBe('getChats failed: Unknown company');
+  });
+
+  it('should reject payloads that are not lists', () => {
+    expect(parseError(() => parseLlmModels(textResult('GPT-4o'))).issues).toEqual([
+      { path: '(root)', message: 'expected an array or an object with "llms", got "GPT-4o"' },
+    ]);
+  });
+
+  it('should read chatbots and models of a company', () => {
+    expect(parseChatbots(textResult({ company: 'OpenAI', chats: openai.chats }))).toEqual(
+      openai.chats
+    );
+    expect(parseLlmModels(textResult(openai.llms))).toEqual(openai.llms);
+  });
+
+  it('should combine several JSON text parts', () => {
+    const result = {
+      content: [
+        { type: 'text', text: '{"a": 1}' },
+        { type: 'text', text: '{"b": 2}' },
+      ],
+    };
+    expect(readToolPayload(result, 'tool')).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+});
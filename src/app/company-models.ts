@@ -0,0 +1,256 @@
+// Domain models of the AI companies dataset served by the MCP tools
+
+export interface Chatbot {
+  chatbot: string;
+  description?: string;
+}
+
+export interface LlmModel {
+  llm: string;
+  specialization: string;
+}
+
+export interface Company {
+  company: string;
+  description: string;
+  chats: Chatbot[];
+  llms: LlmModel[];
+}
+
+// A value that does not match the expected model, e.g. `companies[2].llms[0].llm`
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Error for a tool result that cannot be read as the expected data. `issues` lists every
+ * mismatch found, with its path in the payload.
+ */
+export class MCPParseError extends Error {
+  constructor(
+    message: string,
+    readonly issues: ValidationIssue[] = [],
+    readonly data?: unknown
+  ) {
+    super(issues.length ? `${message}: ${formatIssues(issues)}` : message);
+    this.name = 'MCPParseError';
+  }
+}
+
+// Issues beyond this many are summarized as a count in the error message
+const MAX_REPORTED_ISSUES = 5;
+
+function formatIssues(issues: ValidationIssue[]): string {
+  const listed = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `${issue.path} ${issue.message}`);
+  const more = issues.length - listed.length;
+  return listed.join('; ') + (more > 0 ? ` (and ${more} more)` : '');
+}
+
+/**
+ * Data of a `tools/call` result: its `structuredContent`, or the JSON in its text content.
+ * Tool error results and text that is not JSON are reported as MCPParseError.
+ */
+export function readToolPayload(result: unknown, tool: string): unknown {
+  // Not an MCP result envelope; already the data
+  if (!isObject(result) || !('content' in result || 'structuredContent' in result)) {
+    return result;
+  }
+
+  const texts = (Array.isArray(result['content']) ? (result['content'] as unknown[]) : [])
+    .filter(isObject)
+    .filter((part) => part['type'] === 'text' && typeof part['text'] === 'string')
+    .map((part) => part['text'] as string);
+
+  if (result['isError']) {
+    throw new MCPParseError(`${tool} failed: ${texts.join('\n') || 'no details'}`, [], result);
+  }
+  if (result['structuredContent'] !== undefined) {
+    return result['structuredContent'];
+  }
+  if (texts.length === 0) {
+    throw new MCPParseError(`${tool} returned no text content`, [], result);
+  }
+
+  const values = texts.map((text, index) => {
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'is not valid JSON';
+      throw new MCPParseError(
+        `${tool} returned text that is not JSON`,
+        [{ path: `content[${index}].text`, message }],
+        result
+      );
+    }
+  });
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * Companies from a `getCompanies` result. The payload may be an array of companies,
+ * an object with a `companies` array, or a single company.
+ */
+export function parseCompanies(result: unknown): Company[] {
+  const payload = readToolPayload(result, 'getCompanies');
+  const issues: ValidationIssue[] = [];
+  const companies = readList(payload, 'companies', 'company')
+    .map(([item, path]) => toCompany(item, path, issues));
+  return checked('getCompanies returned invalid companies', issues, result, companies);
+}
+
+/**
+ * Chatbots from a `getChats` result: an array of chatbots, or an object with a `chats` array
+ */
+export function parseChatbots(result: unknown): Chatbot[] {
+  const payload = readToolPayload(result, 'getChats');
+  const issues: ValidationIssue[] = [];
+  const chats = readList(payload, 'chats', 'chatbot')
+    .map(([item, path]) => toChatbot(item, path, issues));
+  return checked('getChats returned invalid chatbots', issues, result, chats);
+}
+
+/**
+ * LLM models from a `getLLMs` result: an array of models, or an object with an `llms` array
+ */
+export function parseLlmModels(result: unknown): LlmModel[] {
+  const payload = readToolPayload(result, 'getLLMs');
+  const issues: ValidationIssue[] = [];
+  const llms = readList(payload, 'llms', 'llm')
+    .map(([item, path]) => toLlmModel(item, path, issues));
+  return checked('getLLMs returned invalid models', issues, result, llms);
+}
+
+function checked<T>(message: string, issues: ValidationIssue[], data: unknown, value: T): T {
+  if (issues.length) {
+    throw new MCPParseError(message, issues, data);
+  }
+  return value;
+}
+
+// Items of a list payload with their paths; a single item, told apart by its `itemKey`
+// property, counts as a list of one
+function readList(payload: unknown, listKey: string, itemKey: string): [unknown, string][] {
+  if (Array.isArray(payload)) {
+    return payload.map((item, index) => [item, `[${index}]`]);
+  }
+  if (isObject(payload) && Array.isArray(payload[listKey])) {
+    return (payload[listKey] as unknown[]).map((item, index) => [item, `${listKey}[${index}]`]);
+  }
+  if (isObject(payload) && itemKey in payload) {
+    return [[payload, '']];
+  }
+  throw new MCPParseError(`Expected a list of ${listKey}`, [
+    {
+      path: '(root)',
+      message: `expected an array or an object with "${listKey}", got ${describeValue(payload)}`,
+    },
+  ]);
+}
+
+function toCompany(value: unknown, path: string, issues: ValidationIssue[]): Company {
+  if (!isObject(value)) {
+    issues.push(notAnObject(value, path));
+    return { company: '', description: '', chats: [], llms: [] };
+  }
+  return {
+    company: readString(value, 'company', path, issues),
+    description: readString(value, 'description', path, issues, true),
+    chats: readArray(value, 'chats', path, issues).map(([item, itemPath]) =>
+      toChatbot(item, itemPath, issues)
+    ),
+    llms: readArray(value, 'llms', path, issues).map(([item, itemPath]) =>
+      toLlmModel(item, itemPath, issues)
+    ),
+  };
+}
+
+function toChatbot(value: unknown, path: string, issues: ValidationIssue[]): Chatbot {
+  if (!isObject(value)) {
+    issues.push(notAnObject(value, path));
+    return { chatbot: '' };
+  }
+  const chatbot: Chatbot = { chatbot: readString(value, 'chatbot', path, issues) };
+  const description = readString(value, 'description', path, issues, true);
+  return description ? { ...chatbot, description } : chatbot;
+}
+
+function toLlmModel(value: unknown, path: string, issues: ValidationIssue[]): LlmModel {
+  if (!isObject(value)) {
+    issues.push(notAnObject(value, path));
+    return { llm: '', specialization: '' };
+  }
+  return {
+    llm: readString(value, 'llm', path, issues),
+    specialization: readString(value, 'specialization', path, issues, true),
+  };
+}
+
+// A string property; optional ones may be missing or null and read as ''
+function readString(
+  value: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[],
+  optional = false
+): string {
+  const property = value[key];
+  if (typeof property === 'string' && (optional || property.trim())) {
+    return property;
+  }
+  if (optional && (property === undefined || property === null)) {
+    return '';
+  }
+  issues.push({
+    path: joinPath(path, key),
+    message:
+      property === undefined
+        ? 'is required'
+        : `expected a non-empty string, got ${describeValue(property)}`,
+  });
+  return '';
+}
+
+// An optional array property with the paths of its items
+function readArray(
+  value: Record<string, unknown>,
+  key: string,
+  path: string,
+  issues: ValidationIssue[]
+): [unknown, string][] {
+  const property = value[key];
+  if (property === undefined || property === null) {
+    return [];
+  }
+  const propertyPath = joinPath(path, key);
+  if (!Array.isArray(property)) {
+    const message = `expected an array, got ${describeValue(property)}`;
+    issues.push({ path: propertyPath, message });
+    return [];
+  }
+  return property.map((item, index) => [item, `${propertyPath}[${index}]`]);
+}
+
+function notAnObject(value: unknown, path: string): ValidationIssue {
+  return { path: path || '(root)', message: `expected an object, got ${describeValue(value)}` };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value === 'string' ? `"${value}"` : typeof value;
+}
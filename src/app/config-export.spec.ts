@@ -0,0 +1,75 @@
+import { DEFAULT_MODEL_SETTINGS, isValidMcpServerUrl } from './config.service';
+import { CONFIG_EXPORT_FORMAT, parseConfigExport, toConfigExport } from './config-export';
+
+describe('config export', () => {
+  const settingsFile = (config: any, overrides: any = {}) =>
+    JSON.stringify({ ...toConfigExport(config), ...overrides });
+
+  it('should read back exported settings', () => {
+    const config = {
+      mcpServers: [
+        {
+          id: 'docs',
+          name: 'Docs',
+          url: 'https://mcp.example.com/mcp',
+          enabled: false,
+          headers: {},
+        },
+      ],
+      streamResponses: false,
+      healthCheckInterval: 120,
+    };
+
+    expect(parseConfigExport(settingsFile(config))).toEqual(config);
+  });
+
+  it('should ignore API keys and normalize values', () => {
+    const imported = parseConfigExport(
+      settingsFile({
+        openaiApiKey: 'sk-test-123',
+        mcpServers: [{ name: 'Docs', url: '/api/mcp' }],
+        modelSettings: { temperature: 5, model: ' gpt-4o ' },
+        healthCheckInterval: 3,
+      })
+    );
+
+    expect('openaiApiKey' in imported).toBeFalse();
+    expect(imported.mcpServers).toEqual([
+      { id: '', name: 'Docs', url: '/api/mcp', enabled: true, headers: {} },
+    ]);
+    expect(imported.modelSettings).toEqual({
+      ...DEFAULT_MODEL_SETTINGS,
+      model: 'gpt-4o',
+      temperature: 2,
+    });
+    expect(imported.healthCheckInterval).toBe(10);
+  });
+
+  it('should reject files that are not settings exports', () => {
+    expect(() => parseConfigExport('{')).toThrowError('The file is not valid JSON');
+    expect(() => parseConfigExport('{"format":"angular-mcp-chat/conversation"}')).toThrowError(
+      'The file is not a settings export'
+    );
+    expect(() => parseConfigExport(settingsFile({}, { version: 2 }))).toThrowError(
+      'Unsupported settings export version: 2'
+    );
+    expect(() =>
+      parseConfigExport(settingsFile({ mcpServers: [{ name: 'Docs', headers: null }] }))
+    ).toThrowError('The settings contain an invalid MCP server');
+    expect(() =>
+      parseConfigExport(settingsFile({ mcpServers: [{ name: 'Other', url: '/api/other-mcp' }] }))
+    ).toThrowError('The settings contain an invalid MCP server');
+    expect(JSON.parse(settingsFile({})).format).toBe(CONFIG_EXPORT_FORMAT);
+  });
+});
+
+describe('isValidMcpServerUrl', () => {
+  it('should accept the MCP proxy path and http(s) URLs only', () => {
+    expect(isValidMcpServerUrl('/api/mcp')).toBeTrue();
+    expect(isValidMcpServerUrl(' /api/mcp/ ')).toBeTrue();
+    expect(isValidMcpServerUrl('https://mcp.example.com/mcp')).toBeTrue();
+    expect(isValidMcpServerUrl('/api/other-mcp')).toBeFalse();
+    expect(isValidMcpServerUrl('//mcp.example.com/mcp')).toBeFalse();
+    expect(isValidMcpServerUrl('ftp://mcp.example.com')).toBeFalse();
+  });
+});
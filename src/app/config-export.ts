@@ -0,0 +1,115 @@
+import {
+  AppConfig,
+  DEFAULT_MODEL_SETTINGS,
+  McpServerConfig,
+  isValidMcpServerUrl,
+  normalizeApiKeyStorage,
+  normalizeAutoLockMinutes,
+  normalizeContextSettings,
+  normalizeHealthCheckInterval,
+  normalizeLlmProvider,
+  normalizeModelSettings,
+} from './config.service';
+
+export const CONFIG_EXPORT_FORMAT = 'angular-mcp-chat/config';
+export const CONFIG_EXPORT_VERSION = 1;
+export const CONFIG_EXPORT_FILE_NAME = 'mcp-chat-settings.json';
+
+/**
+ * Settings file for sharing a setup: everything but the API key and MCP server headers
+ */
+export interface ConfigExport {
+  format: typeof CONFIG_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  config: Partial<AppConfig>;
+}
+
+export function toConfigExport(config: Partial<AppConfig>): ConfigExport {
+  return {
+    format: CONFIG_EXPORT_FORMAT,
+    version: CONFIG_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    config,
+  };
+}
+
+/**
+ * Read a settings file back into the settings it sets, normalized like stored ones.
+ * An API key in the file is ignored; throws with a readable message when the file is
+ * not a valid settings export.
+ */
+export function parseConfigExport(text: string): Partial<AppConfig> {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (parsed?.format !== CONFIG_EXPORT_FORMAT) {
+    throw new Error('The file is not a settings export');
+  }
+  if (parsed.version !== CONFIG_EXPORT_VERSION) {
+    throw new Error(`Unsupported settings export version: ${parsed.version}`);
+  }
+  const config = parsed.config;
+  if (!config || typeof config !== 'object') {
+    throw new Error('The export does not contain settings');
+  }
+
+  const imported: Partial<AppConfig> = {};
+  if (config.mcpServers !== undefined) {
+    if (!Array.isArray(config.mcpServers) || !config.mcpServers.every(isServerEntry)) {
+      throw new Error('The settings contain an invalid MCP server');
+    }
+    imported.mcpServers = config.mcpServers.map((server: McpServerConfig) => ({
+      id: typeof server.id === 'string' ? server.id : '',
+      name: server.name,
+      url: server.url,
+      enabled: server.enabled ?? true,
+      headers: server.headers ?? {},
+    }));
+  }
+  if (config.llmProvider !== undefined) {
+    imported.llmProvider = normalizeLlmProvider(config.llmProvider);
+  }
+  if (typeof config.streamResponses === 'boolean') {
+    imported.streamResponses = config.streamResponses;
+  }
+  if (config.modelSettings !== undefined) {
+    imported.modelSettings = {
+      ...DEFAULT_MODEL_SETTINGS,
+      ...normalizeModelSettings(config.modelSettings),
+    };
+  }
+  if (config.contextSettings !== undefined) {
+    imported.contextSettings = normalizeContextSettings(config.contextSettings);
+  }
+  if (config.healthCheckInterval !== undefined) {
+    imported.healthCheckInterval = normalizeHealthCheckInterval(config.healthCheckInterval);
+  }
+  if (config.apiKeyStorage !== undefined) {
+    imported.apiKeyStorage = normalizeApiKeyStorage(config.apiKeyStorage);
+  }
+  if (config.autoLockMinutes !== undefined) {
+    imported.autoLockMinutes = normalizeAutoLockMinutes(config.autoLockMinutes);
+  }
+  return imported;
+}
+
+function isServerEntry(value: any): boolean {
+  const headers = value?.headers;
+  return (
+    !!value &&
+    typeof value.name === 'string' &&
+    !!value.name.trim() &&
+    typeof value.url === 'string' &&
+    isValidMcpServerUrl(value.url) &&
+    (value.enabled === undefined || typeof value.enabled === 'boolean') &&
+    (headers === undefined ||
+      (!!headers &&
+        typeof headers === 'object' &&
+        Object.values(headers).every((header) => typeof header === 'string')))
+  );
+}
@@ -1,9 +1,263 @@
-import { Injectable, signal, Inject, PLATFORM_ID } from '@angular/core';
+import { Injectable, signal, Inject, PLATFORM_ID, inject } from '@angular/core';
 import { isPlatformBrowser } from '@angular/common';
+import { HttpClient } from '@angular/common/http';
+import { Observable, defer, of } from 'rxjs';
+import {
+  EncryptedSecret,
+  SecretKey,
+  decryptSecret,
+  deriveSecretKey,
+  encryptSecret,
+  isEncryptedSecret,
+  isSecretCryptoAvailable
+} from './secret-crypto';
+
+export interface McpServerConfig {
+  // Short identifier used to namespace the server's tools (e.g. "docs__search")
+  id: string;
+  name: string;
+  url: string;
+  enabled: boolean;
+  // Extra headers sent with every request to this server (e.g. Authorization)
+  headers: Record<string, string>;
+}
+
+export type ResponseFormat = 'text' | 'json_object';
+
+// Generation parameters sent with every chat completion
+export interface ModelSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  responseFormat: ResponseFormat;
+}
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  model: 'gpt-3.5-turbo',
+  temperature: 0.7,
+  maxTokens: 1000,
+  topP: 1,
+  responseFormat: 'text'
+};
+
+// How conversations are kept within the model's context window
+export interface ContextSettings {
+  // Context window in tokens per model name; other models use the window known for their family
+  budgets: Record<string, number>;
+  // Replace turns that no longer fit with a model-written summary instead of dropping them
+  summarize: boolean;
+  // Companies most relevant to the question that are described in full in the system prompt
+  retrievalLimit: number;
+  // Also rank companies by similarity of local text embeddings, not only by keywords
+  localEmbeddings: boolean;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  budgets: {},
+  summarize: true,
+  retrievalLimit: 3,
+  localEmbeddings: false
+};
+
+export type LlmProviderType = 'openai' | 'azure' | 'openai-compatible' | 'anthropic' | 'fake';
+
+// Which backend chat completions are sent to
+export interface LlmProviderConfig {
+  type: LlmProviderType;
+  // Azure resource endpoint, OpenAI-compatible base URL (e.g. http://localhost:11434/v1)
+  // or an alternative Anthropic base URL; unused by OpenAI and the fake provider
+  baseUrl: string;
+  // Azure OpenAI only
+  apiVersion: string;
+}
+
+export const DEFAULT_LLM_PROVIDER: LlmProviderConfig = {
+  type: 'openai',
+  baseUrl: '',
+  apiVersion: '2024-10-21'
+};
+
+const LLM_PROVIDER_TYPES: LlmProviderType[] = [
+  'openai',
+  'azure',
+  'openai-compatible',
+  'anthropic',
+  'fake'
+];
+
+// Where an API key entered in the browser is kept: encrypted with a passphrase in
+// localStorage, or in sessionStorage only, so it is forgotten when the tab is closed
+export type ApiKeyStorage = 'encrypted' | 'session';
 
 export interface AppConfig {
+  // API key of the selected provider (the name predates provider selection); held in
+  // memory only, and empty while an encrypted key is locked
   openaiApiKey: string;
-  mcpServerUrl: string;
+  apiKeyStorage: ApiKeyStorage;
+  // Minutes without user activity after which an encrypted key is locked; 0 never locks it
+  autoLockMinutes: number;
+  llmProvider: LlmProviderConfig;
+  mcpServers: McpServerConfig[];
+  streamResponses: boolean;
+  modelSettings: ModelSettings;
+  contextSettings: ContextSettings;
+  // Seconds between background checks of the MCP servers' health endpoints; 0 turns them off
+  healthCheckInterval: number;
+}
+
+export const DEFAULT_HEALTH_CHECK_INTERVAL = 60;
+export const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+// Path of the server's MCP proxy; it forwards to its configured upstream, or to the absolute
+// URL of a server entry
+export const MCP_PROXY_PATH = '/api/mcp';
+
+// The config as written to localStorage: the key only ever appears encrypted
+type StoredConfig = Omit<AppConfig, 'openaiApiKey'> & {
+  encryptedApiKey?: EncryptedSecret;
+  // Plain-text key written by older versions
+  openaiApiKey?: string;
+  // Single server URL of older versions
+  mcpServerUrl?: string;
+};
+
+/**
+ * Whether an MCP server URL can be reached: the proxy's own path or an absolute http(s) URL.
+ * Other paths are rejected, since the proxy would send them to its default upstream.
+ */
+export function isValidMcpServerUrl(url: string): boolean {
+  const trimmed = url.trim();
+  if (trimmed.startsWith('/')) {
+    return trimmed.replace(/\/$/, '') === MCP_PROXY_PATH;
+  }
+  try {
+    return ['http:', 'https:'].includes(new URL(trimmed).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encrypted storage needs WebCrypto, which browsers only offer in secure contexts
+ */
+export function normalizeApiKeyStorage(storage?: ApiKeyStorage): ApiKeyStorage {
+  if (storage === 'session' || !isSecretCryptoAvailable()) {
+    return 'session';
+  }
+  return 'encrypted';
+}
+
+/**
+ * A valid auto-lock delay: 0, or whole minutes up to a day
+ */
+export function normalizeAutoLockMinutes(minutes?: number): number {
+  if (typeof minutes !== 'number' || isNaN(minutes)) {
+    return DEFAULT_AUTO_LOCK_MINUTES;
+  }
+  return minutes <= 0 ? 0 : Math.min(1440, Math.max(1, Math.round(minutes)));
+}
+
+/**
+ * A valid health check interval: 0, or whole seconds between 10 and an hour
+ */
+export function normalizeHealthCheckInterval(interval?: number): number {
+  if (typeof interval !== 'number' || isNaN(interval)) {
+    return DEFAULT_HEALTH_CHECK_INTERVAL;
+  }
+  return interval <= 0 ? 0 : Math.min(3600, Math.max(10, Math.round(interval)));
+}
+
+/**
+ * Keep only valid model settings, clamping numbers to the ranges the API accepts
+ */
+export function normalizeModelSettings(settings?: Partial<ModelSettings>): Partial<ModelSettings> {
+  const normalized: Partial<ModelSettings> = {};
+  if (!settings || typeof settings !== 'object') {
+    return normalized;
+  }
+
+  const clamp = (value: any, min: number, max: number) =>
+    typeof value === 'number' && !isNaN(value) ? Math.min(max, Math.max(min, value)) : undefined;
+
+  if (typeof settings.model === 'string' && settings.model.trim()) {
+    normalized.model = settings.model.trim();
+  }
+  const temperature = clamp(settings.temperature, 0, 2);
+  if (temperature !== undefined) {
+    normalized.temperature = temperature;
+  }
+  const maxTokens = clamp(settings.maxTokens, 1, 128000);
+  if (maxTokens !== undefined) {
+    normalized.maxTokens = Math.round(maxTokens);
+  }
+  const topP = clamp(settings.topP, 0, 1);
+  if (topP !== undefined) {
+    normalized.topP = topP;
+  }
+  if (settings.responseFormat === 'text' || settings.responseFormat === 'json_object') {
+    normalized.responseFormat = settings.responseFormat;
+  }
+  return normalized;
+}
+
+/**
+ * Fill in missing or invalid provider settings with the defaults
+ */
+export function normalizeLlmProvider(provider?: Partial<LlmProviderConfig>): LlmProviderConfig {
+  if (!provider || typeof provider !== 'object') {
+    return { ...DEFAULT_LLM_PROVIDER };
+  }
+  return {
+    type: LLM_PROVIDER_TYPES.includes(provider.type!) ? provider.type! : DEFAULT_LLM_PROVIDER.type,
+    // Base URLs are joined with paths, so trailing slashes are dropped
+    baseUrl:
+      typeof provider.baseUrl === 'string' ? provider.baseUrl.trim().replace(/\/+$/, '') : '',
+    apiVersion: provider.apiVersion?.trim() || DEFAULT_LLM_PROVIDER.apiVersion
+  };
+}
+
+/**
+ * Keep positive whole-number budgets and limits, and fill in missing settings with the defaults
+ */
+export function normalizeContextSettings(settings?: Partial<ContextSettings>): ContextSettings {
+  if (!settings || typeof settings !== 'object') {
+    return { ...DEFAULT_CONTEXT_SETTINGS };
+  }
+  const budgets: Record<string, number> = {};
+  for (const [model, budget] of Object.entries(settings.budgets || {})) {
+    if (model.trim() && typeof budget === 'number' && budget > 0) {
+      budgets[model.trim()] = Math.round(budget);
+    }
+  }
+  const limit = settings.retrievalLimit;
+  return {
+    budgets,
+    summarize: settings.summarize ?? DEFAULT_CONTEXT_SETTINGS.summarize,
+    retrievalLimit:
+      typeof limit === 'number' && limit >= 1
+        ? Math.min(20, Math.round(limit))
+        : DEFAULT_CONTEXT_SETTINGS.retrievalLimit,
+    localEmbeddings: settings.localEmbeddings ?? DEFAULT_CONTEXT_SETTINGS.localEmbeddings
+  };
+}
+
+/**
+ * Turn a server name into a unique id usable in OpenAI function names
+ */
+export function createMcpServerId(name: string, existingIds: string[] = []): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+      .slice(0, 20) || 'server';
+
+  let id = base;
+  for (let suffix = 2; existingIds.includes(id); suffix++) {
+    id = `${base}_${suffix}`;
+  }
+  return id;
 }
 
 @Injectable({
@@ -11,20 +265,93 @@ export interface AppConfig {
 })
 export class ConfigService {
   private readonly STORAGE_KEY = 'chatbot-config';
-  private readonly DEFAULT_MCP_URL = '/api/mcp';
+  private readonly DEFAULT_MCP_URL = MCP_PROXY_PATH;
+  private readonly DEFAULT_MCP_SERVER: McpServerConfig = {
+    id: 'default',
+    name: 'Default',
+    url: this.DEFAULT_MCP_URL,
+    enabled: true,
+    headers: {}
+  };
+  private readonly CHAT_STATUS_URL = '/api/chat/status';
+  // sessionStorage entry of a key kept for the current tab only
+  private readonly SESSION_API_KEY = 'chatbot-api-key';
+  private http = inject(HttpClient);
+  
+  // The stored encrypted key, and the key that decrypts it once the user has unlocked it
+  private encryptedApiKey: EncryptedSecret | null = null;
+  private secretKey: SecretKey | null = null;
   
   // Reactive signals for configuration
   private _config = signal<AppConfig>({
     openaiApiKey: '',
-    mcpServerUrl: this.DEFAULT_MCP_URL
+    apiKeyStorage: normalizeApiKeyStorage(),
+    autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+    llmProvider: DEFAULT_LLM_PROVIDER,
+    mcpServers: [this.DEFAULT_MCP_SERVER],
+    streamResponses: true,
+    modelSettings: DEFAULT_MODEL_SETTINGS,
+    contextSettings: DEFAULT_CONTEXT_SETTINGS,
+    healthCheckInterval: DEFAULT_HEALTH_CHECK_INTERVAL
   });
   
   // Public readonly signals
   readonly config = this._config.asReadonly();
   readonly isApiKeyConfigured = signal(false);
+  // True when the server holds the OpenAI key and chat requests go through /api/chat
+  readonly serverManagedKey = signal(false);
+  // An encrypted key is stored but has not been unlocked with its passphrase yet
+  readonly apiKeyLocked = signal(false);
+  // A plain-text key from an older version was moved to session storage and awaits a passphrase
+  readonly plainKeyMigrated = signal(false);
   
   constructor(@Inject(PLATFORM_ID) private platformId: Object) {
     this.loadConfig();
+    this.detectServerManagedKey();
+  }
+  
+  /**
+   * Ask the server whether it manages the OpenAI key
+   */
+  private detectServerManagedKey(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+    
+    this.http.get<{ serverManagedKey: boolean }>(this.CHAT_STATUS_URL).subscribe({
+      next: (status) => {
+        this.serverManagedKey.set(!!status.serverManagedKey);
+        this.refreshApiKeyStatus();
+      },
+      // Older servers or ng serve without SSR have no /api/chat: keep the browser-key mode
+      error: () => this.serverManagedKey.set(false)
+    });
+  }
+  
+  /**
+   * A key is available when the user entered one, the server manages it,
+   * or the selected provider does not need one
+   */
+  private refreshApiKeyStatus(): void {
+    const type = this._config().llmProvider.type;
+    this.isApiKeyConfigured.set(
+      !!this._config().openaiApiKey || !this.requiresApiKey(type) || this.usesServerManagedKey()
+    );
+  }
+  
+  /**
+   * Whether a provider needs a key entered in the browser; local OpenAI-compatible
+   * servers usually run without one and the fake provider never does
+   */
+  requiresApiKey(type: LlmProviderType): boolean {
+    return type !== 'openai-compatible' && type !== 'fake';
+  }
+  
+  /**
+   * The server's key only applies to OpenAI, which /api/chat forwards to
+   */
+  usesServerManagedKey(type: LlmProviderType = this._config().llmProvider.type): boolean {
+    return this.serverManagedKey() && type === 'openai';
   }
   
   /**
@@ -39,12 +366,41 @@ export class ConfigService {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
-        const config = JSON.parse(stored) as AppConfig;
+        const config = JSON.parse(stored) as StoredConfig;
+        let apiKeyStorage = normalizeApiKeyStorage(config.apiKeyStorage);
+        this.encryptedApiKey = isEncryptedSecret(config.encryptedApiKey)
+          ? config.encryptedApiKey
+          : null;
+        let apiKey =
+          apiKeyStorage === 'session' ? sessionStorage.getItem(this.SESSION_API_KEY) || '' : '';
+        // Older versions stored the key in plain text; it stays usable in this tab
+        // until the user picks a passphrase, but leaves localStorage right away
+        const migrate = !!config.openaiApiKey;
+        if (migrate) {
+          apiKey = config.openaiApiKey!;
+          apiKeyStorage = 'session';
+          this.encryptedApiKey = null;
+        }
         this._config.set({
-          openaiApiKey: config.openaiApiKey || '',
-          mcpServerUrl: config.mcpServerUrl || this.DEFAULT_MCP_URL
+          openaiApiKey: apiKey,
+          apiKeyStorage,
+          autoLockMinutes: normalizeAutoLockMinutes(config.autoLockMinutes),
+          llmProvider: normalizeLlmProvider(config.llmProvider),
+          mcpServers: this.normalizeMcpServers(config.mcpServers, config.mcpServerUrl),
+          streamResponses: config.streamResponses ?? true,
+          modelSettings: {
+            ...DEFAULT_MODEL_SETTINGS,
+            ...normalizeModelSettings(config.modelSettings)
+          },
+          contextSettings: normalizeContextSettings(config.contextSettings),
+          healthCheckInterval: normalizeHealthCheckInterval(config.healthCheckInterval)
         });
-        this.isApiKeyConfigured.set(!!config.openaiApiKey);
+        this.apiKeyLocked.set(apiKeyStorage === 'encrypted' && !!this.encryptedApiKey);
+        this.refreshApiKeyStatus();
+        if (migrate) {
+          this.plainKeyMigrated.set(true);
+          this.saveConfig();
+        }
       }
     } catch (error) {
       console.warn('Failed to load config from localStorage:', error);
@@ -53,7 +409,37 @@ export class ConfigService {
   }
   
   /**
-   * Save configuration to localStorage
+   * Validate stored server entries, migrating the single `mcpServerUrl` of older configs
+   */
+  private normalizeMcpServers(servers?: McpServerConfig[], legacyUrl?: string): McpServerConfig[] {
+    if (!Array.isArray(servers)) {
+      const url =
+        typeof legacyUrl === 'string' && isValidMcpServerUrl(legacyUrl)
+          ? legacyUrl
+          : this.DEFAULT_MCP_URL;
+      return [{ ...this.DEFAULT_MCP_SERVER, url }];
+    }
+    
+    const ids: string[] = [];
+    return servers
+      .filter(server => server && typeof server.url === 'string' && isValidMcpServerUrl(server.url))
+      .map(server => {
+        const name = server.name || server.url;
+        const id = server.id && !ids.includes(server.id) ? server.id : createMcpServerId(name, ids);
+        ids.push(id);
+        return {
+          id,
+          name,
+          url: server.url,
+          enabled: server.enabled ?? true,
+          headers: server.headers && typeof server.headers === 'object' ? server.headers : {}
+        };
+      });
+  }
+  
+  /**
+   * Save configuration to localStorage; the API key is written encrypted, or to
+   * sessionStorage when it is kept for this tab only
    */
   private saveConfig(): void {
     if (!isPlatformBrowser(this.platformId)) {
@@ -62,39 +448,122 @@ export class ConfigService {
     }
     
     try {
-      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this._config()));
+      const { openaiApiKey, ...config } = this._config();
+      const stored: StoredConfig = { ...config };
+      if (config.apiKeyStorage === 'encrypted' && this.encryptedApiKey) {
+        stored.encryptedApiKey = this.encryptedApiKey;
+      }
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+      if (config.apiKeyStorage === 'session' && openaiApiKey) {
+        sessionStorage.setItem(this.SESSION_API_KEY, openaiApiKey);
+      } else {
+        sessionStorage.removeItem(this.SESSION_API_KEY);
+      }
     } catch (error) {
       console.error('Failed to save config to localStorage:', error);
     }
   }
   
   /**
-   * Update OpenAI API key
+   * Update the API key, keeping it where it is stored now; an encrypted key is
+   * re-encrypted with the passphrase it was unlocked with
    */
-  setApiKey(apiKey: string): void {
-    const currentConfig = this._config();
-    this._config.set({
-      ...currentConfig,
-      openaiApiKey: apiKey
+  setApiKey(apiKey: string): Observable<void> {
+    return this.storeApiKey(apiKey, this._config().apiKeyStorage);
+  }
+  
+  /**
+   * Set the API key and where it is kept. Encrypting needs a passphrase unless the
+   * current key was unlocked or encrypted in this session; a given passphrase replaces it.
+   */
+  storeApiKey(apiKey: string, storage: ApiKeyStorage, passphrase?: string): Observable<void> {
+    return defer(async () => {
+      let encrypted: EncryptedSecret | null = null;
+      if (storage === 'encrypted' && apiKey) {
+        const key = passphrase ? await deriveSecretKey(passphrase) : this.secretKey;
+        if (!key) {
+          throw new Error('A passphrase is needed to encrypt the API key');
+        }
+        encrypted = await encryptSecret(apiKey, key);
+        this.secretKey = key;
+      } else {
+        this.secretKey = null;
+      }
+      
+      this.encryptedApiKey = encrypted;
+      this._config.update(config => ({ ...config, openaiApiKey: apiKey, apiKeyStorage: storage }));
+      this.apiKeyLocked.set(false);
+      this.plainKeyMigrated.set(false);
+      this.refreshApiKeyStatus();
+      this.saveConfig();
     });
-    this.isApiKeyConfigured.set(!!apiKey);
+  }
+  
+  /**
+   * Decrypt the stored API key; fails with InvalidPassphraseError for a wrong passphrase
+   */
+  unlockApiKey(passphrase: string): Observable<void> {
+    const encrypted = this.encryptedApiKey;
+    if (!encrypted) {
+      return of(undefined);
+    }
+    
+    return defer(async () => {
+      const { secret, key } = await decryptSecret(encrypted, passphrase);
+      this.secretKey = key;
+      this._config.update(config => ({ ...config, openaiApiKey: secret }));
+      this.apiKeyLocked.set(false);
+      this.refreshApiKeyStatus();
+    });
+  }
+  
+  /**
+   * Drop the decrypted API key from memory; the encrypted copy stays stored
+   */
+  lockApiKey(): void {
+    if (this._config().apiKeyStorage !== 'encrypted' || !this.encryptedApiKey) {
+      return;
+    }
+    this.secretKey = null;
+    this._config.update(config => ({ ...config, openaiApiKey: '' }));
+    this.apiKeyLocked.set(true);
+    this.refreshApiKeyStatus();
+  }
+  
+  /**
+   * Delete the stored API key, e.g. when its passphrase is lost
+   */
+  forgetApiKey(): void {
+    this.encryptedApiKey = null;
+    this.secretKey = null;
+    this._config.update(config => ({ ...config, openaiApiKey: '' }));
+    this.apiKeyLocked.set(false);
+    this.plainKeyMigrated.set(false);
+    this.refreshApiKeyStatus();
     this.saveConfig();
   }
   
   /**
-   * Update MCP server URL
+   * Whether the key can be encrypted again without asking for its passphrase
+   */
+  hasApiKeyPassphrase(): boolean {
+    return !!this.secretKey;
+  }
+  
+  /**
+   * Replace the list of MCP servers
    */
-  setMcpServerUrl(url: string): void {
+  setMcpServers(servers: McpServerConfig[]): void {
     const currentConfig = this._config();
     this._config.set({
       ...currentConfig,
-      mcpServerUrl: url || this.DEFAULT_MCP_URL
+      mcpServers: this.normalizeMcpServers(servers)
     });
     this.saveConfig();
   }
   
   /**
-   * Update both API key and MCP server URL
+   * Update several settings at once
    */
   updateConfig(config: Partial<AppConfig>): void {
     const currentConfig = this._config();
@@ -102,9 +571,19 @@ export class ConfigService {
       ...currentConfig,
       ...config
     };
+    newConfig.mcpServers = this.normalizeMcpServers(newConfig.mcpServers);
+    newConfig.llmProvider = normalizeLlmProvider(newConfig.llmProvider);
+    newConfig.modelSettings = {
+      ...DEFAULT_MODEL_SETTINGS,
+      ...normalizeModelSettings(newConfig.modelSettings)
+    };
+    newConfig.contextSettings = normalizeContextSettings(newConfig.contextSettings);
+    newConfig.healthCheckInterval = normalizeHealthCheckInterval(newConfig.healthCheckInterval);
+    newConfig.apiKeyStorage = normalizeApiKeyStorage(newConfig.apiKeyStorage);
+    newConfig.autoLockMinutes = normalizeAutoLockMinutes(newConfig.autoLockMinutes);
     
     this._config.set(newConfig);
-    this.isApiKeyConfigured.set(!!newConfig.openaiApiKey);
+    this.refreshApiKeyStatus();
     this.saveConfig();
   }
   
@@ -116,10 +595,52 @@ export class ConfigService {
   }
   
   /**
-   * Get current MCP server URL
+   * Get all configured MCP servers
+   */
+  getMcpServers(): McpServerConfig[] {
+    return this._config().mcpServers;
+  }
+  
+  /**
+   * Get the MCP servers that should be connected
+   */
+  getEnabledMcpServers(): McpServerConfig[] {
+    return this._config().mcpServers.filter(server => server.enabled);
+  }
+  
+  /**
+   * Whether assistant replies should be streamed token by token
+   */
+  isStreamingEnabled(): boolean {
+    return this._config().streamResponses;
+  }
+  
+  /**
+   * Get the selected LLM provider
+   */
+  getLlmProvider(): LlmProviderConfig {
+    return this._config().llmProvider;
+  }
+  
+  /**
+   * Default generation parameters for new conversations
+   */
+  getModelSettings(): ModelSettings {
+    return this._config().modelSettings;
+  }
+  
+  /**
+   * Context window budgets and summarization
+   */
+  getContextSettings(): ContextSettings {
+    return this._config().contextSettings;
+  }
+  
+  /**
+   * Seconds between background MCP health checks; 0 when they are off
    */
-  getMcpServerUrl(): string {
-    return this._config().mcpServerUrl;
+  getHealthCheckInterval(): number {
+    return this._config().healthCheckInterval;
   }
   
   /**
@@ -134,6 +655,7 @@ export class ConfigService {
     
     try {
       localStorage.removeItem(this.STORAGE_KEY);
+      sessionStorage.removeItem(this.SESSION_API_KEY);
       this.resetToDefaults();
     } catch (error) {
       console.error('Failed to clear config from localStorage:', error);
@@ -144,11 +666,22 @@ export class ConfigService {
    * Reset to default values
    */
   private resetToDefaults(): void {
+    this.encryptedApiKey = null;
+    this.secretKey = null;
+    this.apiKeyLocked.set(false);
+    this.plainKeyMigrated.set(false);
     this._config.set({
       openaiApiKey: '',
-      mcpServerUrl: this.DEFAULT_MCP_URL
+      apiKeyStorage: normalizeApiKeyStorage(),
+      autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+      llmProvider: DEFAULT_LLM_PROVIDER,
+      mcpServers: [this.DEFAULT_MCP_SERVER],
+      streamResponses: true,
+      modelSettings: DEFAULT_MODEL_SETTINGS,
+      contextSettings: DEFAULT_CONTEXT_SETTINGS,
+      healthCheckInterval: DEFAULT_HEALTH_CHECK_INTERVAL
     });
-    this.isApiKeyConfigured.set(false);
+    this.refreshApiKeyStatus();
   }
   
   /**
@@ -156,7 +689,7 @@ export class ConfigService {
    */
   isConfigValid(): boolean {
     const config = this._config();
-    return !!config.openaiApiKey && !!config.mcpServerUrl;
+    return this.isApiKeyConfigured() && config.mcpServers.length > 0;
   }
   
   /**
@@ -165,7 +698,15 @@ export class ConfigService {
   exportConfig(): Partial<AppConfig> {
     const config = this._config();
     return {
-      mcpServerUrl: config.mcpServerUrl
+      // Server headers may carry credentials, so they are left out along with the API key
+      mcpServers: config.mcpServers.map(server => ({ ...server, headers: {} })),
+      llmProvider: config.llmProvider,
+      streamResponses: config.streamResponses,
+      modelSettings: config.modelSettings,
+      contextSettings: config.contextSettings,
+      healthCheckInterval: config.healthCheckInterval,
+      apiKeyStorage: config.apiKeyStorage,
+      autoLockMinutes: config.autoLockMinutes
       // Note: API key is intentionally excluded for security
     };
   }
@@ -0,0 +1,70 @@
+import { OpenAIMessage } from './openai.service';
+import {
+  contextWindowFor,
+  estimateMessageTokens,
+  estimateTokens,
+  splitTurns,
+  toTranscript,
+  trimToBudget,
+  truncateToTokens,
+} from './context-budget';
+
+describe('context budget', () => {
+  const text = (tokens: number) => 'x'.repeat(tokens * 4);
+  const system: OpenAIMessage = { role: 'system', content: text(10) };
+  const history: OpenAIMessage[] = [
+    { role: 'user', content: text(20) },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'tool', arguments: '{}' } }],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: text(20) },
+    { role: 'assistant', content: text(20) },
+    { role: 'user', content: text(20) },
+    { role: 'assistant', content: text(20) },
+  ];
+
+  it('should estimate about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcdefgh')).toBe(2);
+    expect(estimateTokens('abcdefghi')).toBe(3);
+    expect(estimateMessageTokens({ role: 'user', content: 'abcd' })).toBe(5);
+  });
+
+  it('should prefer configured budgets over known windows', () => {
+    expect(contextWindowFor('gpt-4o-mini')).toBe(128000);
+    expect(contextWindowFor('gpt-3.5-turbo')).toBe(16385);
+    expect(contextWindowFor('llama3')).toBe(8192);
+    expect(contextWindowFor('gpt-4o-mini', { 'gpt-4o-mini': 32000 })).toBe(32000);
+  });
+
+  it('should keep tool calls and results in the turn that made them', () => {
+    const turns = splitTurns(history);
+    expect(turns.length).toBe(2);
+    expect(turns[0].length).toBe(4);
+  });
+
+  it('should drop the oldest turns until the history fits', () => {
+    const all = trimToBudget([system], history, 1000);
+    expect(all.dropped).toEqual([]);
+    expect(all.kept).toEqual(history);
+
+    const trimmed = trimToBudget([system], history, 80);
+    expect(trimmed.dropped).toEqual(history.slice(0, 4));
+    expect(trimmed.kept).toEqual(history.slice(4));
+  });
+
+  it('should always keep the latest turn', () => {
+    const trimmed = trimToBudget([system], history, 1);
+    expect(trimmed.kept).toEqual(history.slice(4));
+  });
+
+  it('should truncate long texts and describe messages in transcripts', () => {
+    expect(truncateToTokens(text(10), 20)).toBe(text(10));
+    expect(truncateToTokens(text(10), 2)).toBe('xxxxxxxx\n[truncated]');
+    expect(toTranscript(history.slice(1, 3))).toBe(
+      `assistant: [called tool({})]\nTool result: ${text(20)}`
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import type { OpenAIMessage } from './openai.service';
+
+// A rolling, model-written summary of the oldest turns of a conversation
+export interface HistorySummary {
+  text: string;
+  // Number of leading (non-system) history messages the summary replaces
+  messageCount: number;
+}
+
+// How much of the context window the last request used
+export interface ContextUsage {
+  usedTokens: number;
+  budgetTokens: number;
+  // History messages left out of the request, summarized or not
+  droppedMessages: number;
+  summarized: boolean;
+}
+
+// Context windows of well-known model families; the first matching prefix wins
+const KNOWN_CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-5/, 400000],
+  [/^gpt-4\.1/, 1047576],
+  [/^(gpt-4o|gpt-4-turbo|chatgpt-4o)/, 128000],
+  [/^gpt-4-32k/, 32768],
+  [/^gpt-4/, 8192],
+  [/^gpt-3\.5-turbo/, 16385],
+  [/^o\d/, 200000],
+  [/^claude/, 200000],
+  [/^fake-model$/, 4096],
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Fixed cost of a message's role and separators in the chat format
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Rough token count of a text. Tokenizers differ per model; four characters per token
+ * is close enough for English text and errs on the safe side for code and JSON.
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+export function estimateMessageTokens(message: OpenAIMessage): number {
+  const toolCalls = (message.tool_calls || []).reduce(
+    (total, toolCall) =>
+      total + estimateTokens(toolCall.function.name) + estimateTokens(toolCall.function.arguments),
+    0
+  );
+  return MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + toolCalls;
+}
+
+export function estimateMessagesTokens(messages: OpenAIMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
+
+/**
+ * Context window of a model: the configured budget if there is one, otherwise a known
+ * window for its family
+ */
+export function contextWindowFor(model: string, budgets: Record<string, number> = {}): number {
+  if (budgets[model]) {
+    return budgets[model];
+  }
+  const known = KNOWN_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model));
+  return known ? known[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Cut a text down to about the given number of tokens
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) {
+    return text;
+  }
+  return text.slice(0, Math.max(0, maxTokens * 4)).trimEnd() + '\n[truncated]';
+}
+
+/**
+ * Split history into turns, each starting with a user message. A turn's tool calls and
+ * tool results stay together, since the API rejects tool results without their call.
+ */
+export function splitTurns(history: OpenAIMessage[]): OpenAIMessage[][] {
+  const turns: OpenAIMessage[][] = [];
+  for (const message of history) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Drop the oldest turns of the history until it fits the budget next to the system
+ * messages. The latest turn is always kept, even when it alone exceeds the budget.
+ */
+export function trimToBudget(
+  system: OpenAIMessage[],
+  history: OpenAIMessage[],
+  budgetTokens: number
+): { kept: OpenAIMessage[]; dropped: OpenAIMessage[] } {
+  const turns = splitTurns(history);
+  let used = estimateMessagesTokens(system) + estimateMessagesTokens(history);
+  let droppedTurns = 0;
+
+  while (used > budgetTokens && droppedTurns < turns.length - 1) {
+    used -= estimateMessagesTokens(turns[droppedTurns]);
+    droppedTurns++;
+  }
+
+  return {
+    kept: turns.slice(droppedTurns).flat(),
+    dropped: turns.slice(0, droppedTurns).flat(),
+  };
+}
+
+/**
+ * Plain-text transcript of messages, as input for a summary
+ */
+export function toTranscript(messages: OpenAIMessage[]): string {
+  return messages
+    .map((message) => {
+      if (message.role === 'tool') {
+        return `Tool result: ${message.content ?? ''}`;
+      }
+      const calls = (message.tool_calls || [])
+        .map((toolCall) => `[called ${toolCall.function.name}(${toolCall.function.arguments})]`)
+        .join(' ');
+      return `${message.role}: ${[message.content, calls].filter(Boolean).join(' ')}`;
+    })
+    .join('\n');
+}
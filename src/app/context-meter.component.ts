@@ -0,0 +1,82 @@
+import { Component, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { OpenAIService } from './openai.service';
+
+/**
+ * Header meter showing how much of the context window the last request used
+ */
+@Component({
+  selector: 'app-context-meter',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div
+      class="context-meter"
+      *ngIf="usage() as usage"
+      [class.near-limit]="percent() >= 80"
+      [title]="title()"
+    >
+      <div class="context-meter-bar">
+        <div class="context-meter-fill" [style.width.%]="percent()"></div>
+      </div>
+      <span>{{ percent() }}%<ng-container *ngIf="usage.summarized"> · summarized</ng-container></span>
+    </div>
+  `,
+  styles: [`
+    .context-meter {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+      white-space: nowrap;
+    }
+
+    .context-meter-bar {
+      width: 4rem;
+      height: 0.375rem;
+      border-radius: 999px;
+      background: var(--border);
+      overflow: hidden;
+    }
+
+    .context-meter-fill {
+      height: 100%;
+      background: var(--primary-color);
+      transition: width 0.3s ease;
+    }
+
+    .context-meter.near-limit .context-meter-fill {
+      background: #f59e0b;
+    }
+  `]
+})
+export class ContextMeterComponent {
+  private openaiService = inject(OpenAIService);
+
+  protected usage = computed(() => this.openaiService.contextUsage());
+
+  // Share of the context window the conversation uses
+  protected percent = computed(() => {
+    const usage = this.usage();
+    return usage ? Math.min(100, Math.round((usage.usedTokens / usage.budgetTokens) * 100)) : 0;
+  });
+
+  protected title = computed(() => {
+    const usage = this.usage();
+    if (!usage) {
+      return '';
+    }
+    const parts = [
+      `About ${usage.usedTokens.toLocaleString()} of ${usage.budgetTokens.toLocaleString()} tokens`
+    ];
+    if (usage.droppedMessages > 0) {
+      parts.push(
+        usage.summarized
+          ? `${usage.droppedMessages} earlier messages summarized`
+          : `${usage.droppedMessages} earlier messages left out`
+      );
+    }
+    return parts.join(' · ');
+  });
+}
@@ -0,0 +1,77 @@
+import type { Company } from './company-models';
+import {
+  indexCompany,
+  rankCompanies,
+  selectCompanies,
+  similarity,
+  tokenize,
+} from './context-retrieval';
+
+describe('context retrieval', () => {
+  const companies: Company[] = [
+    {
+      company: 'OpenAI',
+      description: 'AI research lab',
+      chats: [{ chatbot: 'ChatGPT' }],
+      llms: [{ llm: 'GPT-4o', specialization: 'general purpose multimodal reasoning' }],
+    },
+    {
+      company: 'Anthropic',
+      description: 'AI safety company',
+      chats: [{ chatbot: 'Claude' }],
+      llms: [{ llm: 'Claude 3.5 Sonnet', specialization: 'coding and analysis' }],
+    },
+    {
+      company: 'Google DeepMind',
+      description: 'Research lab behind Gemini',
+      chats: [{ chatbot: 'Gemini' }],
+      llms: [{ llm: 'Gemini 1.5 Pro', specialization: 'long context video understanding' }],
+    },
+  ];
+  const options = { limit: 3, embeddings: false };
+
+  it('should drop stop words and punctuation', () => {
+    expect(tokenize('What LLM models does Google have?')).toEqual(['google']);
+  });
+
+  it('should rate near-identical words as similar', () => {
+    expect(similarity('anthropic', 'anthropic')).toBe(1);
+    expect(similarity('antropic', 'anthropic')).toBeGreaterThan(0.75);
+    expect(similarity('google', 'claude')).toBeLessThan(0.5);
+  });
+
+  it('should rank companies named in the question first', () => {
+    const ranked = rankCompanies(companies, 'Compare Anthropic and OpenAI', options);
+    expect(ranked.map((scored) => scored.company.company)).toEqual(['OpenAI', 'Anthropic']);
+    expect(ranked[1].matches).toEqual(['Anthropic']);
+  });
+
+  it('should match products, misspellings and keywords', () => {
+    const byProduct = rankCompanies(companies, 'Is Claude good?', options);
+    expect(byProduct[0].company.company).toBe('Anthropic');
+
+    const misspelled = rankCompanies(companies, 'tell me about antropic', options);
+    expect(misspelled[0].company.company).toBe('Anthropic');
+
+    const keyword = rankCompanies(companies, 'best for coding?', options);
+    expect(keyword.map((scored) => scored.company.company)).toEqual(['Anthropic']);
+    expect(keyword[0].matches).toEqual(['coding']);
+  });
+
+  it('should describe the top matches and index the rest', () => {
+    const { selected, others } = selectCompanies(companies, 'Which lab made Gemini?', {
+      ...options,
+      limit: 1,
+    });
+    expect(selected.map((scored) => scored.company.company)).toEqual(['Google DeepMind']);
+    expect(others.map(indexCompany)).toEqual([
+      '- OpenAI: ChatGPT, GPT-4o',
+      '- Anthropic: Claude, Claude 3.5 Sonnet',
+    ]);
+  });
+
+  it('should find related companies with local embeddings', () => {
+    const ranked = rankCompanies(companies, 'multimodal video', { ...options, embeddings: true });
+    expect(ranked.map((scored) => scored.company.company)).toContain('Google DeepMind');
+  });
+});
@@ -0,0 +1,207 @@
+import type { Company } from './company-models';
+
+export interface ScoredCompany {
+  company: Company;
+  score: number;
+  // Names and keywords of the question that matched, for display
+  matches: string[];
+}
+
+// A company whose details were given to the model, as shown under the reply
+export interface ContextSource {
+  name: string;
+  matches: string[];
+}
+
+export interface RetrievalOptions {
+  // Companies described in full; the rest only appear in the index
+  limit: number;
+  // Add a similarity score from local text embeddings to the keyword score
+  embeddings: boolean;
+}
+
+// Words that say nothing about which company is meant
+const STOP_WORDS = new Set(
+  (
+    'a an and any are about can compare do does for from give has have how i in is it its me ' +
+    'model models much of offer offers on or product products show tell that the their them ' +
+    'there they this to use uses what which who with you your ai company companies llm llms ' +
+    'chatbot chatbots available'
+  ).split(' ')
+);
+
+const EMBEDDING_DIMENSIONS = 256;
+// Cosine similarity above which a company counts as related to the question
+const EMBEDDING_THRESHOLD = 0.3;
+
+/**
+ * Lowercase words of a text without punctuation and stop words
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}.+-]*/gu) || [])
+    .map((word) => word.replace(/[.+-]+$/, ''))
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Similarity of two words between 0 and 1, from their edit distance
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / longest;
+}
+
+/**
+ * Local text embedding: character trigrams of the words, hashed into a fixed-size,
+ * normalized vector. It catches shared word stems and misspellings without a model.
+ */
+export function embed(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of tokenize(text)) {
+    const padded = ` ${word} `;
+    for (let i = 0; i < padded.length - 2; i++) {
+      vector[hash(padded.slice(i, i + 3)) % EMBEDDING_DIMENSIONS] += 1;
+    }
+  }
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  return a.reduce((total, value, i) => total + value * (b[i] ?? 0), 0);
+}
+
+/**
+ * Score every company against the question and return those that match, best first.
+ * Names mentioned in the question weigh most, then misspelled names, then keywords
+ * from descriptions and specializations.
+ */
+export function rankCompanies(
+  companies: Company[],
+  question: string,
+  options: RetrievalOptions
+): ScoredCompany[] {
+  const text = ` ${question.toLowerCase()} `;
+  const words = tokenize(question);
+  const questionVector = options.embeddings ? embed(question) : [];
+
+  return companies
+    .map((company) => {
+      const matches = new Set<string>();
+      let score = 0;
+
+      const names: [string, number][] = [
+        [company.company, 10],
+        ...(company.chats || []).map((chat): [string, number] => [chat.chatbot, 6]),
+        ...(company.llms || []).map((llm): [string, number] => [llm.llm, 6]),
+      ];
+      for (const [name, weight] of names) {
+        if (!name) {
+          continue;
+        }
+        if (containsPhrase(text, name.toLowerCase())) {
+          score += weight;
+          matches.add(name);
+          continue;
+        }
+        // Misspelled or partial names: every word of the name must be close to a question word
+        const nameWords = tokenize(name);
+        const closeness = nameWords.map((nameWord) =>
+          Math.max(0, ...words.map((word) => similarity(word, nameWord)))
+        );
+        if (nameWords.length > 0 && closeness.every((value) => value >= 0.75)) {
+          score += (weight / 2) * Math.min(...closeness);
+          matches.add(name);
+        }
+      }
+
+      const specializations = (company.llms || []).map((llm) => llm.specialization);
+      const keywords = new Set(tokenize([company.description, ...specializations].join(' ')));
+      for (const word of words) {
+        if (keywords.has(word)) {
+          score += 1;
+          matches.add(word);
+        }
+      }
+
+      // Embeddings can also surface companies that share no exact keyword with the question
+      let similar = false;
+      if (options.embeddings) {
+        const closeness = cosineSimilarity(questionVector, embed(describeCompany(company)));
+        similar = closeness >= EMBEDDING_THRESHOLD;
+        score += 5 * closeness;
+      }
+
+      return { company, score, matches: [...matches], relevant: matches.size > 0 || similar };
+    })
+    .filter((scored) => scored.relevant)
+    .map(({ relevant, ...scored }) => scored)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Split the dataset into the companies worth describing in full and the rest
+ */
+export function selectCompanies(
+  companies: Company[],
+  question: string,
+  options: RetrievalOptions
+): { selected: ScoredCompany[]; others: Company[] } {
+  const selected = rankCompanies(companies, question, options).slice(0, options.limit);
+  const chosen = new Set(selected.map((scored) => scored.company));
+  return { selected, others: companies.filter((company) => !chosen.has(company)) };
+}
+
+/**
+ * Full description of a company for the system prompt
+ */
+export function describeCompany(company: Company): string {
+  const chats = company.chats?.map((chat) => chat.chatbot).join(', ') || 'None';
+  const llms =
+    company.llms?.map((llm) => `${llm.llm} (${llm.specialization})`).join(', ') || 'None';
+
+  return `Company: ${company.company}
+Description: ${company.description}
+Chatbots: ${chats}
+LLM Models: ${llms}`;
+}
+
+/**
+ * One-line index entry naming a company's products
+ */
+export function indexCompany(company: Company): string {
+  const products = [
+    ...(company.chats || []).map((chat) => chat.chatbot),
+    ...(company.llms || []).map((llm) => llm.llm),
+  ];
+  return `- ${company.company}${products.length ? `: ${products.join(', ')}` : ''}`;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`[^\\p{L}\\p{N}]${escaped}[^\\p{L}\\p{N}]`, 'u').test(text);
+}
+
+function hash(text: string): number {
+  let value = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    value = Math.imul(value ^ text.charCodeAt(i), 16777619);
+  }
+  return value >>> 0;
+}
@@ -0,0 +1,107 @@
+import type { OpenAIMessage } from './openai.service';
+import {
+  BranchableMessage,
+  branchesAfterEdit,
+  switchBranch,
+  withHistoryIndexes,
+} from './conversation-branches';
+
+interface TestMessage extends BranchableMessage<TestMessage> {
+  content: string;
+}
+
+describe('conversation branches', () => {
+  const user = (content: string, historyIndex?: number): TestMessage => ({
+    content,
+    isUser: true,
+    historyIndex,
+  });
+  const bot = (content: string, historyIndex?: number): TestMessage => ({
+    content,
+    isUser: false,
+    historyIndex,
+  });
+  const history: OpenAIMessage[] = [
+    { role: 'user', content: 'Hi' },
+    { role: 'assistant', content: 'Hello' },
+    { role: 'user', content: 'Who makes Claude?' },
+    { role: 'assistant', content: '', tool_calls: [] },
+    { role: 'tool', content: '[]', tool_call_id: 'call_1' },
+    { role: 'assistant', content: 'Anthropic' },
+  ];
+  const messages = [
+    bot('Welcome'),
+    user('Hi', 0),
+    bot('Hello', 1),
+    user('Who makes Claude?', 2),
+    bot('Anthropic', 3),
+  ];
+
+  it('should tie messages saved without history indexes to the history', () => {
+    const legacy = messages.map(({ content, isUser }): TestMessage => ({ content, isUser }));
+    expect(withHistoryIndexes(legacy, history).map((message) => message.historyIndex)).toEqual([
+      undefined,
+      0,
+      1,
+      2,
+      3,
+    ]);
+  });
+
+  it('should keep the current conversation as a branch when editing', () => {
+    const branches = branchesAfterEdit(messages, history, 3, true);
+
+    expect(branches.activeBranch).toBe(1);
+    expect(branches.branches).toEqual([
+      {
+        messages: [
+          { ...messages[3], branches: undefined, activeBranch: undefined },
+          ...messages.slice(4),
+        ],
+        history: history.slice(2),
+      },
+      { messages: [], history: [] },
+    ]);
+  });
+
+  it('should replace the current branch when not keeping it', () => {
+    expect(branchesAfterEdit(messages, history, 3, false)).toEqual({
+      branches: undefined,
+      activeBranch: undefined,
+    });
+
+    const edited = [
+      ...messages.slice(0, 3),
+      { ...messages[3], ...branchesAfterEdit(messages, history, 3, true) },
+    ];
+    const replaced = branchesAfterEdit(edited, history.slice(0, 3), 3, false);
+    expect(replaced.activeBranch).toBe(1);
+    expect(replaced.branches?.length).toBe(2);
+  });
+
+  it('should switch between branches and back', () => {
+    const edited: TestMessage = {
+      ...user('Who makes Gemini?', 2),
+      ...branchesAfterEdit(messages, history, 3, true),
+    };
+    const current = [...messages.slice(0, 3), edited, bot('Google', 3)];
+    const currentHistory: OpenAIMessage[] = [
+      ...history.slice(0, 2),
+      { role: 'user', content: 'Who makes Gemini?' },
+      { role: 'assistant', content: 'Google' },
+    ];
+
+    const previous = switchBranch(current, currentHistory, 3, 0);
+    expect(previous.messages.map((message) => message.content)).toEqual(
+      messages.map((message) => message.content)
+    );
+    expect(previous.messages[3].activeBranch).toBe(0);
+    expect(previous.history).toEqual(history);
+
+    const back = switchBranch(previous.messages, previous.history, 3, 1);
+    expect(back.messages.map((message) => message.content)).toEqual(
+      current.map((message) => message.content)
+    );
+    expect(back.history).toEqual(currentHistory);
+  });
+});
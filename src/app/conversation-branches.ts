@@ -0,0 +1,112 @@
+import type { OpenAIMessage } from './openai.service';
+
+// The rest of a conversation from an edited user message on: its messages, starting with
+// that message, and the history entries they were sent as
+export interface ConversationBranch<T> {
+  messages: T[];
+  history: OpenAIMessage[];
+}
+
+// The fields of a chat message that tie it to the history and to its branches
+export interface BranchableMessage<T> {
+  isUser: boolean;
+  // For a user message, its own history entry; for a reply, where its turn starts
+  historyIndex?: number;
+  branches?: ConversationBranch<T>[];
+  activeBranch?: number;
+}
+
+/**
+ * Tie messages saved before history indexes were kept to the history: the nth user
+ * message is the nth user entry, and a reply starts right after the message it answers
+ */
+export function withHistoryIndexes<T extends BranchableMessage<T>>(
+  messages: T[],
+  history: OpenAIMessage[],
+): T[] {
+  const userEntries = history
+    .map((entry, index) => (entry.role === 'user' ? index : -1))
+    .filter((index) => index >= 0);
+  let users = 0;
+  let turnStart: number | undefined;
+
+  return messages.map((message) => {
+    if (message.historyIndex !== undefined) {
+      return message;
+    }
+    if (message.isUser) {
+      const historyIndex = userEntries[users++];
+      turnStart = historyIndex === undefined ? undefined : historyIndex + 1;
+      return historyIndex === undefined ? message : { ...message, historyIndex };
+    }
+    return turnStart === undefined ? message : { ...message, historyIndex: turnStart };
+  });
+}
+
+/**
+ * Branches for the message replacing the edited one at `index`. The new message becomes
+ * the active branch; the current rest of the conversation is kept as a branch of its own
+ * unless `keepCurrent` is false, in which case it is replaced.
+ */
+export function branchesAfterEdit<T extends BranchableMessage<T>>(
+  messages: T[],
+  history: OpenAIMessage[],
+  index: number,
+  keepCurrent: boolean,
+): Pick<BranchableMessage<T>, 'branches' | 'activeBranch'> {
+  const edited = messages[index];
+  const branches = [...(edited.branches ?? [])];
+  // The live branch is only stored when switching away from it
+  const live: ConversationBranch<T> = { messages: [], history: [] };
+
+  if (branches.length) {
+    const active = edited.activeBranch ?? branches.length - 1;
+    if (!keepCurrent) {
+      branches[active] = live;
+      return { branches, activeBranch: active };
+    }
+    branches[active] = currentBranch(messages, history, index);
+  } else if (keepCurrent) {
+    branches.push(currentBranch(messages, history, index));
+  } else {
+    return { branches: undefined, activeBranch: undefined };
+  }
+  branches.push(live);
+  return { branches, activeBranch: branches.length - 1 };
+}
+
+/**
+ * Show another branch of the message at `index`, storing the one shown until now
+ */
+export function switchBranch<T extends BranchableMessage<T>>(
+  messages: T[],
+  history: OpenAIMessage[],
+  index: number,
+  target: number,
+): ConversationBranch<T> {
+  const point = messages[index];
+  const branches = [...(point.branches ?? [])];
+  if (point.activeBranch === undefined || point.historyIndex === undefined || !branches[target]) {
+    return { messages, history };
+  }
+
+  branches[point.activeBranch] = currentBranch(messages, history, index);
+  const [first, ...rest] = branches[target].messages;
+  return {
+    messages: [...messages.slice(0, index), { ...first, branches, activeBranch: target }, ...rest],
+    history: [...history.slice(0, point.historyIndex), ...branches[target].history],
+  };
+}
+
+// The conversation from the message at `index` on, without the branches of that message
+function currentBranch<T extends BranchableMessage<T>>(
+  messages: T[],
+  history: OpenAIMessage[],
+  index: number,
+): ConversationBranch<T> {
+  const [first, ...rest] = messages.slice(index);
+  return {
+    messages: [{ ...first, branches: undefined, activeBranch: undefined }, ...rest],
+    history: history.slice(messages[index].historyIndex),
+  };
+}
@@ -0,0 +1,148 @@
+import { Conversation } from './conversation-store.service';
+import { DEFAULT_MODEL_SETTINGS } from './config.service';
+import {
+  exportFileName,
+  parseConversationExport,
+  toConversationExport,
+  toMarkdown,
+} from './conversation-export';
+
+describe('conversation export', () => {
+  const conversation: Conversation = {
+    id: 'c1',
+    title: 'Which companies offer chatbots?',
+    createdAt: Date.UTC(2025, 0, 2, 10, 0, 0),
+    updatedAt: Date.UTC(2025, 0, 2, 10, 5, 0),
+    history: [
+      { role: 'user', content: 'Which companies offer chatbots?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'default__getCompanies', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '["OpenAI","Anthropic"]' },
+      { role: 'assistant', content: 'OpenAI and Anthropic.' },
+    ],
+    messages: [
+      {
+        content: 'Which companies offer chatbots?',
+        isUser: true,
+        timestamp: '2025-01-02T10:00:00.000Z',
+      },
+      {
+        content: 'OpenAI and Anthropic.',
+        isUser: false,
+        timestamp: '2025-01-02T10:00:05.000Z',
+        toolCalls: [
+          {
+            id: 'call_1',
+            name: 'default__getCompanies',
+            arguments: '{}',
+            result: '["OpenAI","Anthropic"]',
+          },
+        ],
+      },
+    ],
+  };
+
+  it('should render roles, timestamps and tool results as Markdown', () => {
+    const markdown = toMarkdown(conversation, DEFAULT_MODEL_SETTINGS);
+
+    expect(markdown).toContain('# Which companies offer chatbots?');
+    expect(markdown).toContain(`- Model: ${DEFAULT_MODEL_SETTINGS.model}`);
+    expect(markdown).toContain('### User · 2025-01-02T10:00:00.000Z');
+    expect(markdown).toContain('### Assistant · 2025-01-02T10:00:05.000Z');
+    expect(markdown).toContain('**Tool call:** `default__getCompanies`');
+    expect(markdown).toContain('```\n["OpenAI","Anthropic"]\n```');
+  });
+
+  it('should use a longer fence when a result contains backticks', () => {
+    const withBackticks: Conversation = {
+      ...conversation,
+      messages: [
+        {
+          ...conversation.messages[1],
+          toolCalls: [{ id: 'call_2', name: 'read', arguments: '{}', result: '```js\nx\n```' }],
+        },
+      ],
+    };
+
+    expect(toMarkdown(withBackticks)).toContain('````\n```js\nx\n```\n````');
+  });
+
+  it('should read back its own JSON export unchanged', () => {
+    const json = JSON.stringify(toConversationExport(conversation, DEFAULT_MODEL_SETTINGS));
+    const parsed = parseConversationExport(json);
+
+    expect(parsed.conversation).toEqual(conversation);
+    expect(parsed.modelSettings).toEqual(DEFAULT_MODEL_SETTINGS);
+  });
+
+  it('should reject files that are not conversation exports', () => {
+    expect(() => parseConversationExport('not json')).toThrowError('The file is not valid JSON');
+    expect(() => parseConversationExport('{"messages":[]}')).toThrowError(
+      'The file is not a conversation export'
+    );
+
+    const invalid = toConversationExport(
+      { ...conversation, history: [{ role: 'robot', content: 'hi' } as any] },
+      DEFAULT_MODEL_SETTINGS
+    );
+    expect(() => parseConversationExport(JSON.stringify(invalid))).toThrowError(
+      'The conversation history contains an invalid message'
+    );
+  });
+
+  it('should replace invalid timestamps and drop an invalid summary', () => {
+    const exported: any = toConversationExport(conversation, DEFAULT_MODEL_SETTINGS);
+    exported.conversation = {
+      ...conversation,
+      createdAt: '2025-01-02',
+      updatedAt: 1e20,
+      historySummary: { text: 'Earlier turns', messageCount: '2' },
+    };
+    const parsed = parseConversationExport(JSON.stringify(exported)).conversation;
+
+    expect(parsed.createdAt).toEqual(jasmine.any(Number));
+    expect(parsed.updatedAt).toBeLessThanOrEqual(Date.now());
+    expect(parsed.historySummary).toBeUndefined();
+    expect(() => toMarkdown(parsed)).not.toThrow();
+
+    const summary = { text: 'Earlier turns', messageCount: 2 };
+    exported.conversation = { ...conversation, historySummary: summary };
+    expect(parseConversationExport(JSON.stringify(exported)).conversation.historySummary).toEqual(
+      summary
+    );
+  });
+
+  it('should reject branches with an invalid history', () => {
+    const [question, answer] = conversation.messages;
+    const branched = toConversationExport(
+      {
+        ...conversation,
+        messages: [
+          {
+            ...question,
+            branches: [{ messages: [answer], history: [{ role: 'user', content: 42 } as any] }],
+          },
+          answer,
+        ],
+      },
+      DEFAULT_MODEL_SETTINGS
+    );
+    expect(() => parseConversationExport(JSON.stringify(branched))).toThrowError(
+      'The conversation contains an invalid chat message'
+    );
+  });
+
+  it('should derive file names from the title', () => {
+    expect(exportFileName(conversation, 'md')).toBe('which-companies-offer-chatbots.md');
+    expect(exportFileName({ ...conversation, title: '???' }, 'json')).toBe('conversation.json');
+  });
+});
@@ -0,0 +1,204 @@
+import { Conversation, StoredMessage } from './conversation-store.service';
+import { ModelSettings } from './config.service';
+import { HistorySummary } from './context-budget';
+import { OpenAIMessage } from './openai.service';
+
+export const CONVERSATION_EXPORT_FORMAT = 'angular-mcp-chat/conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+/**
+ * Lossless JSON export: the conversation as stored, plus the model settings it was held with
+ */
+export interface ConversationExport {
+  format: typeof CONVERSATION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  modelSettings: ModelSettings;
+  conversation: Conversation;
+}
+
+const MESSAGE_ROLES: OpenAIMessage['role'][] = ['system', 'user', 'assistant', 'tool'];
+
+export function toConversationExport(
+  conversation: Conversation,
+  modelSettings: ModelSettings
+): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    modelSettings,
+    conversation,
+  };
+}
+
+/**
+ * Render a conversation as Markdown: one section per message with its role and time,
+ * followed by the tools called for it and their results
+ */
+export function toMarkdown(conversation: Conversation, modelSettings?: ModelSettings): string {
+  const lines = [
+    `# ${conversation.title}`,
+    '',
+    `- Created: ${new Date(conversation.createdAt).toISOString()}`,
+    `- Updated: ${new Date(conversation.updatedAt).toISOString()}`,
+  ];
+  if (modelSettings) {
+    const format =
+      modelSettings.responseFormat === 'json_object' ? ', JSON response format' : '';
+    lines.push(
+      `- Model: ${modelSettings.model} (temperature ${modelSettings.temperature}, ` +
+        `max tokens ${modelSettings.maxTokens}, top_p ${modelSettings.topP}${format})`
+    );
+  }
+
+  for (const message of conversation.messages) {
+    lines.push('', '---', '', ...formatMessage(message));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read a JSON export back into a conversation.
+ * Throws with a readable message when the file is not a valid export.
+ */
+export function parseConversationExport(text: string): ConversationExport {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (parsed?.format !== CONVERSATION_EXPORT_FORMAT) {
+    throw new Error('The file is not a conversation export');
+  }
+  if (parsed.version !== CONVERSATION_EXPORT_VERSION) {
+    throw new Error(`Unsupported conversation export version: ${parsed.version}`);
+  }
+
+  const conversation = parsed.conversation;
+  if (
+    !conversation ||
+    typeof conversation.title !== 'string' ||
+    !Array.isArray(conversation.history) ||
+    !Array.isArray(conversation.messages)
+  ) {
+    throw new Error('The export does not contain a conversation');
+  }
+  if (!conversation.history.every(isOpenAIMessage)) {
+    throw new Error('The conversation history contains an invalid message');
+  }
+  if (!conversation.messages.every(isStoredMessage)) {
+    throw new Error('The conversation contains an invalid chat message');
+  }
+
+  // The conversation can be shown without these, so invalid ones are replaced or dropped
+  const now = Date.now();
+  const { historySummary, ...rest } = conversation;
+  return {
+    ...parsed,
+    conversation: {
+      ...rest,
+      createdAt: isTimestamp(conversation.createdAt) ? conversation.createdAt : now,
+      updatedAt: isTimestamp(conversation.updatedAt) ? conversation.updatedAt : now,
+      ...(isHistorySummary(historySummary, conversation.history.length) ? { historySummary } : {}),
+    },
+  };
+}
+
+/**
+ * File name for an export, derived from the conversation title
+ */
+export function exportFileName(conversation: Conversation, extension: 'md' | 'json'): string {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+/**
+ * Offer text to the user as a file download
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked once the click has been handled, so the download can still read the blob
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+function formatMessage(message: StoredMessage): string[] {
+  const lines = [
+    `### ${message.isUser ? 'User' : 'Assistant'} · ${message.timestamp}`,
+    '',
+    message.content,
+  ];
+
+  if (message.attachments?.length) {
+    lines.push('', `_Attachments: ${message.attachments.join(', ')}_`);
+  }
+  if (message.sources?.length) {
+    lines.push('', `_Sources used: ${message.sources.map((source) => source.name).join(', ')}_`);
+  }
+
+  for (const toolCall of message.toolCalls || []) {
+    lines.push('', `**Tool call:** \`${toolCall.name}\``, '', codeBlock(toolCall.arguments, 'json'));
+    if (toolCall.result !== undefined) {
+      lines.push('', '**Result:**', '', codeBlock(toolCall.result));
+    }
+  }
+  return lines;
+}
+
+// Fence text so that backticks inside it cannot close the block early
+function codeBlock(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function isOpenAIMessage(message: any): message is OpenAIMessage {
+  return (
+    !!message &&
+    MESSAGE_ROLES.includes(message.role) &&
+    (typeof message.content === 'string' || message.content === null)
+  );
+}
+
+function isTimestamp(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(new Date(value).getTime());
+}
+
+function isHistorySummary(summary: any, historyLength: number): summary is HistorySummary {
+  return (
+    !!summary &&
+    typeof summary.text === 'string' &&
+    Number.isInteger(summary.messageCount) &&
+    summary.messageCount >= 0 &&
+    summary.messageCount <= historyLength
+  );
+}
+
+function isStoredMessage(message: any): message is StoredMessage {
+  return (
+    !!message &&
+    typeof message.content === 'string' &&
+    typeof message.isUser === 'boolean' &&
+    typeof message.timestamp === 'string' &&
+    !isNaN(Date.parse(message.timestamp)) &&
+    (message.branches === undefined ||
+      (Array.isArray(message.branches) &&
+        message.branches.every(
+          (branch: any) =>
+            Array.isArray(branch?.messages) &&
+            Array.isArray(branch.history) &&
+            branch.history.every(isOpenAIMessage) &&
+            branch.messages.every(isStoredMessage)
+        )))
+  );
+}
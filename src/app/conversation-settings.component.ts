@@ -0,0 +1,245 @@
+import { Component, signal, output, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ConfigService, ModelSettings, normalizeModelSettings } from './config.service';
+import { OpenAIService } from './openai.service';
+
+/**
+ * Header control showing the model in use, with a popover to override the
+ * generation parameters for the current conversation only
+ */
+@Component({
+  selector: 'app-conversation-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="conversation-settings">
+      <button
+        class="model-chip"
+        [class.overridden]="isOverridden()"
+        (click)="toggle()"
+        [title]="isOverridden() ? 'Overrides the default model settings' : 'Model settings'"
+      >
+        {{ settings().model }}
+        <span *ngIf="isOverridden()" class="override-badge">custom</span>
+      </button>
+
+      <div class="settings-popover" *ngIf="isOpen()">
+        <h4>This conversation</h4>
+        <label>
+          Model
+          <input
+            type="text"
+            [(ngModel)]="draft.model"
+            list="conversationModels"
+            class="settings-input"
+          />
+        </label>
+        <datalist id="conversationModels">
+          <option *ngFor="let model of openaiService.availableModels()" [value]="model"></option>
+        </datalist>
+        <div class="settings-grid">
+          <label>
+            Temperature
+            <input
+              type="number"
+              min="0"
+              max="2"
+              step="0.1"
+              [(ngModel)]="draft.temperature"
+              class="settings-input"
+            />
+          </label>
+          <label>
+            Max tokens
+            <input
+              type="number"
+              min="1"
+              step="1"
+              [(ngModel)]="draft.maxTokens"
+              class="settings-input"
+            />
+          </label>
+          <label>
+            Top P
+            <input
+              type="number"
+              min="0"
+              max="1"
+              step="0.05"
+              [(ngModel)]="draft.topP"
+              class="settings-input"
+            />
+          </label>
+          <label>
+            Response format
+            <select [(ngModel)]="draft.responseFormat" class="settings-input">
+              <option value="text">Text</option>
+              <option value="json_object">JSON object</option>
+            </select>
+          </label>
+        </div>
+        <div class="settings-actions">
+          <button class="btn btn-primary" (click)="apply()">Apply</button>
+          <button class="btn btn-secondary" (click)="reset()" [disabled]="!isOverridden()">
+            Use defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .conversation-settings {
+      position: relative;
+    }
+
+    .model-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.375rem;
+      padding: 0.375rem 0.625rem;
+      border: 1px solid #e2e8f0;
+      border-radius: 999px;
+      background: white;
+      color: #64748b;
+      font-size: 0.75rem;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+
+    .model-chip:hover,
+    .model-chip.overridden {
+      border-color: #2563eb;
+      color: #1e293b;
+    }
+
+    .override-badge {
+      background: #2563eb;
+      color: white;
+      border-radius: 999px;
+      padding: 0 0.375rem;
+      font-size: 0.6875rem;
+    }
+
+    .settings-popover {
+      position: absolute;
+      top: calc(100% + 0.5rem);
+      right: 0;
+      width: 18rem;
+      padding: 1rem;
+      background: white;
+      border: 1px solid #e2e8f0;
+      border-radius: 8px;
+      box-shadow: 0 10px 15px -3px rgb(0 0 0 / 0.1);
+      z-index: 30;
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+    }
+
+    .settings-popover h4 {
+      margin: 0;
+      font-size: 0.875rem;
+      color: #1e293b;
+    }
+
+    .settings-popover label {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      font-size: 0.75rem;
+      color: #64748b;
+    }
+
+    .settings-grid {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 0.5rem;
+    }
+
+    .settings-input {
+      padding: 0.375rem 0.5rem;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      font-size: 0.875rem;
+      width: 100%;
+      box-sizing: border-box;
+    }
+
+    .settings-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .btn {
+      padding: 0.375rem 0.75rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.8125rem;
+    }
+
+    .btn-primary {
+      background: #007bff;
+      color: white;
+    }
+
+    .btn-secondary {
+      background: #6c757d;
+      color: white;
+    }
+
+    .btn:disabled {
+      background: #ccc;
+      cursor: not-allowed;
+    }
+  `]
+})
+export class ConversationSettingsComponent {
+  protected openaiService = inject(OpenAIService);
+  private configService = inject(ConfigService);
+
+  isOpen = signal(false);
+  draft: ModelSettings = this.openaiService.getModelSettings();
+
+  protected settings = computed(() => ({
+    ...this.configService.config().modelSettings,
+    ...this.openaiService.modelOverrides()
+  }));
+  protected isOverridden = computed(
+    () => Object.keys(this.openaiService.modelOverrides()).length > 0
+  );
+
+  overridesChanged = output<Partial<ModelSettings>>();
+
+  toggle() {
+    if (!this.isOpen()) {
+      this.draft = { ...this.settings() };
+    }
+    this.isOpen.set(!this.isOpen());
+  }
+
+  // Only settings that differ from the defaults are kept, so later changes to the
+  // defaults still reach this conversation for everything it did not override
+  apply() {
+    const defaults = this.configService.getModelSettings();
+    const draft = normalizeModelSettings(this.draft);
+    const overrides: Partial<ModelSettings> = {};
+    for (const key of Object.keys(draft) as (keyof ModelSettings)[]) {
+      if (draft[key] !== defaults[key]) {
+        (overrides as any)[key] = draft[key];
+      }
+    }
+    this.update(overrides);
+  }
+
+  reset() {
+    this.update({});
+  }
+
+  private update(overrides: Partial<ModelSettings>) {
+    this.openaiService.setModelOverrides(overrides);
+    this.overridesChanged.emit(this.openaiService.modelOverrides());
+    this.isOpen.set(false);
+  }
+}
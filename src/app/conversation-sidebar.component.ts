@@ -0,0 +1,307 @@
+import { Component, signal, input, output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router, RouterLink } from '@angular/router';
+import { from } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import { ConversationStoreService, ConversationSummary } from './conversation-store.service';
+import { parseConversationExport } from './conversation-export';
+import { normalizeModelSettings } from './config.service';
+
+@Component({
+  selector: 'app-conversation-sidebar',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  template: `
+    <aside class="sidebar">
+      <div class="sidebar-actions">
+        <button class="new-chat-btn" (click)="newConversation.emit()">+ New chat</button>
+        <button
+          class="import-btn"
+          (click)="importInput.click()"
+          [disabled]="!store.isAvailable"
+          title="Import a conversation exported as JSON"
+        >
+          Import
+        </button>
+        <input
+          #importInput
+          type="file"
+          accept="application/json,.json"
+          hidden
+          (change)="importConversation($event)"
+        />
+      </div>
+      <div class="error-text" *ngIf="importError()">{{ importError() }}</div>
+
+      <ul class="thread-list">
+        <li
+          class="thread"
+          *ngFor="let conversation of store.conversations(); trackBy: trackById"
+          [class.active]="conversation.id === activeId()"
+        >
+          <ng-container *ngIf="editingId() === conversation.id; else threadLink">
+            <input
+              class="rename-input"
+              [(ngModel)]="editTitle"
+              (keydown.enter)="commitRename(conversation)"
+              (keydown.escape)="cancelRename()"
+              (blur)="commitRename(conversation)"
+              aria-label="Conversation title"
+            />
+          </ng-container>
+          <ng-template #threadLink>
+            <a class="thread-link" [routerLink]="['/chat', conversation.id]">
+              <span class="thread-title">{{ conversation.title }}</span>
+              <small class="thread-time">{{ conversation.updatedAt | date: 'short' }}</small>
+            </a>
+            <div class="thread-actions">
+              <button class="icon-btn" (click)="startRename(conversation)" title="Rename">✎</button>
+              <button class="icon-btn" (click)="deleteConversation(conversation)" title="Delete">
+                ×
+              </button>
+            </div>
+          </ng-template>
+        </li>
+        <li class="empty" *ngIf="store.conversations().length === 0">
+          {{ store.isAvailable ? 'No saved conversations yet.' : 'Conversation history is unavailable.' }}
+        </li>
+      </ul>
+    </aside>
+  `,
+  styles: [`
+    .sidebar {
+      width: 260px;
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      padding: 1rem 0.75rem;
+      background: #ffffff;
+      border-right: 1px solid #e2e8f0;
+      box-sizing: border-box;
+    }
+
+    .sidebar-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .new-chat-btn {
+      flex: 1;
+      padding: 0.625rem 1rem;
+      border: 1px solid #2563eb;
+      border-radius: 6px;
+      background: #2563eb;
+      color: white;
+      cursor: pointer;
+      font-size: 0.875rem;
+      transition: background-color 0.2s;
+    }
+
+    .new-chat-btn:hover {
+      background: #1d4ed8;
+    }
+
+    .import-btn {
+      padding: 0.625rem 0.75rem;
+      border: 1px solid #e2e8f0;
+      border-radius: 6px;
+      background: white;
+      color: #64748b;
+      cursor: pointer;
+      font-size: 0.875rem;
+    }
+
+    .import-btn:hover:not(:disabled) {
+      color: #1e293b;
+      border-color: #2563eb;
+    }
+
+    .error-text {
+      color: #dc3545;
+      font-size: 0.8rem;
+    }
+
+    .thread-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      overflow-y: auto;
+      flex: 1;
+    }
+
+    .thread {
+      display: flex;
+      align-items: center;
+      gap: 0.25rem;
+      border-radius: 6px;
+      padding: 0.25rem 0.25rem 0.25rem 0.5rem;
+    }
+
+    .thread:hover,
+    .thread.active {
+      background: #f1f5f9;
+    }
+
+    .thread.active .thread-title {
+      color: #2563eb;
+    }
+
+    .thread-link {
+      flex: 1;
+      min-width: 0;
+      display: flex;
+      flex-direction: column;
+      padding: 0.25rem 0;
+      text-decoration: none;
+    }
+
+    .thread-title {
+      color: #1e293b;
+      font-size: 0.875rem;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .thread-time {
+      color: #64748b;
+      font-size: 0.75rem;
+    }
+
+    .thread-actions {
+      display: flex;
+      visibility: hidden;
+    }
+
+    .thread:hover .thread-actions,
+    .thread.active .thread-actions {
+      visibility: visible;
+    }
+
+    .icon-btn {
+      border: none;
+      background: none;
+      cursor: pointer;
+      color: #64748b;
+      padding: 0.25rem;
+      font-size: 0.875rem;
+      line-height: 1;
+    }
+
+    .icon-btn:hover {
+      color: #1e293b;
+    }
+
+    .rename-input {
+      flex: 1;
+      padding: 0.375rem 0.5rem;
+      border: 1px solid #2563eb;
+      border-radius: 4px;
+      font-size: 0.875rem;
+      min-width: 0;
+    }
+
+    .empty {
+      color: #64748b;
+      font-size: 0.875rem;
+      padding: 0.5rem;
+    }
+
+    @media (max-width: 768px) {
+      .sidebar {
+        width: 100%;
+        height: auto;
+        max-height: 35vh;
+        border-right: none;
+        border-bottom: 1px solid #e2e8f0;
+      }
+    }
+  `]
+})
+export class ConversationSidebarComponent {
+  protected store = inject(ConversationStoreService);
+  private router = inject(Router);
+
+  activeId = input<string | null>(null);
+  editingId = signal<string | null>(null);
+  importError = signal('');
+  editTitle = '';
+
+  newConversation = output<void>();
+
+  startRename(conversation: ConversationSummary) {
+    this.editTitle = conversation.title;
+    this.editingId.set(conversation.id);
+  }
+
+  cancelRename() {
+    this.editingId.set(null);
+  }
+
+  commitRename(conversation: ConversationSummary) {
+    // Enter followed by blur would otherwise commit twice
+    if (this.editingId() !== conversation.id) {
+      return;
+    }
+    this.editingId.set(null);
+
+    const title = this.editTitle.trim();
+    if (!title || title === conversation.title) {
+      return;
+    }
+    this.store.rename(conversation.id, title).subscribe({
+      error: (error) => console.error('Failed to rename conversation:', error)
+    });
+  }
+
+  deleteConversation(conversation: ConversationSummary) {
+    if (!confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      return;
+    }
+
+    this.store.delete(conversation.id).subscribe({
+      next: () => {
+        // Leave a thread that no longer exists
+        if (conversation.id === this.activeId()) {
+          this.router.navigate(['/']);
+        }
+      },
+      error: (error) => console.error('Failed to delete conversation:', error)
+    });
+  }
+
+  // Save a JSON export as a new conversation and open it
+  importConversation(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    this.importError.set('');
+
+    const id = this.store.createId();
+    from(file.text())
+      .pipe(
+        map((text) => parseConversationExport(text).conversation),
+        switchMap((conversation) =>
+          this.store.save({
+            ...conversation,
+            id,
+            updatedAt: Date.now(),
+            modelOverrides: normalizeModelSettings(conversation.modelOverrides)
+          })
+        )
+      )
+      .subscribe({
+        next: () => this.router.navigate(['/chat', id]),
+        error: (error) => this.importError.set(`Import failed: ${error.message || error}`)
+      });
+  }
+
+  trackById(index: number, conversation: ConversationSummary): string {
+    return conversation.id;
+  }
+}
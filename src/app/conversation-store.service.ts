@@ -0,0 +1,255 @@
+import { Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable, defer, of } from 'rxjs';
+import { map, tap } from 'rxjs/operators';
+import { OpenAIMessage } from './openai.service';
+import { ModelSettings } from './config.service';
+import { HistorySummary } from './context-budget';
+import { ContextSource } from './context-retrieval';
+
+// A tool the assistant called while writing a reply, with what the tool returned
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  arguments: string;
+  result?: string;
+}
+
+// A chat bubble as persisted; timestamps are stored as ISO strings
+export interface StoredMessage {
+  content: string;
+  isUser: boolean;
+  timestamp: string;
+  attachments?: string[];
+  toolCalls?: ToolCallRecord[];
+  // Companies whose details were sent to the model for this reply
+  sources?: ContextSource[];
+  // Where the message's turn starts in the history: a user message's own entry,
+  // or the first entry its reply added
+  historyIndex?: number;
+  // The reply was stopped before it finished
+  stopped?: boolean;
+  // Versions of the conversation from this user message on, kept when it was edited
+  branches?: StoredBranch[];
+  // The branch currently shown; its stored copy is outdated until another one is chosen
+  activeBranch?: number;
+}
+
+// The rest of a conversation from an edited user message on
+export interface StoredBranch {
+  messages: StoredMessage[];
+  history: OpenAIMessage[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  // Everything sent to the model, including tool calls and tool results
+  history: OpenAIMessage[];
+  // What the user saw in the chat
+  messages: StoredMessage[];
+  // Model settings this conversation uses instead of the configured defaults
+  modelOverrides?: Partial<ModelSettings>;
+  // Summary of the oldest turns, sent instead of them once they no longer fit the context window
+  historySummary?: HistorySummary;
+}
+
+export type ConversationSummary = Pick<Conversation, 'id' | 'title' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Persists conversations in IndexedDB and keeps a reactive list of them, newest first.
+ * Summaries live in a store of their own, so listing conversations does not load them.
+ * All operations are no-ops during SSR.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ConversationStoreService {
+  private readonly DB_NAME = 'chatbot-conversations';
+  private readonly DB_VERSION = 2;
+  private readonly STORE_NAME = 'conversations';
+  private readonly SUMMARY_STORE_NAME = 'summaries';
+  private platformId = inject(PLATFORM_ID);
+  private db: Promise<IDBDatabase> | null = null;
+
+  private _conversations = signal<ConversationSummary[]>([]);
+  readonly conversations = this._conversations.asReadonly();
+
+  constructor() {
+    this.refresh().subscribe({
+      error: (error) => console.warn('Failed to load conversations from IndexedDB:', error),
+    });
+  }
+
+  /**
+   * Whether persistence is available (browser with IndexedDB)
+   */
+  get isAvailable(): boolean {
+    return isPlatformBrowser(this.platformId) && typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Reload the conversation list from the database
+   */
+  refresh(): Observable<ConversationSummary[]> {
+    if (!this.isAvailable) {
+      return of([]);
+    }
+
+    return defer(() =>
+      this.run<ConversationSummary[]>('readonly', (_, summaries) => summaries.getAll())
+    ).pipe(
+      map((summaries) => summaries.sort((a, b) => b.updatedAt - a.updatedAt)),
+      tap((summaries) => this._conversations.set(summaries))
+    );
+  }
+
+  get(id: string): Observable<Conversation | undefined> {
+    if (!this.isAvailable) {
+      return of(undefined);
+    }
+    return defer(() =>
+      this.run<Conversation | undefined>('readonly', (conversations) => conversations.get(id))
+    );
+  }
+
+  /**
+   * Insert or replace a conversation
+   */
+  save(conversation: Conversation): Observable<void> {
+    if (!this.isAvailable) {
+      return of(undefined);
+    }
+
+    const summary = toSummary(conversation);
+    return defer(() =>
+      this.run('readwrite', (conversations, summaries) => {
+        conversations.put(conversation);
+        return summaries.put(summary);
+      })
+    ).pipe(
+      map(() => {
+        this._conversations.update((summaries) =>
+          [summary, ...summaries.filter((existing) => existing.id !== summary.id)].sort(
+            (a, b) => b.updatedAt - a.updatedAt
+          )
+        );
+      })
+    );
+  }
+
+  rename(id: string, title: string): Observable<void> {
+    if (!this.isAvailable) {
+      return of(undefined);
+    }
+
+    // Read and write in one transaction, so a save landing in between is not overwritten
+    return defer(() =>
+      this.run<Conversation | undefined>('readwrite', (conversations, summaries) => {
+        const request = conversations.get(id);
+        request.onsuccess = () => {
+          if (request.result) {
+            const renamed = { ...request.result, title };
+            conversations.put(renamed);
+            summaries.put(toSummary(renamed));
+          }
+        };
+        return request;
+      })
+    ).pipe(
+      map((conversation) => {
+        if (!conversation) {
+          throw new Error(`Conversation not found: ${id}`);
+        }
+        this._conversations.update((summaries) =>
+          summaries.map((summary) => (summary.id === id ? { ...summary, title } : summary))
+        );
+      })
+    );
+  }
+
+  delete(id: string): Observable<void> {
+    if (!this.isAvailable) {
+      return of(undefined);
+    }
+
+    return defer(() =>
+      this.run('readwrite', (conversations, summaries) => {
+        conversations.delete(id);
+        return summaries.delete(id);
+      })
+    ).pipe(
+      map(() => {
+        this._conversations.update((summaries) => summaries.filter((summary) => summary.id !== id));
+      })
+    );
+  }
+
+  /**
+   * Create an id for a new conversation
+   */
+  createId(): string {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+      return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          const conversations = db.objectStoreNames.contains(this.STORE_NAME)
+            ? request.transaction!.objectStore(this.STORE_NAME)
+            : db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+          if (!db.objectStoreNames.contains(this.SUMMARY_STORE_NAME)) {
+            // Version 1 kept only conversations: build their summaries
+            const summaries = db.createObjectStore(this.SUMMARY_STORE_NAME, { keyPath: 'id' });
+            const cursor = conversations.openCursor();
+            cursor.onsuccess = () => {
+              if (cursor.result) {
+                summaries.put(toSummary(cursor.result.value));
+                cursor.result.continue();
+              }
+            };
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          this.db = null;
+          reject(request.error);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  // Run requests on the conversation and summary stores in one transaction and resolve
+  // with the result of the request `operation` returns
+  private run<T = unknown>(
+    mode: IDBTransactionMode,
+    operation: (conversations: IDBObjectStore, summaries: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    return this.open().then(
+      (db) =>
+        new Promise<T>((resolve, reject) => {
+          const transaction = db.transaction([this.STORE_NAME, this.SUMMARY_STORE_NAME], mode);
+          const request = operation(
+            transaction.objectStore(this.STORE_NAME),
+            transaction.objectStore(this.SUMMARY_STORE_NAME)
+          );
+          transaction.oncomplete = () => resolve(request.result as T);
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        })
+    );
+  }
+}
+
+function toSummary({ id, title, createdAt, updatedAt }: Conversation): ConversationSummary {
+  return { id, title, createdAt, updatedAt };
+}
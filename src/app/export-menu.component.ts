@@ -0,0 +1,49 @@
+import { Component, output } from '@angular/core';
+
+export type ExportFormat = 'markdown' | 'json';
+
+/**
+ * Dropdown under the header's export button, offering the conversation export formats
+ */
+@Component({
+  selector: 'app-export-menu',
+  standalone: true,
+  template: `
+    <button class="dropdown-item" (click)="formatSelected.emit('markdown')">
+      Export as Markdown
+    </button>
+    <button class="dropdown-item" (click)="formatSelected.emit('json')">Export as JSON</button>
+  `,
+  styles: [`
+    :host {
+      position: absolute;
+      top: calc(100% + 0.25rem);
+      right: 0;
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      box-shadow: var(--shadow-lg);
+      display: flex;
+      flex-direction: column;
+      min-width: 11rem;
+      z-index: 20;
+    }
+
+    .dropdown-item {
+      padding: 0.5rem 0.75rem;
+      border: none;
+      background: none;
+      text-align: left;
+      cursor: pointer;
+      color: var(--text-primary);
+      font-size: 0.875rem;
+    }
+
+    .dropdown-item:hover {
+      background: var(--background);
+    }
+  `]
+})
+export class ExportMenuComponent {
+  formatSelected = output<ExportFormat>();
+}
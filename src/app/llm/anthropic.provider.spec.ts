@@ -0,0 +1,116 @@
+import { DEFAULT_MODEL_SETTINGS } from '../config.service';
+import { OpenAIMessage, OpenAITool } from '../openai.service';
+import { fromAnthropicResponse, toAnthropicBody } from './anthropic.provider';
+
+describe('Anthropic translation', () => {
+  const settings = { ...DEFAULT_MODEL_SETTINGS, model: 'claude-test' };
+  const tools: OpenAITool[] = [
+    {
+      type: 'function',
+      function: {
+        name: 'default__getChats',
+        description: 'List chatbots',
+        parameters: { type: 'object', properties: { companyName: { type: 'string' } } },
+      },
+    },
+  ];
+
+  it('should move system messages out and translate tool turns', () => {
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Chatbots of Acme?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'default__getChats', arguments: '{"companyName":"Acme"}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '["AcmeBot"]' },
+    ];
+
+    const body = toAnthropicBody({ messages, tools, settings });
+
+    expect(body['system']).toBe('Be brief.');
+    expect(body['max_tokens']).toBe(settings.maxTokens);
+    expect(body['top_p']).toBeUndefined();
+    expect(body['messages']).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'Chatbots of Acme?' }] },
+      {
+        role: 'assistant',
+        content: [
+          {
+            type: 'tool_use',
+            id: 'call_1',
+            name: 'default__getChats',
+            input: { companyName: 'Acme' },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'call_1', content: '["AcmeBot"]' }],
+      },
+    ]);
+    expect(body['tools']).toEqual([
+      {
+        name: 'default__getChats',
+        description: 'List chatbots',
+        input_schema: tools[0].function.parameters,
+      },
+    ]);
+    expect(body['tool_choice']).toEqual({ type: 'auto' });
+  });
+
+  it('should merge consecutive messages of the same role', () => {
+    const body = toAnthropicBody({
+      messages: [
+        { role: 'user', content: 'First' },
+        { role: 'user', content: 'Second' },
+      ],
+      settings: { ...settings, topP: 0.5 },
+    });
+
+    expect(body['messages']).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'First' },
+          { type: 'text', text: 'Second' },
+        ],
+      },
+    ]);
+    expect(body['top_p']).toBe(0.5);
+    expect(body['tools']).toBeUndefined();
+  });
+
+  it('should translate responses into OpenAI messages', () => {
+    const message = fromAnthropicResponse({
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        {
+          type: 'tool_use',
+          id: 'toolu_1',
+          name: 'default__getChats',
+          input: { companyName: 'Acme' },
+        },
+      ],
+    });
+
+    expect(message).toEqual({
+      role: 'assistant',
+      content: 'Let me check.',
+      tool_calls: [
+        {
+          id: 'toolu_1',
+          type: 'function',
+          function: { name: 'default__getChats', arguments: '{"companyName":"Acme"}' },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import type { ChatTurnEvent, OpenAIMessage, OpenAIToolCall } from '../openai.service';
+import { LLM_RESILIENCE_POLICY, resilienceContext } from '../resilience';
+import { postEventStream } from './event-stream';
+import { LLM_PROVIDER_LABELS, LlmProvider, LlmRequest } from './llm-provider';
+
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicContentBlock[];
+}
+
+export interface AnthropicResponse {
+  content: AnthropicContentBlock[];
+  stop_reason?: string;
+}
+
+/**
+ * Translate an OpenAI-format request into a Messages API request body.
+ * System messages move to `system`, tool calls become `tool_use` blocks and tool
+ * results become `tool_result` blocks in the following user turn.
+ */
+export function toAnthropicBody(request: LlmRequest): Record<string, any> {
+  const { messages, tools, toolChoice, settings } = request;
+  const system: string[] = [];
+  const turns: AnthropicMessage[] = [];
+
+  // The API expects alternating roles, so consecutive blocks of one role share a turn
+  const append = (role: AnthropicMessage['role'], blocks: AnthropicContentBlock[]) => {
+    if (blocks.length === 0) {
+      return;
+    }
+    const last = turns[turns.length - 1];
+    if (last?.role === role) {
+      last.content.push(...blocks);
+    } else {
+      turns.push({ role, content: blocks });
+    }
+  };
+  const text = (content: string | null): AnthropicContentBlock[] =>
+    content ? [{ type: 'text', text: content }] : [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        if (message.content) {
+          system.push(message.content);
+        }
+        break;
+      case 'user':
+        append('user', text(message.content));
+        break;
+      case 'assistant':
+        append('assistant', [
+          ...text(message.content),
+          ...(message.tool_calls || []).map(
+            (toolCall): AnthropicContentBlock => ({
+              type: 'tool_use',
+              id: toolCall.id,
+              name: toolCall.function.name,
+              input: parseArguments(toolCall.function.arguments),
+            })
+          ),
+        ]);
+        break;
+      case 'tool':
+        append('user', [
+          {
+            type: 'tool_result',
+            tool_use_id: message.tool_call_id || '',
+            content: message.content || '',
+          },
+        ]);
+        break;
+    }
+  }
+
+  const body: Record<string, any> = {
+    model: settings.model,
+    max_tokens: settings.maxTokens,
+    messages: turns,
+    temperature: settings.temperature,
+  };
+  if (system.length > 0) {
+    body['system'] = system.join('\n\n');
+  }
+  // Newer models reject temperature and top_p together; only send top_p when it matters
+  if (settings.topP < 1) {
+    body['top_p'] = settings.topP;
+  }
+  if (tools && tools.length > 0) {
+    body['tools'] = tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters,
+    }));
+    body['tool_choice'] = { type: toolChoice === 'none' ? 'none' : 'auto' };
+  }
+  return body;
+}
+
+/**
+ * Translate a Messages API response into an OpenAI-format assistant message
+ */
+export function fromAnthropicResponse(response: AnthropicResponse): OpenAIMessage {
+  const content = response.content
+    .filter((block) => block.type === 'text')
+    .map((block) => block.text)
+    .join('');
+  const toolCalls = response.content
+    .filter((block) => block.type === 'tool_use')
+    .map(
+      (block): OpenAIToolCall => ({
+        id: block.id,
+        type: 'function',
+        function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+      })
+    );
+
+  const message: OpenAIMessage = { role: 'assistant', content: content || null };
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+  return message;
+}
+
+/**
+ * Anthropic's Messages API, called from the browser with the user's key
+ */
+export class AnthropicProvider implements LlmProvider {
+  static readonly DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+  private static readonly API_VERSION = '2023-06-01';
+
+  readonly type = 'anthropic';
+  readonly label = LLM_PROVIDER_LABELS.anthropic;
+
+  constructor(
+    private http: HttpClient,
+    private apiKey: string,
+    private baseUrl: string = AnthropicProvider.DEFAULT_BASE_URL
+  ) {}
+
+  complete(request: LlmRequest): Observable<OpenAIMessage> {
+    return this.http
+      .post<AnthropicResponse>(`${this.baseUrl}/messages`, toAnthropicBody(request), {
+        headers: this.createHeaders(),
+        context: resilienceContext(LLM_RESILIENCE_POLICY),
+      })
+      .pipe(map(fromAnthropicResponse));
+  }
+
+  stream(request: LlmRequest): Observable<ChatTurnEvent> {
+    const body = { ...toAnthropicBody(request), stream: true };
+
+    return new Observable<ChatTurnEvent>((subscriber) => {
+      // Content blocks by index, assembled from their deltas
+      const blocks: AnthropicContentBlock[] = [];
+      const partialJson: string[] = [];
+
+      const handleEvent = (data: any) => {
+        switch (data.type) {
+          case 'content_block_start':
+            blocks[data.index] = { ...data.content_block };
+            partialJson[data.index] = '';
+            break;
+          case 'content_block_delta': {
+            const block = blocks[data.index];
+            if (data.delta.type === 'text_delta' && block?.type === 'text') {
+              block.text += data.delta.text;
+              subscriber.next({ type: 'delta', content: data.delta.text });
+            } else if (data.delta.type === 'input_json_delta') {
+              partialJson[data.index] += data.delta.partial_json;
+            }
+            break;
+          }
+          case 'content_block_stop': {
+            const block = blocks[data.index];
+            if (block?.type === 'tool_use' && partialJson[data.index]) {
+              block.input = parseArguments(partialJson[data.index]);
+            }
+            break;
+          }
+          case 'error':
+            throw new Error(data.error?.message || 'Anthropic stream error');
+        }
+      };
+
+      return postEventStream(
+        this.http,
+        `${this.baseUrl}/messages`,
+        body,
+        this.createHeaders()
+      ).subscribe({
+        next: (event) => {
+          try {
+            if (event.data) {
+              handleEvent(JSON.parse(event.data));
+            }
+          } catch (error) {
+            subscriber.error(error);
+          }
+        },
+        error: (error) => subscriber.error(error),
+        complete: () => {
+          const message = fromAnthropicResponse({ content: blocks.filter((block) => !!block) });
+          subscriber.next({ type: 'message', message });
+          subscriber.complete();
+        },
+      });
+    });
+  }
+
+  listModels(): Observable<string[]> {
+    return this.http
+      .get<{ data: { id: string }[] }>(`${this.baseUrl}/models`, {
+        headers: this.createHeaders(),
+        context: resilienceContext(LLM_RESILIENCE_POLICY),
+      })
+      .pipe(map((response) => (response.data || []).map((model) => model.id)));
+  }
+
+  private createHeaders(): HttpHeaders {
+    return new HttpHeaders({
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'x-api-key': this.apiKey,
+      'anthropic-version': AnthropicProvider.API_VERSION,
+      // Required for requests made directly from a browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+    });
+  }
+}
+
+function parseArguments(json: string): Record<string, any> {
+  try {
+    return json ? JSON.parse(json) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  HttpClient,
+  HttpDownloadProgressEvent,
+  HttpEventType,
+  HttpHeaders,
+} from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { SSEEvent, SSEParser } from '../sse';
+import { LLM_RESILIENCE_POLICY, resilienceContext } from '../resilience';
+
+/**
+ * POST a request answered with `text/event-stream` and emit its events as they arrive.
+ * Completes when the response ends; unsubscribing aborts the request. Failures before the
+ * stream starts are retried under the LLM resilience policy.
+ */
+export function postEventStream(
+  http: HttpClient,
+  url: string,
+  body: unknown,
+  headers: HttpHeaders
+): Observable<SSEEvent> {
+  return new Observable<SSEEvent>((subscriber) => {
+    const parser = new SSEParser();
+    let received = 0;
+
+    const emit = (events: SSEEvent[]) => events.forEach((event) => subscriber.next(event));
+
+    const subscription = http
+      .post(url, body, {
+        headers,
+        context: resilienceContext(LLM_RESILIENCE_POLICY),
+        observe: 'events',
+        reportProgress: true,
+        responseType: 'text',
+      })
+      .subscribe({
+        next: (httpEvent) => {
+          try {
+            if (httpEvent.type === HttpEventType.DownloadProgress) {
+              const text = (httpEvent as HttpDownloadProgressEvent).partialText ?? '';
+              emit(parser.push(text.slice(received)));
+              received = text.length;
+            } else if (httpEvent.type === HttpEventType.Response) {
+              const text = httpEvent.body ?? '';
+              emit(parser.push(text.slice(received)));
+              received = text.length;
+              emit(parser.flush());
+              subscriber.complete();
+            }
+          } catch (error) {
+            subscriber.error(error);
+          }
+        },
+        error: (error) => subscriber.error(error),
+      });
+
+    return () => subscription.unsubscribe();
+  });
+}
@@ -0,0 +1,84 @@
+import { lastValueFrom } from 'rxjs';
+import { toArray } from 'rxjs/operators';
+import { DEFAULT_MODEL_SETTINGS } from '../config.service';
+import { OpenAIMessage, OpenAITool } from '../openai.service';
+import { FakeProvider } from './fake.provider';
+
+describe('FakeProvider', () => {
+  const provider = new FakeProvider();
+  const settings = { ...DEFAULT_MODEL_SETTINGS, model: FakeProvider.MODEL };
+  const tools: OpenAITool[] = [
+    {
+      type: 'function',
+      function: { name: 'default__getCompanies', parameters: { type: 'object', properties: {} } },
+    },
+  ];
+
+  it('should echo the latest user message', async () => {
+    const message = await lastValueFrom(
+      provider.complete({ messages: [{ role: 'user', content: 'hello there' }], settings })
+    );
+    expect(message).toEqual({ role: 'assistant', content: 'You said: hello there' });
+  });
+
+  it('should call a tool the user names', async () => {
+    const message = await lastValueFrom(
+      provider.complete({
+        messages: [{ role: 'user', content: 'Run getCompanies please' }],
+        tools,
+        settings,
+      })
+    );
+    expect(message.content).toBeNull();
+    expect(message.tool_calls?.map((call) => call.function.name)).toEqual([
+      'default__getCompanies',
+    ]);
+  });
+
+  it('should not call tools when tool choice is none', async () => {
+    const message = await lastValueFrom(
+      provider.complete({
+        messages: [{ role: 'user', content: 'Run getCompanies please' }],
+        tools,
+        toolChoice: 'none',
+        settings,
+      })
+    );
+    expect(message.tool_calls).toBeUndefined();
+  });
+
+  it('should summarize tool results', async () => {
+    const messages: OpenAIMessage[] = [
+      { role: 'user', content: 'getCompanies' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          {
+            id: 'call_1',
+            type: 'function',
+            function: { name: 'default__getCompanies', arguments: '{}' },
+          },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '["OpenAI"]' },
+    ];
+    const message = await lastValueFrom(provider.complete({ messages, tools, settings }));
+    expect(message.content).toBe('Tool results:\n\n["OpenAI"]');
+  });
+
+  it('should stream word deltas followed by the message', async () => {
+    const events = await lastValueFrom(
+      provider
+        .stream({ messages: [{ role: 'user', content: 'one two' }], settings })
+        .pipe(toArray())
+    );
+    expect(events).toEqual([
+      { type: 'delta', content: 'You ' },
+      { type: 'delta', content: 'said: ' },
+      { type: 'delta', content: 'one ' },
+      { type: 'delta', content: 'two' },
+      { type: 'message', message: { role: 'assistant', content: 'You said: one two' } },
+    ]);
+  });
+});
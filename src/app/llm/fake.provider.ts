@@ -0,0 +1,85 @@
+import { Observable, concat, from, of } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { McpRegistryService } from '../mcp-registry.service';
+import type { ChatTurnEvent, OpenAIMessage } from '../openai.service';
+import { LLM_PROVIDER_LABELS, LlmProvider, LlmRequest } from './llm-provider';
+
+/**
+ * Deterministic offline backend for development and tests. It calls a tool when the latest
+ * user message names one, summarizes tool results once they come back, and otherwise echoes
+ * the user's message.
+ */
+export class FakeProvider implements LlmProvider {
+  static readonly MODEL = 'fake-model';
+
+  readonly type = 'fake';
+  readonly label = LLM_PROVIDER_LABELS.fake;
+
+  complete(request: LlmRequest): Observable<OpenAIMessage> {
+    return of(this.reply(request));
+  }
+
+  stream(request: LlmRequest): Observable<ChatTurnEvent> {
+    const message = this.reply(request);
+    // Split into words, keeping the whitespace, so the deltas join back into the content
+    const deltas = (message.content ?? '').match(/\S+\s*/g) || [];
+    return concat(
+      from(deltas).pipe(map((content): ChatTurnEvent => ({ type: 'delta', content }))),
+      of<ChatTurnEvent>({ type: 'message', message })
+    );
+  }
+
+  listModels(): Observable<string[]> {
+    return of([FakeProvider.MODEL]);
+  }
+
+  private reply(request: LlmRequest): OpenAIMessage {
+    const { messages, tools, toolChoice } = request;
+    const last = messages[messages.length - 1];
+
+    if (last?.role === 'tool') {
+      // Every result of the previous assistant turn sits after its tool calls
+      const results: string[] = [];
+      for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+        results.unshift(messages[i].content ?? '');
+      }
+      return {
+        role: 'assistant',
+        content: `Tool results:\n\n${results.join('\n\n')}`,
+      };
+    }
+
+    const question = [...messages].reverse().find((message) => message.role === 'user');
+    const text = question?.content ?? '';
+
+    if (tools && tools.length > 0 && toolChoice !== 'none') {
+      const tool = tools.find((candidate) =>
+        text.toLowerCase().includes(plainName(candidate.function.name).toLowerCase())
+      );
+      if (tool) {
+        return {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            {
+              id: `call_fake_${messages.length}`,
+              type: 'function',
+              function: { name: tool.function.name, arguments: '{}' },
+            },
+          ],
+        };
+      }
+    }
+
+    return {
+      role: 'assistant',
+      content: text ? `You said: ${text}` : 'Hello from the fake model.',
+    };
+  }
+}
+
+// Namespaced tool names ("server__tool") are matched by their tool part
+function plainName(name: string): string {
+  const separator = name.indexOf(McpRegistryService.TOOL_SEPARATOR);
+  return separator >= 0 ? name.slice(separator + McpRegistryService.TOOL_SEPARATOR.length) : name;
+}
@@ -0,0 +1,46 @@
+import { Observable } from 'rxjs';
+import type { LlmProviderType, ModelSettings } from '../config.service';
+import type { ChatTurnEvent, OpenAIMessage, OpenAITool } from '../openai.service';
+
+/**
+ * A chat completion request. Messages and tools use OpenAI's chat format throughout the app;
+ * providers for other APIs translate to and from it.
+ */
+export interface LlmRequest {
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  toolChoice?: 'auto' | 'none';
+  settings: ModelSettings;
+}
+
+/**
+ * A backend that can answer chat completions
+ */
+export interface LlmProvider {
+  readonly type: LlmProviderType;
+  // Name shown in the interface
+  readonly label: string;
+
+  /**
+   * Return the assistant message, which may contain tool calls
+   */
+  complete(request: LlmRequest): Observable<OpenAIMessage>;
+
+  /**
+   * Emit content deltas as they arrive, then the assembled assistant message
+   */
+  stream(request: LlmRequest): Observable<ChatTurnEvent>;
+
+  /**
+   * Names of the models this backend offers
+   */
+  listModels(): Observable<string[]>;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderType, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  'openai-compatible': 'OpenAI-compatible',
+  anthropic: 'Anthropic',
+  fake: 'Fake (offline)',
+};
@@ -0,0 +1,73 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { ConfigService, LlmProviderConfig } from '../config.service';
+import { AnthropicProvider } from './anthropic.provider';
+import { FakeProvider } from './fake.provider';
+import { LLM_PROVIDER_LABELS, LlmProvider } from './llm-provider';
+import {
+  AzureOpenAIProvider,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from './openai-compatible.provider';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class LlmService {
+  // Ollama's OpenAI-compatible endpoint, the most common local server
+  static readonly DEFAULT_COMPATIBLE_URL = 'http://localhost:11434/v1';
+
+  private http = inject(HttpClient);
+  private configService = inject(ConfigService);
+
+  private cachedProvider: LlmProvider | null = null;
+  private cachedKey = '';
+
+  // Provider for the saved configuration, rebuilt whenever the configuration changes
+  getProvider(): LlmProvider {
+    const config = this.configService.getLlmProvider();
+    const apiKey = this.configService.getApiKey();
+    const serverManaged = this.configService.usesServerManagedKey();
+    const key = JSON.stringify([config, apiKey, serverManaged]);
+
+    if (!this.cachedProvider || key !== this.cachedKey) {
+      this.cachedProvider = this.createProvider(config, apiKey, serverManaged);
+      this.cachedKey = key;
+    }
+    return this.cachedProvider;
+  }
+
+  // Build a provider from settings that may not be saved yet, e.g. to list models in the
+  // settings dialog
+  createProvider(
+    config: LlmProviderConfig,
+    apiKey: string,
+    serverManaged = this.configService.usesServerManagedKey(config.type)
+  ): LlmProvider {
+    switch (config.type) {
+      case 'azure':
+        return new AzureOpenAIProvider(this.http, config.baseUrl, apiKey, config.apiVersion);
+      case 'openai-compatible':
+        return new OpenAICompatibleProvider(
+          this.http,
+          config.baseUrl || LlmService.DEFAULT_COMPATIBLE_URL,
+          apiKey
+        );
+      case 'anthropic':
+        return new AnthropicProvider(
+          this.http,
+          apiKey,
+          config.baseUrl || AnthropicProvider.DEFAULT_BASE_URL
+        );
+      case 'fake':
+        return new FakeProvider();
+      default:
+        return new OpenAIProvider(this.http, apiKey, serverManaged);
+    }
+  }
+
+  // Name of the configured provider, for display
+  getLabel(): string {
+    return LLM_PROVIDER_LABELS[this.configService.config().llmProvider.type];
+  }
+}
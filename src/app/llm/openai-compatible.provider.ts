@@ -0,0 +1,255 @@
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable, throwError } from 'rxjs';
+import { map } from 'rxjs/operators';
+import type { LlmProviderType } from '../config.service';
+import type {
+  ChatTurnEvent,
+  OpenAIMessage,
+  OpenAIResponse,
+  OpenAIStreamChunk,
+  OpenAITool,
+  OpenAIToolCall,
+} from '../openai.service';
+import { SSEEvent } from '../sse';
+import { LLM_RESILIENCE_POLICY, resilienceContext } from '../resilience';
+import { postEventStream } from './event-stream';
+import { LLM_PROVIDER_LABELS, LlmProvider, LlmRequest } from './llm-provider';
+
+// A chat completions request body; Azure leaves out the model, which its URL selects
+export interface ChatCompletionBody {
+  model?: string;
+  messages: OpenAIMessage[];
+  max_tokens: number;
+  temperature: number;
+  top_p: number;
+  response_format?: { type: 'json_object' };
+  tools?: OpenAITool[];
+  tool_choice?: LlmRequest['toolChoice'];
+}
+
+/**
+ * Provider for APIs speaking OpenAI's chat completions format: any OpenAI-compatible base URL
+ * (Ollama, vLLM, LM Studio...) directly, and OpenAI and Azure OpenAI through subclasses
+ * that change the URLs and authentication.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    protected http: HttpClient,
+    protected baseUrl: string,
+    protected apiKey: string,
+    readonly type: LlmProviderType = 'openai-compatible'
+  ) {}
+
+  get label(): string {
+    return LLM_PROVIDER_LABELS[this.type];
+  }
+
+  complete(request: LlmRequest): Observable<OpenAIMessage> {
+    return this.http
+      .post<OpenAIResponse>(this.getChatUrl(request), this.createBody(request), {
+        headers: this.createHeaders(),
+        context: resilienceContext(LLM_RESILIENCE_POLICY),
+      })
+      .pipe(
+        map((response) => {
+          if (response.choices && response.choices.length > 0) {
+            return response.choices[0].message;
+          }
+          throw new Error(`No response from ${this.label}`);
+        })
+      );
+  }
+
+  stream(request: LlmRequest): Observable<ChatTurnEvent> {
+    const body = { ...this.createBody(request), stream: true };
+
+    return new Observable<ChatTurnEvent>((subscriber) => {
+      const toolCalls: OpenAIToolCall[] = [];
+      let content = '';
+
+      const handleEvent = (event: SSEEvent) => {
+        if (event.data === '[DONE]') {
+          return;
+        }
+        const chunk: OpenAIStreamChunk = JSON.parse(event.data);
+        const delta = chunk.choices?.[0]?.delta;
+        if (!delta) {
+          return;
+        }
+        if (delta.content) {
+          content += delta.content;
+          subscriber.next({ type: 'delta', content: delta.content });
+        }
+        for (const toolCallDelta of delta.tool_calls || []) {
+          const toolCall = (toolCalls[toolCallDelta.index] ??= {
+            id: '',
+            type: 'function',
+            function: { name: '', arguments: '' },
+          });
+          if (toolCallDelta.id) {
+            toolCall.id = toolCallDelta.id;
+          }
+          if (toolCallDelta.function?.name) {
+            toolCall.function.name += toolCallDelta.function.name;
+          }
+          if (toolCallDelta.function?.arguments) {
+            toolCall.function.arguments += toolCallDelta.function.arguments;
+          }
+        }
+      };
+
+      return postEventStream(this.http, this.getChatUrl(request), body, this.createHeaders())
+        .subscribe({
+          next: (event) => {
+            try {
+              handleEvent(event);
+            } catch (error) {
+              subscriber.error(error);
+            }
+          },
+          error: (error) => subscriber.error(error),
+          complete: () => {
+            const message: OpenAIMessage = {
+              role: 'assistant',
+              content: content || null,
+            };
+            const completedToolCalls = toolCalls.filter((toolCall) => !!toolCall);
+            if (completedToolCalls.length > 0) {
+              message.tool_calls = completedToolCalls;
+            }
+            subscriber.next({ type: 'message', message });
+            subscriber.complete();
+          },
+        });
+    });
+  }
+
+  listModels(): Observable<string[]> {
+    const url = this.getModelsUrl();
+    if (!url) {
+      return throwError(() => new Error(`${this.label} does not list models`));
+    }
+    return this.http
+      .get<{ data: { id: string }[] }>(url, {
+        headers: this.createHeaders(),
+        context: resilienceContext(LLM_RESILIENCE_POLICY),
+      })
+      .pipe(map((response) => (response.data || []).map((model) => model.id).sort()));
+  }
+
+  protected getChatUrl(request: LlmRequest): string {
+    return `${this.baseUrl}/chat/completions`;
+  }
+
+  protected getModelsUrl(): string | null {
+    return `${this.baseUrl}/models`;
+  }
+
+  protected createHeaders(): HttpHeaders {
+    const headers = new HttpHeaders({
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    });
+    return this.apiKey ? headers.set('Authorization', `Bearer ${this.apiKey}`) : headers;
+  }
+
+  protected createBody(request: LlmRequest): ChatCompletionBody {
+    const { messages, tools, toolChoice, settings } = request;
+    const body: ChatCompletionBody = {
+      model: settings.model,
+      messages: messages,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      top_p: settings.topP,
+    };
+    if (settings.responseFormat === 'json_object') {
+      body.response_format = { type: 'json_object' };
+    }
+    if (tools && tools.length > 0) {
+      body.tools = tools;
+      body.tool_choice = toolChoice || 'auto';
+    }
+    return body;
+  }
+}
+
+/**
+ * OpenAI itself. With a server-managed key, requests go through the SSR server's
+ * `/api/chat` proxy, which adds the key.
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  private static readonly API_URL = 'https://api.openai.com/v1';
+  private static readonly SERVER_URL = '/api/chat';
+
+  constructor(
+    http: HttpClient,
+    apiKey: string,
+    private serverManagedKey: boolean
+  ) {
+    super(http, OpenAIProvider.API_URL, serverManagedKey ? '' : apiKey, 'openai');
+  }
+
+  override listModels(): Observable<string[]> {
+    // OpenAI also lists embedding, audio and image models
+    return super.listModels().pipe(
+      map((ids) => {
+        const chatModels = ids.filter(
+          (id) =>
+            /^(gpt-|o\d|chatgpt)/.test(id) &&
+            !/(audio|realtime|transcribe|tts|image|search)/.test(id)
+        );
+        return chatModels.length > 0 ? chatModels : ids;
+      })
+    );
+  }
+
+  protected override getChatUrl(request: LlmRequest): string {
+    return this.serverManagedKey ? OpenAIProvider.SERVER_URL : super.getChatUrl(request);
+  }
+
+  protected override getModelsUrl(): string {
+    return this.serverManagedKey ? `${OpenAIProvider.SERVER_URL}/models` : `${this.baseUrl}/models`;
+  }
+}
+
+/**
+ * Azure OpenAI: the model setting names the deployment, and requests carry
+ * an `api-version` and an `api-key` header
+ */
+export class AzureOpenAIProvider extends OpenAICompatibleProvider {
+  constructor(
+    http: HttpClient,
+    endpoint: string,
+    apiKey: string,
+    private apiVersion: string
+  ) {
+    super(http, endpoint, apiKey, 'azure');
+  }
+
+  protected override getChatUrl(request: LlmRequest): string {
+    const deployment = encodeURIComponent(request.settings.model);
+    return (
+      `${this.baseUrl}/openai/deployments/${deployment}/chat/completions` +
+      `?api-version=${encodeURIComponent(this.apiVersion)}`
+    );
+  }
+
+  // Deployments are managed in the Azure portal; the data-plane API cannot list them
+  protected override getModelsUrl(): null {
+    return null;
+  }
+
+  protected override createHeaders(): HttpHeaders {
+    return new HttpHeaders({
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+      'api-key': this.apiKey,
+    });
+  }
+
+  // The deployment in the URL selects the model
+  protected override createBody(request: LlmRequest): ChatCompletionBody {
+    const { model, ...body } = super.createBody(request);
+    return body;
+  }
+}
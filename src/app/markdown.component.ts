@@ -0,0 +1,202 @@
+import {
+  Component,
+  PendingTasks,
+  ViewEncapsulation,
+  computed,
+  inject,
+  input,
+  signal
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { copyToClipboard } from './clipboard';
+
+type MarkdownRenderer = (text: string) => string;
+
+// marked and highlight.js are loaded with the first message that needs them, not with the app
+let loadedRenderer: MarkdownRenderer | null = null;
+let loadingRenderer: Promise<MarkdownRenderer> | null = null;
+
+function loadRenderer(): Promise<MarkdownRenderer> {
+  loadingRenderer ??= import('./markdown').then(
+    (module) => (loadedRenderer = module.renderMarkdown),
+    (error) => {
+      // Try again with the next message
+      loadingRenderer = null;
+      throw error;
+    }
+  );
+  return loadingRenderer;
+}
+
+/**
+ * Renders a bot message as Markdown. The HTML is bound through `[innerHTML]`, so Angular's
+ * sanitizer runs on it both on the server and in the browser. Until the renderer is loaded
+ * the message is shown as plain text.
+ */
+@Component({
+  selector: 'app-markdown',
+  standalone: true,
+  imports: [CommonModule],
+  // Styles must reach the generated HTML, which carries no component attributes
+  encapsulation: ViewEncapsulation.None,
+  template: `
+    <div
+      *ngIf="html() as html; else plainText"
+      class="markdown-body"
+      [innerHTML]="html"
+      (click)="onClick($event)"
+      (keydown.enter)="onClick($event)"
+    ></div>
+    <ng-template #plainText>
+      <div class="markdown-body plain-text">{{ content() }}</div>
+    </ng-template>
+  `,
+  styles: [`
+    .markdown-body {
+      overflow-wrap: anywhere;
+    }
+
+    .markdown-body.plain-text {
+      white-space: pre-wrap;
+    }
+
+    .markdown-body > :first-child {
+      margin-top: 0;
+    }
+
+    .markdown-body > :last-child {
+      margin-bottom: 0;
+    }
+
+    .markdown-body p,
+    .markdown-body ul,
+    .markdown-body ol,
+    .markdown-body blockquote,
+    .markdown-body table,
+    .markdown-body .code-block {
+      margin: 0 0 0.75rem 0;
+    }
+
+    .markdown-body ul,
+    .markdown-body ol {
+      padding-left: 1.5rem;
+    }
+
+    .markdown-body h1,
+    .markdown-body h2,
+    .markdown-body h3,
+    .markdown-body h4 {
+      margin: 1rem 0 0.5rem 0;
+      font-size: 1rem;
+      font-weight: 600;
+    }
+
+    .markdown-body a {
+      color: #2563eb;
+    }
+
+    .markdown-body blockquote {
+      padding-left: 0.75rem;
+      border-left: 3px solid #e2e8f0;
+      color: #64748b;
+    }
+
+    .markdown-body :not(pre) > code {
+      background: #f1f5f9;
+      padding: 0.1rem 0.3rem;
+      border-radius: 4px;
+      font-size: 0.875em;
+    }
+
+    .markdown-body table {
+      border-collapse: collapse;
+      display: block;
+      overflow-x: auto;
+      font-size: 0.875rem;
+    }
+
+    .markdown-body th,
+    .markdown-body td {
+      border: 1px solid #e2e8f0;
+      padding: 0.375rem 0.625rem;
+      text-align: left;
+    }
+
+    .markdown-body th {
+      background: #f8fafc;
+      font-weight: 600;
+    }
+
+    .markdown-body .code-block {
+      border: 1px solid #e2e8f0;
+      border-radius: 6px;
+      overflow: hidden;
+    }
+
+    .markdown-body .code-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 0.25rem 0.75rem;
+      background: #f1f5f9;
+      color: #64748b;
+      font-size: 0.75rem;
+    }
+
+    .markdown-body .copy-code {
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .markdown-body .copy-code:hover {
+      color: #1e293b;
+    }
+
+    .markdown-body pre {
+      margin: 0;
+      overflow-x: auto;
+    }
+
+    .markdown-body pre code.hljs {
+      display: block;
+      padding: 0.75rem;
+      font-size: 0.8125rem;
+      line-height: 1.45;
+    }
+  `]
+})
+export class MarkdownComponent {
+  content = input('');
+
+  private renderer = signal(loadedRenderer);
+  protected html = computed(() => this.renderer()?.(this.content()) ?? null);
+
+  constructor() {
+    if (loadedRenderer) {
+      return;
+    }
+    // Server-side rendering waits for the renderer, so the page is sent with the HTML
+    const done = inject(PendingTasks).add();
+    loadRenderer()
+      .then(
+        (render) => this.renderer.set(render),
+        (error) => console.error('Could not load the Markdown renderer:', error)
+      )
+      .finally(done);
+  }
+
+  // Copy buttons are part of the generated HTML, so their clicks are handled here
+  onClick(event: Event) {
+    const button = (event.target as HTMLElement).closest('.copy-code');
+    const code = button?.closest('.code-block')?.querySelector('code');
+    if (!button || !code) {
+      return;
+    }
+    event.preventDefault();
+
+    copyToClipboard(code.textContent ?? '').then((copied) => {
+      button.textContent = copied ? 'Copied!' : 'Copy failed';
+      setTimeout(() => (button.textContent = 'Copy'), 2000);
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('should render emphasis, lists and tables', () => {
+    const html = renderMarkdown(
+      '**Current Configuration:**\n- one\n- two\n\n| Name | Type |\n| --- | --- |\n| GPT | LLM |'
+    );
+
+    expect(html).toContain('<strong>Current Configuration:</strong>');
+    expect(html).toContain('<li>one</li>');
+    expect(html).toContain('<th>Name</th>');
+    expect(html).toContain('<td>GPT</td>');
+  });
+
+  it('should highlight fenced code and add a copy button', () => {
+    const html = renderMarkdown('```json\n{"a": 1}\n```');
+
+    expect(html).toContain('<code class="hljs language-json">');
+    expect(html).toContain('<span class="hljs-attr">&quot;a&quot;</span>');
+    expect(html).toContain('class="copy-code"');
+  });
+
+  it('should escape code in unknown languages', () => {
+    const html = renderMarkdown('```brainfuck\n<script>alert(1)</script>\n```');
+
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('should show raw HTML as text', () => {
+    const html = renderMarkdown('Hello <img src=x onerror="alert(1)"> <b>there</b>');
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(1)&quot;&gt;');
+  });
+
+  it('should open safe links in a new tab and drop unsafe ones', () => {
+    expect(renderMarkdown('[docs](https://example.com)')).toContain(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">docs</a>'
+    );
+
+    const unsafe = renderMarkdown('[click](javascript:alert(1))');
+    expect(unsafe).not.toContain('<a');
+    expect(unsafe).toContain('click');
+  });
+});
@@ -0,0 +1,101 @@
+import { Marked, Tokens } from 'marked';
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import css from 'highlight.js/lib/languages/css';
+import go from 'highlight.js/lib/languages/go';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import markdown from 'highlight.js/lib/languages/markdown';
+import python from 'highlight.js/lib/languages/python';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+
+// Only the languages GPT answers commonly use, to keep the bundle small
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('css', css);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('markdown', markdown);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('yaml', yaml);
+
+const SAFE_URL = /^(https?:|mailto:|#|\/(?!\/))/i;
+
+const markdownParser = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    // Raw HTML in a message is shown as text, never interpreted
+    html({ text }: Tokens.HTML | Tokens.Tag): string {
+      return escapeHtml(text);
+    },
+
+    code({ text, lang }: Tokens.Code): string {
+      const language = (lang || '').trim().split(/\s+/)[0].toLowerCase();
+      const highlighted =
+        language && hljs.getLanguage(language)
+          ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+          : escapeHtml(text);
+      const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+
+      return (
+        '<div class="code-block">' +
+        '<div class="code-header">' +
+        `<span class="code-language">${escapeHtml(language || 'text')}</span>` +
+        '<span class="copy-code" role="button" tabindex="0" title="Copy code">Copy</span>' +
+        '</div>' +
+        `<pre><code class="hljs${languageClass}">${highlighted}</code></pre>` +
+        '</div>\n'
+      );
+    },
+
+    // Links open in a new tab; anything but http(s), mailto and same-site links is dropped
+    link({ href, title, tokens }: Tokens.Link): string {
+      const text = this.parser.parseInline(tokens);
+      if (!SAFE_URL.test(href)) {
+        return text;
+      }
+      const titleAttribute = title ? ` title="${escapeHtml(title)}"` : '';
+      return (
+        `<a href="${escapeHtml(href)}"${titleAttribute} target="_blank" rel="noopener noreferrer">` +
+        `${text}</a>`
+      );
+    },
+
+    // Remote images are not loaded; they become links to the image
+    image({ href, text }: Tokens.Image): string {
+      if (!SAFE_URL.test(href)) {
+        return escapeHtml(text);
+      }
+      return (
+        `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">` +
+        `🖼 ${escapeHtml(text || href)}</a>`
+      );
+    },
+  },
+});
+
+/**
+ * Convert Markdown to HTML. Raw HTML is escaped and unsafe links are dropped; the result
+ * is additionally passed through Angular's sanitizer when bound with `[innerHTML]`.
+ */
+export function renderMarkdown(text: string): string {
+  return markdownParser.parse(text || '', { async: false });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,83 @@
+import { Observable, Subject, lastValueFrom, of, throwError } from 'rxjs';
+import { McpCache, stableStringify } from './mcp-cache';
+
+describe('McpCache', () => {
+  const policy = { ttlMs: 1000, staleMs: 5000 };
+  let now: number;
+  let cache: McpCache;
+  let loads: number;
+
+  const load = () => {
+    loads++;
+    return of(`value ${loads}`);
+  };
+
+  beforeEach(() => {
+    now = 0;
+    loads = 0;
+    cache = new McpCache(() => now);
+  });
+
+  it('should serve fresh values without loading again', async () => {
+    expect(await lastValueFrom(cache.get('key', load, policy))).toBe('value 1');
+    now = 999;
+    expect(await lastValueFrom(cache.get('key', load, policy))).toBe('value 1');
+    expect(loads).toBe(1);
+  });
+
+  it('should serve stale values while refreshing them in the background', async () => {
+    await lastValueFrom(cache.get('key', load, policy));
+    now = 2000;
+    expect(await lastValueFrom(cache.get('key', load, policy))).toBe('value 1');
+    expect(loads).toBe(2);
+    expect(await lastValueFrom(cache.get('key', load, policy))).toBe('value 2');
+  });
+
+  it('should load again once values have expired', async () => {
+    await lastValueFrom(cache.get('key', load, policy));
+    now = 6000;
+    expect(await lastValueFrom(cache.get('key', load, policy))).toBe('value 2');
+  });
+
+  it('should share concurrent loads of the same key', async () => {
+    const response = new Subject<string>();
+    let started = 0;
+    const slowLoad = (): Observable<string> => {
+      started++;
+      return response;
+    };
+
+    const first = lastValueFrom(cache.get('key', slowLoad, policy));
+    const second = lastValueFrom(cache.get('key', slowLoad, policy));
+    response.next('shared');
+    response.complete();
+
+    expect(await first).toBe('shared');
+    expect(await second).toBe('shared');
+    expect(started).toBe(1);
+  });
+
+  it('should not cache failures or rejected values', async () => {
+    const failing = () => throwError(() => new Error('down'));
+    await expectAsync(lastValueFrom(cache.get('key', failing, policy))).toBeRejected();
+    await lastValueFrom(cache.get('other', load, policy, () => false));
+    expect(cache.size).toBe(0);
+  });
+
+  it('should invalidate by key prefix', async () => {
+    await lastValueFrom(cache.get('tools/list:a', load, policy));
+    await lastValueFrom(cache.get('tools/call:a:x', load, policy));
+    cache.invalidate('tools/list:');
+    expect(cache.size).toBe(1);
+    cache.invalidate();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('stableStringify', () => {
+  it('should ignore the order of object keys', () => {
+    expect(stableStringify({ b: 1, a: [{ d: 2, c: 3 }] })).toBe(
+      stableStringify({ a: [{ c: 3, d: 2 }], b: 1 })
+    );
+  });
+});
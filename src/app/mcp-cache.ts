@@ -0,0 +1,118 @@
+import { Observable, defer, of } from 'rxjs';
+import { finalize, shareReplay, tap } from 'rxjs/operators';
+
+// How long a cached value is served: fresh for `ttlMs`, then served stale while it is
+// refreshed in the background for another `staleMs`; after that it is loaded again
+export interface CachePolicy {
+  ttlMs: number;
+  staleMs: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * In-memory stale-while-revalidate cache for MCP responses.
+ * Concurrent loads of the same key share one request; failed loads are not cached.
+ */
+export class McpCache {
+  private entries = new Map<string, CacheEntry>();
+  private inflight = new Map<string, Observable<unknown>>();
+
+  /**
+   * @param now clock used for expiry, replaceable in tests
+   */
+  constructor(private now: () => number = Date.now) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Serve `key` from the cache, loading it with `load` when missing or expired.
+   * Loaded values are only stored when `shouldStore` accepts them.
+   */
+  get<T>(
+    key: string,
+    load: () => Observable<T>,
+    policy: CachePolicy,
+    shouldStore: (value: T) => boolean = () => true
+  ): Observable<T> {
+    return defer(() => {
+      const entry = this.entries.get(key);
+      const age = entry ? this.now() - entry.storedAt : Infinity;
+
+      if (entry && age < policy.ttlMs) {
+        return of(entry.value as T);
+      }
+      if (entry && age < policy.ttlMs + policy.staleMs) {
+        // A failed refresh keeps the stale value until it expires
+        this.load(key, load, shouldStore).subscribe({
+          error: (error) => console.warn(`Background refresh of ${key} failed:`, error),
+        });
+        return of(entry.value as T);
+      }
+      return this.load(key, load, shouldStore);
+    });
+  }
+
+  /**
+   * Drop cached values whose key starts with `prefix`, or every value without one
+   */
+  invalidate(prefix?: string): void {
+    const matches = (key: string) => !prefix || key.startsWith(prefix);
+    for (const key of [...this.entries.keys()].filter(matches)) {
+      this.entries.delete(key);
+    }
+    for (const key of [...this.inflight.keys()].filter(matches)) {
+      this.inflight.delete(key);
+    }
+  }
+
+  private load<T>(
+    key: string,
+    load: () => Observable<T>,
+    shouldStore: (value: T) => boolean
+  ): Observable<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending as Observable<T>;
+    }
+
+    // A load still running when its key is invalidated must not store its outdated value
+    const isCurrent = () => this.inflight.get(key) === request;
+    const request: Observable<T> = load().pipe(
+      tap((value) => {
+        if (isCurrent() && shouldStore(value)) {
+          this.entries.set(key, { value, storedAt: this.now() });
+        }
+      }),
+      finalize(() => {
+        if (isCurrent()) {
+          this.inflight.delete(key);
+        }
+      }),
+      shareReplay({ bufferSize: 1, refCount: false })
+    );
+    this.inflight.set(key, request);
+    return request;
+  }
+}
+
+/**
+ * JSON with sorted object keys, so equal arguments always give the same cache key
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,137 @@
+import { provideZonelessChangeDetection } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { McpClient, MCPError } from './mcp-client';
+import {
+  MCP_RESILIENCE_POLICY,
+  MCP_SINGLE_ATTEMPT_POLICY,
+  RESILIENCE_POLICY,
+} from './resilience';
+
+describe('McpClient', () => {
+  let client: McpClient;
+  let httpTesting: HttpTestingController;
+
+  const initializeResult = {
+    protocolVersion: '2025-06-18',
+    capabilities: { tools: { listChanged: true } },
+    serverInfo: { name: 'test-server', version: '1.2.3' },
+  };
+
+  function completeHandshake() {
+    const init = httpTesting.expectOne('/api/mcp');
+    expect(init.request.body.method).toBe('initialize');
+    init.flush(JSON.stringify({ jsonrpc: '2.0', id: init.request.body.id, result: initializeResult }), {
+      headers: { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' },
+    });
+
+    const initialized = httpTesting.expectOne('/api/mcp');
+    expect(initialized.request.body.method).toBe('notifications/initialized');
+    expect(initialized.request.headers.get('Mcp-Session-Id')).toBe('session-1');
+    initialized.flush('', { status: 202, statusText: 'Accepted' });
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideZonelessChangeDetection(), provideHttpClient(), provideHttpClientTesting()],
+    });
+    httpTesting = TestBed.inject(HttpTestingController);
+    client = new McpClient(TestBed.inject(HttpClient), '/api/mcp');
+  });
+
+  afterEach(() => httpTesting.verify());
+
+  it('should initialize once and send session headers on later requests', () => {
+    let tools: any;
+    client.request('tools/list').subscribe((result) => (tools = result));
+    completeHandshake();
+
+    const list = httpTesting.expectOne('/api/mcp');
+    expect(list.request.headers.get('Mcp-Session-Id')).toBe('session-1');
+    expect(list.request.headers.get('MCP-Protocol-Version')).toBe('2025-06-18');
+    list.flush(
+      `event: message\ndata: {"jsonrpc":"2.0","id":${list.request.body.id},"result":{"tools":[]}}\n\n`,
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    );
+
+    expect(tools).toEqual({ tools: [] });
+    expect(client.serverInfo?.name).toBe('test-server');
+    expect(client.hasCapability('tools')).toBeTrue();
+    expect(client.hasCapability('prompts')).toBeFalse();
+  });
+
+  it('should pick the matching response out of a multi-event stream', () => {
+    const notifications: string[] = [];
+    client.notifications$.subscribe((notification) => notifications.push(notification.method));
+
+    let result: any;
+    client.request('tools/call', { name: 'getCompanies' }).subscribe((value) => (result = value));
+    completeHandshake();
+
+    const call = httpTesting.expectOne('/api/mcp');
+    const id = call.request.body.id;
+    call.flush(
+      [
+        'data: {"jsonrpc":"2.0","method":"notifications/tools/list_changed"}',
+        '',
+        `data: {"jsonrpc":"2.0","id":${id},"result":{"content":[]}}`,
+        '',
+        '',
+      ].join('\n'),
+      { headers: { 'Content-Type': 'text/event-stream' } }
+    );
+
+    expect(result).toEqual({ content: [] });
+    expect(notifications).toEqual(['notifications/tools/list_changed']);
+  });
+
+  it('should surface JSON-RPC errors as MCPError', () => {
+    let error: any;
+    client.request('tools/call').subscribe({ error: (e) => (error = e) });
+    completeHandshake();
+
+    const call = httpTesting.expectOne('/api/mcp');
+    call.flush(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: call.request.body.id,
+        error: { code: -32602, message: 'Unknown tool' },
+      }),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+
+    expect(error instanceof MCPError).toBeTrue();
+    expect(error.code).toBe(-32602);
+  });
+
+  it('should send a request with the policy it is given, and retry others by default', () => {
+    client.request('tools/call', { name: 'deleteCompany' }, MCP_SINGLE_ATTEMPT_POLICY).subscribe();
+    completeHandshake();
+
+    const call = httpTesting.expectOne('/api/mcp');
+    expect(call.request.context.get(RESILIENCE_POLICY)).toBe(MCP_SINGLE_ATTEMPT_POLICY);
+    call.flush(JSON.stringify({ jsonrpc: '2.0', id: call.request.body.id, result: {} }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+    client.request('tools/list').subscribe();
+    const list = httpTesting.expectOne('/api/mcp');
+    expect(list.request.context.get(RESILIENCE_POLICY)).toBe(MCP_RESILIENCE_POLICY);
+    list.flush(JSON.stringify({ jsonrpc: '2.0', id: list.request.body.id, result: {} }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  });
+
+  it('should delete the session on close', () => {
+    client.connect().subscribe();
+    completeHandshake();
+
+    client.close().subscribe();
+    const close = httpTesting.expectOne('/api/mcp');
+    expect(close.request.method).toBe('DELETE');
+    expect(close.request.headers.get('Mcp-Session-Id')).toBe('session-1');
+    close.flush('');
+    expect(client.isConnected).toBeFalse();
+  });
+});
@@ -0,0 +1,415 @@
+import { HttpClient, HttpErrorResponse, HttpHeaders, HttpResponse } from '@angular/common/http';
+import { Observable, Subject, of, throwError, defer } from 'rxjs';
+import { catchError, map, shareReplay, switchMap, tap } from 'rxjs/operators';
+import { parseSSE } from './sse';
+import { MCP_RESILIENCE_POLICY, ResiliencePolicy, resilienceContext } from './resilience';
+
+/**
+ * Protocol versions this client can speak, newest first.
+ * The first entry is offered in `initialize`; the server may answer with any of them.
+ */
+export const MCP_SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const MCP_CLIENT_INFO = {
+  name: 'angular-mcp-client',
+  version: '1.0.0',
+};
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: any;
+  error?: {
+    code: number;
+    message: string;
+    data?: any;
+  };
+}
+
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, any>;
+  [key: string]: any;
+}
+
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: {
+    name: string;
+    version: string;
+  };
+  instructions?: string;
+}
+
+// Hints a server gives about a tool's behavior; clients must not rely on them for safety
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
+export interface MCPTool {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, any>;
+  annotations?: MCPToolAnnotations;
+}
+
+export interface MCPToolsListResult {
+  tools: MCPTool[];
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string }
+    | { type: 'resource'; resource: MCPResourceContents };
+}
+
+export interface MCPGetPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/**
+ * Error returned by the MCP server in a JSON-RPC error object
+ */
+export class MCPError extends Error {
+  constructor(
+    message: string,
+    readonly code: number,
+    readonly data?: any
+  ) {
+    super(message);
+    this.name = 'MCPError';
+  }
+}
+
+/**
+ * Client for a single MCP server over the Streamable HTTP transport.
+ *
+ * Handles the session lifecycle (initialize, `notifications/initialized`,
+ * `Mcp-Session-Id` tracking, DELETE on close), correlates JSON-RPC ids and
+ * parses both `application/json` and `text/event-stream` replies.
+ */
+export class McpClient {
+  private nextId = 1;
+  private sessionId: string | null = null;
+  private negotiatedVersion: string | null = null;
+  private initializeResult: MCPInitializeResult | null = null;
+  private connection$: Observable<MCPInitializeResult> | null = null;
+
+  /**
+   * Server notifications received while waiting for responses,
+   * e.g. `notifications/tools/list_changed`
+   */
+  readonly notifications$ = new Subject<JsonRpcNotification>();
+
+  /**
+   * @param endpoint URL requests are posted to
+   * @param extraHeaders headers added to every request (e.g. proxy routing or auth headers)
+   * @param serverUrl the server this client represents, for display; defaults to `endpoint`
+   */
+  constructor(
+    private http: HttpClient,
+    readonly endpoint: string,
+    private extraHeaders: Record<string, string> = {},
+    readonly serverUrl: string = endpoint
+  ) {}
+
+  get serverInfo(): MCPInitializeResult['serverInfo'] | null {
+    return this.initializeResult?.serverInfo ?? null;
+  }
+
+  get capabilities(): MCPServerCapabilities {
+    return this.initializeResult?.capabilities ?? {};
+  }
+
+  get isConnected(): boolean {
+    return this.initializeResult !== null;
+  }
+
+  /**
+   * Check whether the server advertised a capability during initialization
+   */
+  hasCapability(capability: keyof MCPServerCapabilities): boolean {
+    return !!this.capabilities[capability];
+  }
+
+  /**
+   * Initialize the session, or reuse the one already established
+   */
+  connect(): Observable<MCPInitializeResult> {
+    if (!this.connection$) {
+      this.connection$ = this.initialize().pipe(
+        catchError((error) => {
+          this.connection$ = null;
+          return throwError(() => error);
+        }),
+        shareReplay({ bufferSize: 1, refCount: false })
+      );
+    }
+    return this.connection$;
+  }
+
+  /**
+   * Send a JSON-RPC request, initializing the session first when needed.
+   * `policy` decides how transient failures of the request itself are retried.
+   */
+  request<T = any>(
+    method: string,
+    params?: Record<string, any>,
+    policy: ResiliencePolicy = MCP_RESILIENCE_POLICY
+  ): Observable<T> {
+    return this.connect().pipe(
+      switchMap(() => this.sendRequest<T>(method, params, policy)),
+      catchError((error) => {
+        // 404 means the server dropped our session: start a new one and retry once
+        if (error instanceof HttpErrorResponse && error.status === 404 && this.sessionId) {
+          this.resetSession();
+          return this.connect().pipe(
+            switchMap(() => this.sendRequest<T>(method, params, policy))
+          );
+        }
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Send a paginated list request and gather every page into one array
+   */
+  requestAll<T>(method: string, key: string): Observable<T[]> {
+    const fetchPage = (cursor?: string): Observable<T[]> =>
+      this.request(method, cursor ? { cursor } : {}).pipe(
+        switchMap((result) => {
+          const items: T[] = result?.[key] || [];
+          if (!result?.nextCursor) {
+            return of(items);
+          }
+          return fetchPage(result.nextCursor).pipe(map((rest) => [...items, ...rest]));
+        })
+      );
+    return fetchPage();
+  }
+
+  /**
+   * Send a JSON-RPC notification (no response expected)
+   */
+  notify(method: string, params?: Record<string, any>): Observable<void> {
+    const notification: JsonRpcNotification = { jsonrpc: '2.0', method };
+    if (params) {
+      notification.params = params;
+    }
+    return this.post(notification).pipe(map(() => undefined));
+  }
+
+  /**
+   * Terminate the session on the server and forget it locally
+   */
+  close(): Observable<void> {
+    const sessionId = this.sessionId;
+    const headers = this.createHeaders(sessionId);
+    this.resetSession();
+    if (!sessionId) {
+      return of(undefined);
+    }
+
+    return this.http
+      .delete(this.endpoint, { headers, responseType: 'text' })
+      .pipe(
+        map(() => undefined),
+        // 405 means the server does not allow clients to end sessions; nothing else to do
+        catchError(() => of(undefined))
+      );
+  }
+
+  /**
+   * Best-effort session termination while the page is unloading,
+   * when HttpClient requests would be cancelled
+   */
+  closeOnUnload(): void {
+    const sessionId = this.sessionId;
+    const httpHeaders = this.createHeaders(sessionId);
+    this.resetSession();
+    if (!sessionId || typeof fetch === 'undefined') {
+      return;
+    }
+
+    const headers: Record<string, string> = {};
+    httpHeaders.keys().forEach((name) => {
+      headers[name] = httpHeaders.get(name) ?? '';
+    });
+    fetch(this.endpoint, { method: 'DELETE', headers, keepalive: true }).catch(() => undefined);
+  }
+
+  private initialize(): Observable<MCPInitializeResult> {
+    return defer(() =>
+      this.sendRequest<MCPInitializeResult>('initialize', {
+        protocolVersion: MCP_SUPPORTED_PROTOCOL_VERSIONS[0],
+        capabilities: {},
+        clientInfo: MCP_CLIENT_INFO,
+      })
+    ).pipe(
+      map((result) => {
+        if (!MCP_SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+          throw new Error(`Unsupported MCP protocol version: ${result.protocolVersion}`);
+        }
+        this.negotiatedVersion = result.protocolVersion;
+        this.initializeResult = {
+          ...result,
+          capabilities: result.capabilities || {},
+        };
+        return this.initializeResult;
+      }),
+      switchMap((result) => this.notify('notifications/initialized').pipe(map(() => result)))
+    );
+  }
+
+  private sendRequest<T>(
+    method: string,
+    params?: Record<string, any>,
+    policy = MCP_RESILIENCE_POLICY
+  ): Observable<T> {
+    const request: JsonRpcRequest = {
+      jsonrpc: '2.0',
+      id: this.nextId++,
+      method,
+      params: params || {},
+    };
+
+    return this.post(request, policy).pipe(
+      map((response) => {
+        const reply = this.extractResponse(response, request.id);
+        if (reply.error) {
+          const { message, code, data } = reply.error;
+          throw new MCPError(`MCP Error: ${message}`, code, data);
+        }
+        return reply.result as T;
+      })
+    );
+  }
+
+  private post(
+    message: JsonRpcRequest | JsonRpcNotification,
+    policy = MCP_RESILIENCE_POLICY
+  ): Observable<HttpResponse<string>> {
+    return this.http
+      .post(this.endpoint, message, {
+        headers: this.createHeaders(this.sessionId).set('Content-Type', 'application/json'),
+        context: resilienceContext(policy),
+        observe: 'response',
+        responseType: 'text',
+      })
+      .pipe(
+        tap((response) => {
+          const sessionId = response.headers.get('Mcp-Session-Id');
+          if (sessionId) {
+            this.sessionId = sessionId;
+          }
+        })
+      );
+  }
+
+  private createHeaders(sessionId: string | null): HttpHeaders {
+    let headers = new HttpHeaders({
+      ...this.extraHeaders,
+      Accept: 'application/json, text/event-stream',
+    });
+    if (sessionId) {
+      headers = headers.set('Mcp-Session-Id', sessionId);
+    }
+    if (this.negotiatedVersion) {
+      headers = headers.set('MCP-Protocol-Version', this.negotiatedVersion);
+    }
+    return headers;
+  }
+
+  /**
+   * Find the response matching `id` in a JSON or SSE body, dispatching any notifications on the way
+   */
+  private extractResponse(response: HttpResponse<string>, id: number): JsonRpcResponse {
+    const contentType = response.headers.get('Content-Type') || '';
+    const body = response.body || '';
+
+    let messages: any[];
+    if (contentType.includes('text/event-stream')) {
+      messages = parseSSE(body)
+        .filter((event) => event.data)
+        .map((event) => JSON.parse(event.data));
+    } else if (contentType.includes('application/json')) {
+      const parsed = JSON.parse(body);
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    } else {
+      throw new Error(`Unexpected MCP response content type: ${contentType || 'none'}`);
+    }
+
+    let reply: JsonRpcResponse | undefined;
+    for (const message of messages.flat()) {
+      if (message.id === id && ('result' in message || 'error' in message)) {
+        reply = message;
+      } else if (message.method && message.id === undefined) {
+        this.notifications$.next(message);
+      }
+    }
+
+    if (!reply) {
+      throw new Error(`No response for MCP request ${id}`);
+    }
+    return reply;
+  }
+
+  private resetSession(): void {
+    this.sessionId = null;
+    this.negotiatedVersion = null;
+    this.initializeResult = null;
+    this.connection$ = null;
+  }
+}
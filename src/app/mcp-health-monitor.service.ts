@@ -0,0 +1,184 @@
+import { Injectable, PLATFORM_ID, effect, inject, signal, untracked } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable, Subject, Subscription, forkJoin, of, timer } from 'rxjs';
+import { catchError, exhaustMap, finalize, map, tap, timeout } from 'rxjs/operators';
+import { ConfigService, McpServerConfig } from './config.service';
+import { McpRegistryService } from './mcp-registry.service';
+import { OpenAIService } from './openai.service';
+import { describeTraceError } from './turn-trace.service';
+
+export type HealthState = 'unknown' | 'healthy' | 'unhealthy';
+
+// One poll of a server's health endpoint
+export interface HealthSample {
+  checkedAt: number;
+  healthy: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface ServerHealth {
+  state: HealthState;
+  // Latest sample, repeated for display
+  latencyMs?: number;
+  checkedAt?: number;
+  error?: string;
+  // Recent samples, oldest first
+  history: HealthSample[];
+}
+
+// A server's health state changed between two checks
+export interface HealthChange {
+  server: McpServerConfig;
+  previous: HealthState;
+  current: HealthState;
+  sample: HealthSample;
+}
+
+export const HEALTH_HISTORY_LIMIT = 30;
+// A health endpoint that takes longer than this counts as down
+const HEALTH_CHECK_TIMEOUT_MS = 10_000;
+
+/**
+ * Add a sample to a server's health, keeping the last `limit` samples
+ */
+export function addHealthSample(
+  health: ServerHealth | undefined,
+  sample: HealthSample,
+  limit = HEALTH_HISTORY_LIMIT,
+): ServerHealth {
+  return {
+    state: sample.healthy ? 'healthy' : 'unhealthy',
+    latencyMs: sample.latencyMs,
+    checkedAt: sample.checkedAt,
+    error: sample.error,
+    history: [...(health?.history ?? []), sample].slice(-limit),
+  };
+}
+
+/**
+ * Share of recent checks that succeeded, or null before the first check
+ */
+export function healthUptime(health: ServerHealth | undefined): number | null {
+  const history = health?.history ?? [];
+  if (history.length === 0) {
+    return null;
+  }
+  return history.filter((sample) => sample.healthy).length / history.length;
+}
+
+/**
+ * Average latency of the recent successful checks
+ */
+export function averageLatency(health: ServerHealth | undefined): number | null {
+  const healthy = (health?.history ?? []).filter((sample) => sample.healthy);
+  if (healthy.length === 0) {
+    return null;
+  }
+  return Math.round(healthy.reduce((sum, sample) => sum + sample.latencyMs, 0) / healthy.length);
+}
+
+/**
+ * Polls the health endpoint of every enabled MCP server in the background, at the
+ * configured interval, and keeps the latency and a rolling history of each.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class McpHealthMonitorService {
+  private configService = inject(ConfigService);
+  private mcpRegistry = inject(McpRegistryService);
+  private openaiService = inject(OpenAIService);
+
+  private _health = signal<Record<string, ServerHealth>>({});
+  private _checking = signal(false);
+  private polling: Subscription | null = null;
+
+  readonly health = this._health.asReadonly();
+  readonly checking = this._checking.asReadonly();
+  // Emits only when a server goes from healthy to unhealthy or back, not on every check
+  readonly changes = new Subject<HealthChange>();
+
+  constructor() {
+    if (!isPlatformBrowser(inject(PLATFORM_ID))) {
+      return;
+    }
+    // Restart polling when the interval or the servers change
+    effect((onCleanup) => {
+      const interval = this.configService.config().healthCheckInterval;
+      const servers = this.mcpRegistry.enabledServers();
+      untracked(() => this.schedule(interval, servers));
+      onCleanup(() => this.polling?.unsubscribe());
+    });
+  }
+
+  getHealth(serverId: string): ServerHealth {
+    return this._health()[serverId] ?? { state: 'unknown', history: [] };
+  }
+
+  /**
+   * Check every enabled server now, outside the polling schedule
+   */
+  checkNow(): Observable<void> {
+    return this.checkAll(this.mcpRegistry.enabledServers());
+  }
+
+  private schedule(intervalSeconds: number, servers: McpServerConfig[]): void {
+    this.polling?.unsubscribe();
+    this.polling = null;
+    // Forget servers that were removed or disabled
+    const ids = servers.map((server) => server.id);
+    this._health.update((health) =>
+      Object.fromEntries(Object.entries(health).filter(([id]) => ids.includes(id)))
+    );
+    if (intervalSeconds <= 0 || servers.length === 0) {
+      return;
+    }
+    // A check still running when the next one is due is not doubled up
+    this.polling = timer(0, intervalSeconds * 1000)
+      .pipe(exhaustMap(() => this.checkAll(servers)))
+      .subscribe();
+  }
+
+  private checkAll(servers: McpServerConfig[]): Observable<void> {
+    if (servers.length === 0) {
+      return of(undefined);
+    }
+    this._checking.set(true);
+    return forkJoin(servers.map((server) => this.checkServer(server))).pipe(
+      map(() => undefined),
+      finalize(() => this._checking.set(false))
+    );
+  }
+
+  private checkServer(server: McpServerConfig): Observable<HealthSample> {
+    const startedAt = Date.now();
+    const sample = (healthy: boolean, error?: string): HealthSample => ({
+      checkedAt: Date.now(),
+      healthy,
+      latencyMs: Date.now() - startedAt,
+      error,
+    });
+
+    return this.openaiService.checkMCPHealth(server.id).pipe(
+      timeout(HEALTH_CHECK_TIMEOUT_MS),
+      map((response) =>
+        response.status === 'healthy'
+          ? sample(true)
+          : sample(false, `Health endpoint reported "${response.data?.status ?? 'unknown'}"`)
+      ),
+      catchError((error) => of(sample(false, describeTraceError(error)))),
+      tap((result) => this.record(server, result))
+    );
+  }
+
+  private record(server: McpServerConfig, sample: HealthSample): void {
+    const previous = this.getHealth(server.id).state;
+    const health = addHealthSample(this._health()[server.id], sample);
+    this._health.update((current) => ({ ...current, [server.id]: health }));
+    // The first result only establishes the state
+    if (previous !== 'unknown' && previous !== health.state) {
+      this.changes.next({ server, previous, current: health.state, sample });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  HealthSample,
+  addHealthSample,
+  averageLatency,
+  healthUptime,
+} from './mcp-health-monitor.service';
+
+describe('MCP health history', () => {
+  const sample = (checkedAt: number, healthy: boolean, latencyMs = 100): HealthSample => ({
+    checkedAt,
+    healthy,
+    latencyMs,
+    error: healthy ? undefined : 'Http failure response: 502 Bad Gateway',
+  });
+
+  it('should take the state and latency of the latest check', () => {
+    const health = addHealthSample(
+      addHealthSample(undefined, sample(1, true, 80)),
+      sample(2, false)
+    );
+
+    expect(health.state).toBe('unhealthy');
+    expect(health.checkedAt).toBe(2);
+    expect(health.error).toContain('502');
+    expect(health.history.map((entry) => entry.checkedAt)).toEqual([1, 2]);
+  });
+
+  it('should keep a rolling window of samples', () => {
+    let health = addHealthSample(undefined, sample(0, true));
+    for (let checkedAt = 1; checkedAt < 5; checkedAt++) {
+      health = addHealthSample(health, sample(checkedAt, true), 3);
+    }
+    expect(health.history.map((entry) => entry.checkedAt)).toEqual([2, 3, 4]);
+  });
+
+  it('should report uptime and the latency of successful checks', () => {
+    const health = [sample(1, true, 100), sample(2, false, 10_000), sample(3, true, 300)].reduce(
+      (current, next) => addHealthSample(current, next),
+      addHealthSample(undefined, sample(0, true, 200))
+    );
+
+    expect(healthUptime(health)).toBe(0.75);
+    expect(averageLatency(health)).toBe(200);
+    expect(healthUptime(undefined)).toBeNull();
+    expect(averageLatency({ state: 'unhealthy', history: [sample(1, false)] })).toBeNull();
+  });
+});
@@ -0,0 +1,350 @@
+import { Component, signal, input, output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { OpenAIService } from './openai.service';
+import { MCPGetPromptResult, MCPPrompt, MCPResource, MCPResourceContents } from './mcp-client';
+import { ServerScoped } from './mcp-registry.service';
+
+export interface AttachedResource {
+  uri: string;
+  name: string;
+  contents: MCPResourceContents[];
+}
+
+@Component({
+  selector: 'app-mcp-library',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <div class="library-overlay" [class.hidden]="!isVisible()">
+      <div class="library-modal">
+        <h3>MCP Library</h3>
+        <p>Browse resources and prompt templates provided by the MCP server.</p>
+
+        <div class="tabs">
+          <button
+            class="tab"
+            [class.active]="activeTab() === 'resources'"
+            (click)="activeTab.set('resources')"
+          >
+            Resources ({{ resources().length }})
+          </button>
+          <button
+            class="tab"
+            [class.active]="activeTab() === 'prompts'"
+            (click)="activeTab.set('prompts')"
+          >
+            Prompts ({{ prompts().length }})
+          </button>
+        </div>
+
+        <ul class="item-list" *ngIf="activeTab() === 'resources'">
+          <li class="item" *ngFor="let resource of resources()">
+            <div class="item-info">
+              <strong>{{ resource.title || resource.name }}</strong>
+              <small>{{ resource.serverName }} · {{ resource.uri }}</small>
+              <span *ngIf="resource.description">{{ resource.description }}</span>
+            </div>
+            <button
+              class="btn btn-primary"
+              [disabled]="loading()"
+              (click)="attachResource(resource)"
+            >
+              Attach
+            </button>
+          </li>
+          <li class="empty" *ngIf="resources().length === 0">
+            This server does not expose any resources.
+          </li>
+        </ul>
+
+        <ng-container *ngIf="activeTab() === 'prompts'">
+          <div class="prompt-form" *ngIf="selectedPrompt() as prompt; else promptList">
+            <strong>{{ prompt.title || prompt.name }}</strong>
+            <p *ngIf="prompt.description">{{ prompt.description }}</p>
+            <div class="form-group" *ngFor="let argument of prompt.arguments || []">
+              <label [for]="'arg-' + argument.name">
+                {{ argument.name }}{{ argument.required ? ' *' : '' }}
+              </label>
+              <input
+                [id]="'arg-' + argument.name"
+                class="config-input"
+                [placeholder]="argument.description || ''"
+                [(ngModel)]="promptArguments[argument.name]"
+              />
+            </div>
+            <div class="form-actions">
+              <button
+                class="btn btn-primary"
+                [disabled]="loading() || !canApplyPrompt(prompt)"
+                (click)="applyPrompt(prompt)"
+              >
+                Start conversation
+              </button>
+              <button class="btn btn-secondary" (click)="selectedPrompt.set(null)">Back</button>
+            </div>
+          </div>
+
+          <ng-template #promptList>
+            <ul class="item-list">
+              <li class="item" *ngFor="let prompt of prompts()">
+                <div class="item-info">
+                  <strong>{{ prompt.title || prompt.name }}</strong>
+                  <small>{{ prompt.serverName }}</small>
+                  <span *ngIf="prompt.description">{{ prompt.description }}</span>
+                </div>
+                <button class="btn btn-primary" (click)="selectPrompt(prompt)">Use</button>
+              </li>
+              <li class="empty" *ngIf="prompts().length === 0">
+                This server does not expose any prompts.
+              </li>
+            </ul>
+          </ng-template>
+        </ng-container>
+
+        <div class="error-text" *ngIf="error()">{{ error() }}</div>
+
+        <div class="form-actions">
+          <button class="btn btn-secondary" (click)="hide()">Close</button>
+        </div>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .library-overlay {
+      position: fixed;
+      top: 0;
+      left: 0;
+      width: 100%;
+      height: 100%;
+      background: rgba(0, 0, 0, 0.5);
+      display: flex;
+      justify-content: center;
+      align-items: center;
+      z-index: 1000;
+    }
+
+    .library-overlay.hidden {
+      display: none;
+    }
+
+    .library-modal {
+      background: white;
+      padding: 2rem;
+      border-radius: 8px;
+      box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+      max-width: 600px;
+      width: 90%;
+      max-height: 85vh;
+      overflow-y: auto;
+    }
+
+    .library-modal h3 {
+      margin: 0 0 1rem 0;
+      color: #333;
+    }
+
+    .tabs {
+      display: flex;
+      gap: 0.5rem;
+      border-bottom: 1px solid #ddd;
+      margin-bottom: 1rem;
+    }
+
+    .tab {
+      padding: 0.5rem 1rem;
+      border: none;
+      background: none;
+      cursor: pointer;
+      color: #666;
+      border-bottom: 2px solid transparent;
+    }
+
+    .tab.active {
+      color: #007bff;
+      border-bottom-color: #007bff;
+    }
+
+    .item-list {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+    }
+
+    .item {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+      gap: 1rem;
+      padding: 0.75rem 0;
+      border-bottom: 1px solid #eee;
+    }
+
+    .item-info {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      color: #333;
+      min-width: 0;
+    }
+
+    .item-info small {
+      color: #888;
+      word-break: break-all;
+    }
+
+    .empty {
+      color: #666;
+      padding: 1rem 0;
+    }
+
+    .form-group {
+      margin: 1rem 0;
+    }
+
+    .form-group label {
+      display: block;
+      margin-bottom: 0.5rem;
+      font-weight: 500;
+      color: #555;
+    }
+
+    .config-input {
+      width: 100%;
+      padding: 0.75rem;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      font-size: 1rem;
+      box-sizing: border-box;
+    }
+
+    .form-actions {
+      display: flex;
+      gap: 1rem;
+      margin: 1.5rem 0 0 0;
+    }
+
+    .btn {
+      padding: 0.5rem 1rem;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.875rem;
+      transition: background-color 0.2s;
+      flex-shrink: 0;
+    }
+
+    .btn-primary {
+      background: #007bff;
+      color: white;
+    }
+
+    .btn-primary:hover:not(:disabled) {
+      background: #0056b3;
+    }
+
+    .btn-primary:disabled {
+      background: #ccc;
+      cursor: not-allowed;
+    }
+
+    .btn-secondary {
+      background: #6c757d;
+      color: white;
+    }
+
+    .btn-secondary:hover {
+      background: #545b62;
+    }
+
+    .error-text {
+      color: #dc3545;
+      margin-top: 1rem;
+      font-size: 0.875rem;
+    }
+  `]
+})
+export class McpLibraryComponent {
+  private openaiService = inject(OpenAIService);
+
+  resources = input<ServerScoped<MCPResource>[]>([]);
+  prompts = input<ServerScoped<MCPPrompt>[]>([]);
+
+  isVisible = signal(false);
+  activeTab = signal<'resources' | 'prompts'>('resources');
+  selectedPrompt = signal<ServerScoped<MCPPrompt> | null>(null);
+  loading = signal(false);
+  error = signal('');
+  promptArguments: Record<string, string> = {};
+
+  resourceAttached = output<AttachedResource>();
+  promptApplied = output<{ prompt: MCPPrompt; result: MCPGetPromptResult }>();
+
+  show() {
+    this.isVisible.set(true);
+    this.error.set('');
+  }
+
+  hide() {
+    this.isVisible.set(false);
+    this.selectedPrompt.set(null);
+  }
+
+  attachResource(resource: ServerScoped<MCPResource>) {
+    this.loading.set(true);
+    this.error.set('');
+
+    this.openaiService.readMCPResource(resource.uri, resource.serverId).subscribe({
+      next: (contents) => {
+        this.loading.set(false);
+        this.resourceAttached.emit({
+          uri: resource.uri,
+          name: resource.title || resource.name,
+          contents
+        });
+        this.hide();
+      },
+      error: (error) => {
+        this.loading.set(false);
+        this.error.set(`Could not read ${resource.uri}: ${error.message || 'unknown error'}`);
+      }
+    });
+  }
+
+  selectPrompt(prompt: ServerScoped<MCPPrompt>) {
+    this.promptArguments = {};
+    this.error.set('');
+    this.selectedPrompt.set(prompt);
+  }
+
+  canApplyPrompt(prompt: MCPPrompt): boolean {
+    return (prompt.arguments || []).every(
+      (argument) => !argument.required || !!this.promptArguments[argument.name]?.trim()
+    );
+  }
+
+  applyPrompt(prompt: ServerScoped<MCPPrompt>) {
+    this.loading.set(true);
+    this.error.set('');
+
+    // Only send arguments that were filled in
+    const args: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.promptArguments)) {
+      if (value?.trim()) {
+        args[name] = value.trim();
+      }
+    }
+
+    this.openaiService.getMCPPrompt(prompt.name, args, prompt.serverId).subscribe({
+      next: (result) => {
+        this.loading.set(false);
+        this.promptApplied.emit({ prompt, result });
+        this.hide();
+      },
+      error: (error) => {
+        this.loading.set(false);
+        this.error.set(`Could not load prompt ${prompt.name}: ${error.message || 'unknown error'}`);
+      }
+    });
+  }
+}
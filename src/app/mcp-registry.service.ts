@@ -0,0 +1,572 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { Observable, defer, forkJoin, of, throwError } from 'rxjs';
+import { catchError, finalize, map, switchMap, tap } from 'rxjs/operators';
+import { ConfigService, MCP_PROXY_PATH, McpServerConfig } from './config.service';
+import {
+  McpClient,
+  MCPError,
+  MCPInitializeResult,
+  MCPPrompt,
+  MCPResource,
+  MCPTool,
+  MCPToolsListResult,
+} from './mcp-client';
+import { CachePolicy, McpCache, stableStringify } from './mcp-cache';
+import { TurnTraceService, describeTraceError } from './turn-trace.service';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  MCP_RESILIENCE_POLICY,
+  MCP_SINGLE_ATTEMPT_POLICY,
+  ResiliencePolicy,
+} from './resilience';
+
+// 'Paused': the server failed repeatedly and is skipped until its circuit breaker cools down
+export type McpServerState = 'Unknown' | 'Checking...' | 'Healthy' | 'Unavailable' | 'Paused';
+
+export interface McpServerStatus {
+  state: McpServerState;
+  serverInfo?: MCPInitializeResult['serverInfo'];
+  protocolVersion?: string;
+  toolCount?: number;
+  error?: string;
+  // When a paused server is tried again
+  retryAt?: number;
+}
+
+// A tool as presented to the model: its name is prefixed with the id of the server providing it
+export interface NamespacedTool extends MCPTool {
+  serverId: string;
+  toolName: string;
+}
+
+export interface McpInitializeOutcome {
+  server: McpServerConfig;
+  result?: MCPInitializeResult;
+  error?: any;
+}
+
+// Result of trying a server's settings, which may not be saved yet
+export interface McpConnectionTest {
+  serverInfo: MCPInitializeResult['serverInfo'];
+  protocolVersion: string;
+  toolCount: number;
+}
+
+export type ServerScoped<T> = T & { serverId: string; serverName: string };
+
+// Tool lists rarely change, and servers announce changes with `notifications/tools/list_changed`
+export const TOOLS_CACHE_POLICY: CachePolicy = { ttlMs: 5 * 60_000, staleMs: 30 * 60_000 };
+// Results of read-only tools, such as the company dataset
+export const TOOL_RESULT_CACHE_POLICY: CachePolicy = { ttlMs: 2 * 60_000, staleMs: 10 * 60_000 };
+
+export interface CallToolOptions {
+  // Serve the result from the cache; read-only tools are cached unless this is false
+  cache?: boolean;
+}
+
+/**
+ * Why a server could not be reached, with a hint for the usual setup problems
+ */
+export function describeConnectionError(error: any): string {
+  switch (error?.status) {
+    case 0:
+      return 'No response; the server may be down or blocked by CORS.';
+    case 403:
+      return 'The server proxy does not allow this host. Add it to MCP_ALLOWED_HOSTS.';
+    case 404:
+      return 'Not found. Check the proxy configuration and that the MCP server is running.';
+    case 406:
+      return 'Not Acceptable. Check the MCP server configuration.';
+  }
+  if (error?.status) {
+    return `Error ${error.status} ${error.statusText ?? ''}`.trim() + '.';
+  }
+  return error?.message || String(error);
+}
+
+/**
+ * Keeps one MCP client per configured server, tracks their status and
+ * aggregates their tools under server-prefixed names.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class McpRegistryService {
+  static readonly TOOL_SEPARATOR = '__';
+
+  // All MCP traffic goes through the server proxy to avoid CORS issues
+  private readonly proxyUrl = MCP_PROXY_PATH;
+  private http = inject(HttpClient);
+  private configService = inject(ConfigService);
+  private turnTrace = inject(TurnTraceService);
+
+  private clients = new Map<string, { key: string; client: McpClient }>();
+  private toolIndex = new Map<string, NamespacedTool>();
+  private cache = new McpCache();
+  private breakers = new Map<string, CircuitBreaker>();
+  private _statuses = signal<Record<string, McpServerStatus>>({});
+  private _cacheClearedAt = signal<number | null>(null);
+
+  readonly statuses = this._statuses.asReadonly();
+  // When the cache was last invalidated, by the user or by a server
+  readonly cacheClearedAt = this._cacheClearedAt.asReadonly();
+  readonly enabledServers = computed(() =>
+    this.configService.config().mcpServers.filter((server) => server.enabled)
+  );
+
+  // Overall state for the header: healthy when at least one enabled server is
+  readonly overallStatus = computed<McpServerState>(() => {
+    const states = this.enabledServers().map(
+      (server) => this._statuses()[server.id]?.state ?? 'Unknown'
+    );
+    if (states.length === 0) {
+      return 'Unavailable';
+    }
+    if (states.includes('Healthy')) {
+      return 'Healthy';
+    }
+    if (states.includes('Checking...')) {
+      return 'Checking...';
+    }
+    if (states.includes('Paused')) {
+      return 'Paused';
+    }
+    return states.every((state) => state === 'Unknown') ? 'Unknown' : 'Unavailable';
+  });
+
+  getStatus(serverId: string): McpServerStatus {
+    return this._statuses()[serverId] ?? { state: 'Unknown' };
+  }
+
+  /**
+   * Client for a server, recreated when its URL or headers change
+   */
+  getClient(server: McpServerConfig): McpClient {
+    const key = JSON.stringify([server.url, server.headers]);
+    const existing = this.clients.get(server.id);
+    if (existing && existing.key === key) {
+      return existing.client;
+    }
+
+    existing?.client.close().subscribe();
+    if (existing) {
+      this.invalidateServer(server.id);
+    }
+    const headers = this.getRequestHeaders(server);
+    const client = new McpClient(this.http, this.proxyUrl, headers, server.url);
+    client.notifications$.subscribe((notification) => {
+      if (notification.method === 'notifications/tools/list_changed') {
+        this.invalidateServer(server.id);
+      }
+    });
+    this.clients.set(server.id, { key, client });
+    return client;
+  }
+
+  /**
+   * The first enabled server, used for requests that do not name a server
+   */
+  getDefaultServer(): McpServerConfig | undefined {
+    return this.enabledServers()[0];
+  }
+
+  getServer(serverId?: string): McpServerConfig | undefined {
+    if (!serverId) {
+      return this.getDefaultServer();
+    }
+    return this.enabledServers().find((server) => server.id === serverId);
+  }
+
+  /**
+   * Start a fresh session with every enabled server
+   */
+  initializeAll(): Observable<McpInitializeOutcome[]> {
+    const servers = this.enabledServers();
+    if (servers.length === 0) {
+      return of([]);
+    }
+    return forkJoin(
+      servers.map((server) =>
+        this.initialize(server).pipe(
+          map((result): McpInitializeOutcome => ({ server, result })),
+          catchError((error) => of<McpInitializeOutcome>({ server, error }))
+        )
+      )
+    );
+  }
+
+  /**
+   * Start a fresh session with one server
+   */
+  initialize(server: McpServerConfig): Observable<MCPInitializeResult> {
+    const client = this.getClient(server);
+    this.setStatus(server.id, { state: 'Checking...' });
+    // The new session may offer different tools
+    this.invalidateServer(server.id);
+
+    return client.close().pipe(
+      switchMap(() => client.connect()),
+      tap((result) => {
+        // An explicit check always reaches the server, and closes its circuit when it answers
+        this.getBreaker(server.id).recordSuccess();
+        this.setStatus(server.id, {
+          state: 'Healthy',
+          serverInfo: result.serverInfo,
+          protocolVersion: result.protocolVersion,
+        });
+      }),
+      catchError((error) => {
+        this.markUnavailable(server.id, error);
+        this.recordFailure(server.id, error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Send a JSON-RPC request to one server (the default one when no id is given)
+   */
+  request<T = any>(
+    method: string,
+    params?: Record<string, any>,
+    serverId?: string,
+    policy: ResiliencePolicy = MCP_RESILIENCE_POLICY
+  ): Observable<T> {
+    const server = this.getServer(serverId);
+    if (!server) {
+      return throwError(() => new Error(`MCP server not available: ${serverId ?? 'none enabled'}`));
+    }
+    const client = this.getClient(server);
+    const request = this.guard(server.id, client.request<T>(method, params, policy));
+    return this.turnTrace
+      .track(request, ({ value, error, startedAt, durationMs }) => ({
+        kind: 'mcp',
+        serverId: server.id,
+        method,
+        params,
+        startedAt,
+        durationMs,
+        result: value,
+        error: error ? describeTraceError(error) : undefined,
+      }))
+      .pipe(
+        catchError((error) => {
+          this.recordFailure(server.id, error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  /**
+   * List the tools of every enabled server with server-prefixed names, from the cache
+   * while it is fresh. Servers that fail are skipped; the call only fails when none responds.
+   */
+  listTools(): Observable<MCPToolsListResult> {
+    const servers = this.enabledServers();
+    if (servers.length === 0) {
+      return throwError(() => new Error('No MCP servers enabled'));
+    }
+
+    // Every server is paused: fail at once, so the turn goes ahead without MCP
+    const paused = servers.map((server) => this.getBreaker(server.id));
+    if (paused.every((breaker) => !breaker.allowsRequests())) {
+      const retryAt = Math.min(...paused.map((breaker) => breaker.retryAt ?? Date.now()));
+      return throwError(
+        () => new CircuitOpenError('MCP servers are paused after repeated failures', retryAt)
+      );
+    }
+
+    const key = `tools/list:${servers.map((server) => server.id).join(',')}`;
+    return this.cache.get(key, () => this.fetchTools(servers), TOOLS_CACHE_POLICY);
+  }
+
+  private fetchTools(servers: McpServerConfig[]): Observable<MCPToolsListResult> {
+    return forkJoin(
+      servers.map((server) =>
+        this.guard(server.id, this.getClient(server).requestAll<MCPTool>('tools/list', 'tools'))
+          .pipe(
+            map((tools) => {
+              const current = this.getStatus(server.id);
+              this.setStatus(server.id, {
+                ...current,
+                state: 'Healthy',
+                toolCount: tools.length,
+                error: undefined,
+                retryAt: undefined,
+              });
+              return tools.map((tool) => this.namespaceTool(server, tool));
+            }),
+            catchError((error) => {
+              this.recordFailure(server.id, error);
+              return of(null);
+            })
+          )
+      )
+    ).pipe(
+      map((results) => {
+        if (results.every((tools) => tools === null)) {
+          throw new Error('No MCP server responded to tools/list');
+        }
+
+        const tools = results.flatMap((serverTools) => serverTools ?? []);
+        this.toolIndex = new Map(tools.map((tool) => [tool.name, tool]));
+        return { tools };
+      })
+    );
+  }
+
+  /**
+   * Call a tool by its namespaced name, or by its plain name on whichever server provides it.
+   * Results of read-only tools, and of calls asking for it, are cached per tool and arguments;
+   * `cache: false` always reaches the server.
+   */
+  callTool(
+    name: string,
+    args?: Record<string, any>,
+    options: CallToolOptions = {}
+  ): Observable<any> {
+    return this.resolveTool(name).pipe(
+      switchMap((tool) => {
+        const params = { name: tool.toolName, arguments: args || {} };
+        // A retried call may run twice, which only tools declared safe to repeat can afford
+        const { readOnlyHint, idempotentHint } = tool.annotations ?? {};
+        const policy =
+          readOnlyHint || idempotentHint ? MCP_RESILIENCE_POLICY : MCP_SINGLE_ATTEMPT_POLICY;
+        let requested = false;
+        const call = () => {
+          requested = true;
+          return this.request('tools/call', params, tool.serverId, policy);
+        };
+        if (!(options.cache ?? readOnlyHint)) {
+          return call();
+        }
+        const key = `tools/call:${tool.serverId}:${tool.toolName}:${stableStringify(args || {})}`;
+        // Error results describe a failed call and are not worth keeping
+        return this.cache
+          .get(key, call, TOOL_RESULT_CACHE_POLICY, (result) => !result?.isError)
+          .pipe(
+            tap((result) => {
+              // Served from the cache: no request to trace, but the inspector should show it
+              if (!requested) {
+                this.turnTrace.recordNow({
+                  kind: 'mcp',
+                  serverId: tool.serverId,
+                  method: 'tools/call',
+                  params,
+                  startedAt: Date.now(),
+                  durationMs: 0,
+                  result,
+                  cached: true,
+                });
+              }
+            })
+          );
+      })
+    );
+  }
+
+  /**
+   * Drop every cached tool list and tool result
+   */
+  invalidateCache(): void {
+    this.cache.invalidate();
+    this.toolIndex.clear();
+    this._cacheClearedAt.set(Date.now());
+  }
+
+  /**
+   * Gather resources or prompts from every enabled server that supports them
+   */
+  listAcrossServers<T extends MCPResource | MCPPrompt>(
+    capability: 'resources' | 'prompts'
+  ): Observable<ServerScoped<T>[]> {
+    const servers = this.enabledServers();
+    if (servers.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(
+      servers.map((server) => {
+        const client = this.getClient(server);
+        return this.guard(server.id, client.connect()).pipe(
+          switchMap(() =>
+            client.hasCapability(capability)
+              ? client.requestAll<T>(`${capability}/list`, capability)
+              : of<T[]>([])
+          ),
+          map((items) =>
+            items.map((item) => ({ ...item, serverId: server.id, serverName: server.name }))
+          ),
+          catchError(() => of<ServerScoped<T>[]>([]))
+        );
+      })
+    ).pipe(map((results) => results.flat()));
+  }
+
+  /**
+   * Query a server's health endpoint through the proxy
+   */
+  checkHealth(server: McpServerConfig): Observable<any> {
+    const headers = new HttpHeaders(this.getRequestHeaders(server));
+    return this.http.get(`${this.proxyUrl}/health`, { headers });
+  }
+
+  /**
+   * Initialize a throwaway session with a server, count its tools and end the session
+   * again; the registered clients, their status and the cache are left alone
+   */
+  testConnection(server: McpServerConfig): Observable<McpConnectionTest> {
+    const headers = this.getRequestHeaders(server);
+    const client = new McpClient(this.http, this.proxyUrl, headers, server.url);
+    return client.connect().pipe(
+      switchMap((result) => {
+        const tools = client.hasCapability('tools')
+          ? client.requestAll<MCPTool>('tools/list', 'tools')
+          : of([]);
+        return tools.pipe(
+          map((list) => ({
+            serverInfo: result.serverInfo,
+            protocolVersion: result.protocolVersion,
+            toolCount: list.length,
+          }))
+        );
+      }),
+      finalize(() => client.close().subscribe())
+    );
+  }
+
+  /**
+   * End every open session
+   */
+  closeAll(unloading = false): void {
+    for (const { client } of this.clients.values()) {
+      if (unloading) {
+        client.closeOnUnload();
+      } else {
+        client.close().subscribe();
+      }
+    }
+  }
+
+  private resolveTool(name: string): Observable<NamespacedTool> {
+    const lookup = () => {
+      const tool =
+        this.toolIndex.get(name) ??
+        [...this.toolIndex.values()].find((candidate) => candidate.toolName === name);
+      if (!tool) {
+        throw new Error(`Unknown MCP tool: ${name}`);
+      }
+      return tool;
+    };
+
+    if (this.toolIndex.size > 0) {
+      return of(null).pipe(map(lookup));
+    }
+    return this.listTools().pipe(map(lookup));
+  }
+
+  private namespaceTool(server: McpServerConfig, tool: MCPTool): NamespacedTool {
+    return {
+      ...tool,
+      name: `${server.id}${McpRegistryService.TOOL_SEPARATOR}${tool.name}`,
+      description: `[${server.name}] ${tool.description || ''}`.trim(),
+      serverId: server.id,
+      toolName: tool.name,
+    };
+  }
+
+  // Absolute server URLs are reached through the proxy's X-MCP-Target header;
+  // the proxy's own path uses its configured upstream
+  private getRequestHeaders(server: McpServerConfig): Record<string, string> {
+    const headers = { ...server.headers };
+    if (/^https?:\/\//i.test(server.url)) {
+      headers['X-MCP-Target'] = server.url;
+    }
+    return headers;
+  }
+
+  // A server's tools changed: its tool results and the aggregated tool lists are outdated
+  private invalidateServer(serverId: string): void {
+    this.cache.invalidate('tools/list:');
+    this.cache.invalidate(`tools/call:${serverId}:`);
+    this.toolIndex.clear();
+    this._cacheClearedAt.set(Date.now());
+  }
+
+  private getBreaker(serverId: string): CircuitBreaker {
+    let breaker = this.breakers.get(serverId);
+    if (!breaker) {
+      breaker = new CircuitBreaker();
+      this.breakers.set(serverId, breaker);
+    }
+    return breaker;
+  }
+
+  // Send a request through the server's circuit breaker: while it is open the request fails
+  // without reaching the server, and an answer to the probe after the cool-down closes it again
+  private guard<T>(serverId: string, request: Observable<T>): Observable<T> {
+    return defer(() => {
+      const breaker = this.getBreaker(serverId);
+      const probe = breaker.state === 'half-open';
+      if (!breaker.tryRequest()) {
+        return throwError(
+          () => new CircuitOpenError(`MCP server ${serverId} is paused`, breaker.retryAt!)
+        );
+      }
+      return request.pipe(
+        // JSON-RPC errors and cancelled requests record nothing, so the next request probes
+        finalize(() => probe && breaker.endProbe()),
+        tap(() => {
+          const recovering = breaker.state !== 'closed';
+          breaker.recordSuccess();
+          if (recovering && this.getStatus(serverId).state === 'Paused') {
+            const current = this.getStatus(serverId);
+            this.setStatus(serverId, {
+              ...current,
+              state: 'Healthy',
+              error: undefined,
+              retryAt: undefined,
+            });
+          }
+        })
+      );
+    });
+  }
+
+  // JSON-RPC errors come from a working server; only transport failures count against it
+  private recordFailure(serverId: string, error: any): void {
+    if (error instanceof MCPError || error instanceof CircuitOpenError) {
+      return;
+    }
+    const breaker = this.getBreaker(serverId);
+    breaker.recordFailure();
+    if (breaker.allowsRequests()) {
+      this.markUnavailable(serverId, error);
+      return;
+    }
+    const retryAt = breaker.retryAt!;
+    const until = new Date(retryAt).toLocaleTimeString();
+    const current = this.getStatus(serverId);
+    this.setStatus(serverId, {
+      ...current,
+      state: 'Paused',
+      error: `${describeConnectionError(error)} (paused until ${until})`,
+      retryAt,
+    });
+  }
+
+  private markUnavailable(serverId: string, error: any): void {
+    const current = this.getStatus(serverId);
+    this.setStatus(serverId, {
+      ...current,
+      state: 'Unavailable',
+      error: describeConnectionError(error),
+    });
+  }
+
+  private setStatus(serverId: string, status: McpServerStatus): void {
+    this._statuses.update((statuses) => ({ ...statuses, [serverId]: status }));
+  }
+}
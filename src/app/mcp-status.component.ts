@@ -0,0 +1,322 @@
+import { Component, inject, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConfigService } from './config.service';
+import { McpRegistryService } from './mcp-registry.service';
+import {
+  HealthSample,
+  McpHealthMonitorService,
+  averageLatency,
+  healthUptime
+} from './mcp-health-monitor.service';
+
+/**
+ * MCP status in the header: the overall state, and a popover with each server's session
+ * state, health checks, latency and recent history
+ */
+@Component({
+  selector: 'app-mcp-status',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <span class="mcp-status">
+      <button
+        type="button"
+        class="status-trigger"
+        [class.open]="isOpen()"
+        (click)="isOpen.set(!isOpen())"
+        title="Show MCP server status">
+        <span class="status-dot" [attr.data-state]="mcpRegistry.overallStatus()"></span>
+        MCP: {{ mcpRegistry.overallStatus() }}
+      </button>
+
+      <div class="status-popover" *ngIf="isOpen()">
+        <div class="popover-header">
+          <strong>MCP servers</strong>
+          <button type="button" class="popover-close" (click)="isOpen.set(false)" title="Close">
+            ×
+          </button>
+        </div>
+
+        <p class="popover-empty" *ngIf="!mcpRegistry.enabledServers().length">
+          No MCP servers are enabled. Add or enable one in the settings.
+        </p>
+
+        <div class="server-health" *ngFor="let server of mcpRegistry.enabledServers()">
+          <div class="server-title">
+            <strong>{{ server.name }}</strong>
+            <span class="server-url">{{ server.url }}</span>
+          </div>
+          <dl>
+            <dt>Session</dt>
+            <dd>
+              {{ mcpRegistry.getStatus(server.id).state }}
+              <ng-container *ngIf="mcpRegistry.getStatus(server.id).serverInfo as info">
+                · {{ info.name }} {{ info.version }}
+              </ng-container>
+              <ng-container *ngIf="mcpRegistry.getStatus(server.id).toolCount !== undefined">
+                · {{ mcpRegistry.getStatus(server.id).toolCount }} tools
+              </ng-container>
+            </dd>
+            <ng-container *ngIf="healthMonitor.getHealth(server.id) as health">
+              <dt>Health</dt>
+              <dd>
+                <span class="health-state" [attr.data-state]="health.state">
+                  {{ health.state }}
+                </span>
+                <ng-container *ngIf="health.latencyMs !== undefined && health.state === 'healthy'">
+                  · {{ health.latencyMs }} ms
+                </ng-container>
+                <ng-container *ngIf="health.checkedAt">
+                  · checked {{ health.checkedAt | date: 'mediumTime' }}
+                </ng-container>
+              </dd>
+              <ng-container *ngIf="health.history.length">
+                <dt>Recent</dt>
+                <dd>
+                  <span class="health-history">
+                    <span
+                      class="history-bar"
+                      *ngFor="let sample of health.history"
+                      [class.down]="!sample.healthy"
+                      [style.height.%]="barHeight(sample)"
+                      [title]="sampleTitle(sample)"></span>
+                  </span>
+                  {{ uptime(server.id) }}% up
+                  <ng-container *ngIf="averageLatencyOf(server.id) !== null">
+                    · avg {{ averageLatencyOf(server.id) }} ms
+                  </ng-container>
+                </dd>
+              </ng-container>
+            </ng-container>
+          </dl>
+          <p class="server-error" *ngIf="mcpRegistry.getStatus(server.id).error as error">
+            {{ error }}
+          </p>
+          <p class="server-error" *ngIf="healthMonitor.getHealth(server.id).error as error">
+            Health check: {{ error }}
+          </p>
+        </div>
+
+        <div class="popover-actions">
+          <span class="popover-note">
+            {{ interval() ? 'Checked every ' + interval() + 's' : 'Background checks are off' }}
+          </span>
+          <button
+            type="button"
+            [disabled]="healthMonitor.checking()"
+            (click)="healthMonitor.checkNow().subscribe()">
+            {{ healthMonitor.checking() ? 'Checking...' : 'Check now' }}
+          </button>
+          <button type="button" (click)="reconnect.emit()">Reconnect</button>
+        </div>
+      </div>
+    </span>
+  `,
+  styles: [`
+    .mcp-status {
+      position: relative;
+      display: inline-block;
+    }
+
+    .status-trigger {
+      display: inline-flex;
+      align-items: center;
+      gap: 0.375rem;
+      background: none;
+      border: none;
+      padding: 0;
+      color: inherit;
+      font: inherit;
+      cursor: pointer;
+    }
+
+    .status-trigger:hover,
+    .status-trigger.open {
+      text-decoration: underline;
+    }
+
+    .status-dot {
+      width: 0.5rem;
+      height: 0.5rem;
+      border-radius: 50%;
+      background: var(--text-secondary);
+    }
+
+    .status-dot[data-state='Healthy'] {
+      background: #16a34a;
+    }
+
+    .status-dot[data-state='Unavailable'] {
+      background: #dc2626;
+    }
+
+    .status-dot[data-state='Paused'] {
+      background: #d97706;
+    }
+
+    .status-popover {
+      position: absolute;
+      top: calc(100% + 0.375rem);
+      left: 0;
+      z-index: 30;
+      width: min(24rem, 90vw);
+      max-height: 70vh;
+      overflow-y: auto;
+      padding: 0.75rem;
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      box-shadow: var(--shadow-lg);
+      color: var(--text-primary);
+      font-size: 0.8125rem;
+      text-align: left;
+    }
+
+    .popover-header,
+    .popover-actions {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .popover-header {
+      justify-content: space-between;
+      margin-bottom: 0.5rem;
+    }
+
+    .popover-close {
+      background: none;
+      border: none;
+      font-size: 1.125rem;
+      line-height: 1;
+      color: var(--text-secondary);
+      cursor: pointer;
+    }
+
+    .popover-empty {
+      margin: 0 0 0.5rem 0;
+      color: var(--text-secondary);
+    }
+
+    .server-health {
+      padding: 0.5rem 0;
+      border-top: 1px solid var(--border);
+    }
+
+    .server-title {
+      display: flex;
+      flex-direction: column;
+    }
+
+    .server-url {
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+      word-break: break-all;
+    }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto 1fr;
+      gap: 0.25rem 0.75rem;
+      margin: 0.5rem 0 0 0;
+    }
+
+    dt {
+      color: var(--text-secondary);
+    }
+
+    dd {
+      margin: 0;
+    }
+
+    .health-state[data-state='healthy'] {
+      color: #16a34a;
+    }
+
+    .health-state[data-state='unhealthy'] {
+      color: #dc2626;
+    }
+
+    .health-history {
+      display: inline-flex;
+      align-items: flex-end;
+      gap: 1px;
+      height: 1rem;
+      margin-right: 0.375rem;
+      vertical-align: middle;
+    }
+
+    .history-bar {
+      width: 3px;
+      min-height: 20%;
+      background: #16a34a;
+    }
+
+    .history-bar.down {
+      background: #dc2626;
+    }
+
+    .server-error {
+      margin: 0.375rem 0 0 0;
+      color: #b91c1c;
+      font-size: 0.75rem;
+    }
+
+    .popover-actions {
+      padding-top: 0.5rem;
+      border-top: 1px solid var(--border);
+    }
+
+    .popover-note {
+      flex: 1;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+    }
+
+    .popover-actions button {
+      border: 1px solid var(--border);
+      border-radius: 0.375rem;
+      padding: 0.25rem 0.625rem;
+      background: var(--surface);
+      color: var(--text-primary);
+      cursor: pointer;
+    }
+
+    .popover-actions button:disabled {
+      opacity: 0.6;
+      cursor: default;
+    }
+  `]
+})
+export class McpStatusComponent {
+  protected mcpRegistry = inject(McpRegistryService);
+  protected healthMonitor = inject(McpHealthMonitorService);
+  private configService = inject(ConfigService);
+
+  // Start new MCP sessions with every server
+  reconnect = output<void>();
+
+  isOpen = signal(false);
+
+  interval(): number {
+    return this.configService.config().healthCheckInterval;
+  }
+
+  uptime(serverId: string): number {
+    return Math.round((healthUptime(this.healthMonitor.getHealth(serverId)) ?? 0) * 100);
+  }
+
+  averageLatencyOf(serverId: string): number | null {
+    return averageLatency(this.healthMonitor.getHealth(serverId));
+  }
+
+  // Failed checks are drawn full height; successful ones by latency, capped at a second
+  barHeight(sample: HealthSample): number {
+    return sample.healthy ? Math.min(100, 20 + (sample.latencyMs / 1000) * 80) : 100;
+  }
+
+  sampleTitle(sample: HealthSample): string {
+    const time = new Date(sample.checkedAt).toLocaleTimeString();
+    return `${time}: ${sample.healthy ? sample.latencyMs + ' ms' : (sample.error ?? 'down')}`;
+  }
+}
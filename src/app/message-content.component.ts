@@ -0,0 +1,284 @@
+import { Component, computed, effect, inject, input, signal, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MarkdownComponent } from './markdown.component';
+import { OpenAIService } from './openai.service';
+import { Company } from './company-models';
+import {
+  ComparisonRow,
+  MessageBlock,
+  ResolvedCompanies,
+  comparisonRows,
+  parseMessageBlocks,
+  resolveCompanies
+} from './company-blocks';
+
+// A block ready for display; company blocks without data fall back to their raw text
+type BlockView =
+  | { type: 'markdown'; text: string }
+  | {
+      type: 'cards' | 'comparison';
+      raw: string;
+      resolved: ResolvedCompanies | null;
+      rows: ComparisonRow[];
+    };
+
+/**
+ * Body of a bot message: Markdown, with the company blocks the model asked for rendered
+ * as cards and comparison tables from the MCP company data
+ */
+@Component({
+  selector: 'app-message-content',
+  standalone: true,
+  imports: [CommonModule, MarkdownComponent],
+  template: `
+    <ng-container *ngFor="let view of views(); let i = index">
+      <app-markdown *ngIf="view.type === 'markdown'" [content]="markdownOf(view)"></app-markdown>
+
+      <div class="company-block" *ngIf="companyBlock(view) as block">
+        <ng-container *ngIf="block.resolved?.companies?.length && !showsRaw(i); else rawBlock">
+          <div class="company-cards" *ngIf="block.type === 'cards'">
+            <div class="company-card" *ngFor="let company of block.resolved!.companies">
+              <h4>{{ company.company }}</h4>
+              <p class="company-description" *ngIf="company.description">
+                {{ company.description }}
+              </p>
+              <div class="company-section" *ngIf="company.chats.length">
+                <span class="section-label">Chatbots</span>
+                <div class="chip-row">
+                  <span class="company-chip" *ngFor="let chat of company.chats">
+                    {{ chat.chatbot }}
+                  </span>
+                </div>
+              </div>
+              <div class="company-section" *ngIf="company.llms.length">
+                <span class="section-label">LLM models</span>
+                <ul class="llm-list">
+                  <li *ngFor="let llm of company.llms">
+                    <strong>{{ llm.llm }}</strong>
+                    <span *ngIf="llm.specialization"> — {{ llm.specialization }}</span>
+                  </li>
+                </ul>
+              </div>
+            </div>
+          </div>
+
+          <div class="comparison-wrapper" *ngIf="block.type === 'comparison'">
+            <table class="comparison-table">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th *ngFor="let company of block.resolved!.companies">{{ company.company }}</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr *ngFor="let row of block.rows">
+                  <th>{{ row.label }}</th>
+                  <td *ngFor="let cell of row.cells">{{ cell }}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div class="block-footer">
+            <span *ngIf="block.resolved!.missing.length">
+              Not in the dataset: {{ block.resolved!.missing.join(', ') }}
+            </span>
+            <button class="raw-toggle" (click)="toggleRaw(i)">Show as text</button>
+          </div>
+        </ng-container>
+
+        <ng-template #rawBlock>
+          <app-markdown [content]="block.raw"></app-markdown>
+          <div class="block-footer">
+            <span *ngIf="!block.resolved && !loadFailed()">Loading company data...</span>
+            <span *ngIf="loadFailed()">Company data is unavailable.</span>
+            <button
+              *ngIf="block.resolved?.companies?.length"
+              class="raw-toggle"
+              (click)="toggleRaw(i)"
+            >
+              Show {{ block.type === 'cards' ? 'cards' : 'table' }}
+            </button>
+          </div>
+        </ng-template>
+      </div>
+    </ng-container>
+  `,
+  styles: [`
+    .company-block {
+      margin: 0.75rem 0;
+    }
+
+    .company-cards {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+      gap: 0.75rem;
+    }
+
+    .company-card {
+      border: 1px solid var(--border);
+      border-radius: 8px;
+      padding: 0.75rem;
+      background: var(--background);
+    }
+
+    .company-card h4 {
+      margin: 0 0 0.375rem 0;
+      font-size: 1rem;
+    }
+
+    .company-description {
+      margin: 0 0 0.5rem 0;
+      font-size: 0.875rem;
+      color: var(--text-secondary);
+    }
+
+    .company-section {
+      margin-top: 0.5rem;
+    }
+
+    .section-label {
+      display: block;
+      margin-bottom: 0.25rem;
+      font-size: 0.75rem;
+      font-weight: 600;
+      text-transform: uppercase;
+      color: var(--text-secondary);
+    }
+
+    .chip-row {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 0.25rem;
+    }
+
+    .company-chip {
+      padding: 0.125rem 0.5rem;
+      border-radius: 999px;
+      background: #eff6ff;
+      color: var(--primary-color);
+      font-size: 0.75rem;
+    }
+
+    .llm-list {
+      margin: 0;
+      padding-left: 1rem;
+      font-size: 0.8125rem;
+    }
+
+    .comparison-wrapper {
+      overflow-x: auto;
+    }
+
+    .comparison-table {
+      border-collapse: collapse;
+      font-size: 0.875rem;
+    }
+
+    .comparison-table th,
+    .comparison-table td {
+      border: 1px solid var(--border);
+      padding: 0.375rem 0.625rem;
+      text-align: left;
+      vertical-align: top;
+      white-space: pre-line;
+    }
+
+    .comparison-table thead th,
+    .comparison-table tbody th {
+      background: var(--background);
+      font-weight: 600;
+    }
+
+    .block-footer {
+      display: flex;
+      gap: 0.75rem;
+      align-items: center;
+      margin-top: 0.375rem;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+    }
+
+    .raw-toggle {
+      margin-left: auto;
+      background: none;
+      border: none;
+      padding: 0;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+      text-decoration: underline;
+      cursor: pointer;
+    }
+  `]
+})
+export class MessageContentComponent {
+  private openaiService = inject(OpenAIService);
+
+  content = input('');
+
+  // Blocks the user switched to their raw text, by index
+  private rawBlocks = signal<ReadonlySet<number>>(new Set());
+  protected loadFailed = signal(false);
+  private loadRequested = false;
+
+  protected blocks = computed(() => parseMessageBlocks(this.content()));
+
+  protected views = computed(() => {
+    const companies = this.openaiService.companies();
+    return this.blocks().map((block) => this.toView(block, companies));
+  });
+
+  constructor() {
+    // Conversations restored from history can name companies before any were fetched
+    effect(() => {
+      const needsData = this.blocks().some((block) => block.type !== 'markdown');
+      if (needsData && !this.openaiService.companies() && !this.loadRequested) {
+        this.loadRequested = true;
+        untracked(() =>
+          this.openaiService.getCompanies().subscribe({
+            error: (error) => {
+              console.warn('Could not load company data for company blocks:', error);
+              this.loadFailed.set(true);
+            }
+          })
+        );
+      }
+    });
+  }
+
+  private toView(block: MessageBlock, companies: Company[] | null): BlockView {
+    if (block.type === 'markdown') {
+      return block;
+    }
+    const resolved = companies ? resolveCompanies(block.names, companies) : null;
+    return {
+      type: block.type,
+      raw: block.raw,
+      resolved,
+      rows: block.type === 'comparison' && resolved ? comparisonRows(resolved.companies) : []
+    };
+  }
+
+  showsRaw(index: number): boolean {
+    return this.rawBlocks().has(index);
+  }
+
+  toggleRaw(index: number) {
+    this.rawBlocks.update(blocks => {
+      const next = new Set(blocks);
+      if (!next.delete(index)) {
+        next.add(index);
+      }
+      return next;
+    });
+  }
+
+  // Narrowing helpers; templates cannot narrow a union on `type`
+  markdownOf(view: BlockView): string {
+    return view.type === 'markdown' ? view.text : '';
+  }
+
+  companyBlock(view: BlockView): Exclude<BlockView, { type: 'markdown' }> | null {
+    return view.type === 'markdown' ? null : view;
+  }
+}
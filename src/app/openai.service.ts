@@ -1,23 +1,140 @@
-import { Injectable, inject } from '@angular/core';
-import { HttpClient, HttpHeaders } from '@angular/common/http';
-import { Observable, throwError, of } from 'rxjs';
-import { catchError, map, switchMap } from 'rxjs/operators';
-import { ConfigService } from './config.service';
+import { DestroyRef, Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { Observable, throwError, of, forkJoin, concat, from } from 'rxjs';
+import { catchError, concatMap, filter, map, reduce, switchMap, tap } from 'rxjs/operators';
+import {
+  ConfigService,
+  LlmProviderConfig,
+  ModelSettings,
+  normalizeModelSettings,
+} from './config.service';
+import { LlmService } from './llm/llm.service';
+import { companyBlocksInstructions } from './company-blocks';
+import {
+  Chatbot,
+  Company,
+  LlmModel,
+  parseChatbots,
+  parseCompanies,
+  parseLlmModels,
+} from './company-models';
+import { LlmProvider, LlmRequest } from './llm/llm-provider';
+import { LlmTraceEntry, TurnTraceService, describeTraceError } from './turn-trace.service';
+import {
+  ContextUsage,
+  HistorySummary,
+  contextWindowFor,
+  estimateMessagesTokens,
+  toTranscript,
+  trimToBudget,
+  truncateToTokens,
+} from './context-budget';
+import {
+  ContextSource,
+  describeCompany,
+  indexCompany,
+  selectCompanies,
+} from './context-retrieval';
+import {
+  MCPGetPromptResult,
+  MCPPrompt,
+  MCPResource,
+  MCPResourceContents,
+  MCPToolsListResult,
+} from './mcp-client';
+import {
+  CallToolOptions,
+  McpInitializeOutcome,
+  McpRegistryService,
+  ServerScoped,
+} from './mcp-registry.service';
+
+export type { MCPTool, MCPToolsListResult } from './mcp-client';
+
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
 
 export interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
 }
 
 export interface OpenAIResponse {
   choices: {
-    message: {
-      content: string;
-      role: string;
+    message: OpenAIMessage;
+    finish_reason?: string;
+  }[];
+}
+
+// A single `chat.completion.chunk` from a streamed response
+export interface OpenAIStreamChunk {
+  choices: {
+    delta: {
+      role?: string;
+      content?: string | null;
+      tool_calls?: {
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }[];
     };
+    finish_reason?: string | null;
   }[];
 }
 
+export interface MCPLibrary {
+  resources: ServerScoped<MCPResource>[];
+  prompts: ServerScoped<MCPPrompt>[];
+}
+
+// Progress of a chat turn: content deltas while streaming, and every complete
+// message (assistant tool calls, tool results, final answer) as it is added
+export interface ChatTurnDelta {
+  type: 'delta';
+  content: string;
+}
+
+export interface ChatTurnMessage {
+  type: 'message';
+  message: OpenAIMessage;
+}
+
+// The companies selected as context for the turn's question
+export interface ChatTurnSources {
+  type: 'sources';
+  sources: ContextSource[];
+}
+
+export type ChatTurnEvent = ChatTurnDelta | ChatTurnMessage | ChatTurnSources;
+
+// Result of a chat turn: the final answer plus every message the turn added
+// to the conversation (assistant tool calls, tool results and the answer itself)
+export interface ChatTurnResult {
+  content: string;
+  messages: OpenAIMessage[];
+}
+
 export interface MCPHealthResponse {
   status: string;
   timestamp: string;
@@ -30,16 +147,46 @@ export interface MCPHealthResponse {
   providedIn: 'root',
 })
 export class OpenAIService {
-  private readonly openaiApiUrl = 'https://api.openai.com/v1/chat/completions';
+  private readonly maxToolIterations = 5;
+  private readonly summaryMaxTokens = 400;
   private configService = inject(ConfigService);
+  private platformId = inject(PLATFORM_ID);
+  private mcpRegistry = inject(McpRegistryService);
+  private llm = inject(LlmService);
+  private turnTrace = inject(TurnTraceService);
+
+  // Settings the current conversation overrides on top of the configured defaults
+  private _modelOverrides = signal<Partial<ModelSettings>>({});
+  readonly modelOverrides = this._modelOverrides.asReadonly();
+  // Chat models reported by the provider; empty until loadModels() succeeds
+  readonly availableModels = signal<string[]>([]);
+  // Rolling summary of the turns the current conversation no longer sends in full
+  private _historySummary = signal<HistorySummary | null>(null);
+  readonly historySummary = this._historySummary.asReadonly();
+  // How much of the context window the current conversation uses
+  readonly contextUsage = signal<ContextUsage | null>(null);
+  // The company dataset as last read from MCP, for rendering company cards and tables
+  private _companies = signal<Company[] | null>(null);
+  readonly companies = this._companies.asReadonly();
+
+  constructor() {
+    // End the MCP sessions cleanly when the app is torn down or the page goes away
+    inject(DestroyRef).onDestroy(() => this.mcpRegistry.closeAll());
+    if (isPlatformBrowser(this.platformId)) {
+      window.addEventListener('pagehide', () => this.mcpRegistry.closeAll(true));
+    }
+  }
 
-  constructor(private http: HttpClient) {}
-
-  checkMCPHealth(): Observable<MCPHealthResponse> {
-    const mcpServerUrl = this.configService.getMcpServerUrl();
+  // Check the health endpoint of a server (the default one unless an id is given)
+  checkMCPHealth(serverId?: string): Observable<MCPHealthResponse> {
+    const server = this.mcpRegistry.getServer(serverId);
+    if (!server) {
+      return throwError(() => new Error('No MCP server enabled'));
+    }
 
-    // Make a direct GET request to the /health endpoint via proxy
-    return this.http.get('/api/mcp/health').pipe(
+    // Make a direct GET request to the /health endpoint via proxy. Failures are not logged:
+    // this is polled, and the health monitor reports when a server goes down or comes back.
+    return this.mcpRegistry.checkHealth(server).pipe(
       map((response: any) => {
         return {
           status: response.status === 'ok' ? 'healthy' : 'unhealthy',
@@ -47,129 +194,286 @@ export class OpenAIService {
           data: response,
           serverType: 'real',
         };
-      }),
-      catchError((error) => {
-        console.error('MCP Health check failed:', error);
-        console.error('Error details:', {
-          status: error.status,
-          statusText: error.statusText,
-          message: error.message,
-          url: mcpServerUrl,
-        });
-        return throwError(() => error);
       })
     );
   }
 
   sendMessage(messages: OpenAIMessage[]): Observable<string> {
-    const apiKey = this.configService.getApiKey();
-    if (!apiKey) {
-      return throwError(() => new Error('OpenAI API key not set'));
+    return this.createChatCompletion(messages).pipe(map((message) => message.content ?? ''));
+  }
+
+  // Stream the assistant reply as content deltas
+  streamMessage(messages: OpenAIMessage[]): Observable<string> {
+    return this.streamChatCompletion(messages).pipe(
+      filter((event): event is ChatTurnDelta => event.type === 'delta'),
+      map((event) => event.content)
+    );
+  }
+
+  // Send a chat completion request and return the assistant message, which may contain tool calls
+  createChatCompletion(
+    messages: OpenAIMessage[],
+    tools?: OpenAITool[],
+    toolChoice?: 'auto' | 'none'
+  ): Observable<OpenAIMessage> {
+    if (!this.configService.isApiKeyConfigured()) {
+      return throwError(() => new Error('API key not set'));
     }
 
-    const headers = new HttpHeaders({
-      'Content-Type': 'application/json',
-      Accept: 'application/json, text/event-stream',
-      Authorization: `Bearer ${apiKey}`,
+    const provider = this.llm.getProvider();
+    const request: LlmRequest = { messages, tools, toolChoice, settings: this.getModelSettings() };
+    return this.traceCompletion(provider, request, 'chat', false, provider.complete(request))
+      .pipe(
+        catchError((error) => {
+          console.error(`${provider.label} API error:`, error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Stream a chat completion: emits content deltas as they arrive, then the assembled
+  // assistant message (including any tool calls) once the stream ends
+  streamChatCompletion(
+    messages: OpenAIMessage[],
+    tools?: OpenAITool[],
+    toolChoice?: 'auto' | 'none'
+  ): Observable<ChatTurnEvent> {
+    if (!this.configService.isApiKeyConfigured()) {
+      return throwError(() => new Error('API key not set'));
+    }
+
+    const provider = this.llm.getProvider();
+    const request: LlmRequest = { messages, tools, toolChoice, settings: this.getModelSettings() };
+    return this.traceCompletion(provider, request, 'chat', true, provider.stream(request))
+      .pipe(
+        catchError((error) => {
+          console.error(`${provider.label} API streaming error:`, error);
+          return throwError(() => error);
+        })
+      );
+  }
+
+  // Settings used for chat completions: the configured defaults plus the conversation's overrides
+  getModelSettings(): ModelSettings {
+    return { ...this.configService.getModelSettings(), ...this._modelOverrides() };
+  }
+
+  setModelOverrides(overrides: Partial<ModelSettings>): void {
+    this._modelOverrides.set(normalizeModelSettings(overrides));
+  }
+
+  setHistorySummary(summary: HistorySummary | null): void {
+    this._historySummary.set(summary);
+  }
+
+  // Tokens available for the request itself; the rest of the window is left for the reply
+  getContextBudget(settings: ModelSettings = this.getModelSettings()): number {
+    const budgets = this.configService.getContextSettings().budgets;
+    const window = contextWindowFor(settings.model, budgets);
+    return Math.max(window - settings.maxTokens, Math.floor(window / 2));
+  }
+
+  // Estimate the context use of a history before it is sent, e.g. when a conversation is opened
+  estimateContextUsage(history: OpenAIMessage[]): void {
+    if (history.length === 0) {
+      this.contextUsage.set(null);
+      return;
+    }
+    const summary = this._historySummary();
+    const sent = [
+      ...(summary ? [this.toSummaryMessage(summary)] : []),
+      ...history.slice(summary?.messageCount ?? 0),
+    ];
+    this.contextUsage.set({
+      usedTokens: estimateMessagesTokens(sent),
+      budgetTokens: this.getContextBudget(),
+      droppedMessages: summary?.messageCount ?? 0,
+      summarized: !!summary,
     });
+  }
+
+  // Keep a request within the model's context window: the oldest turns are dropped and,
+  // when summarization is enabled, folded into the conversation's rolling summary
+  fitToContext(messages: OpenAIMessage[]): Observable<OpenAIMessage[]> {
+    const budget = this.getContextBudget();
+    const summarize = this.configService.getContextSettings().summarize;
+    const system = messages.filter((message) => message.role === 'system');
+    const history = messages.filter((message) => message.role !== 'system');
+
+    let summary = this._historySummary();
+    // The history no longer reaches as far as the summary (e.g. it was edited), so it is stale
+    if (summary && summary.messageCount > history.length) {
+      summary = null;
+      this._historySummary.set(null);
+    }
+
+    const summaryTokens = summary || summarize ? this.summaryMaxTokens : 0;
+    const { kept, dropped } = trimToBudget(
+      system,
+      history.slice(summary?.messageCount ?? 0),
+      budget - summaryTokens
+    );
 
-    const body = {
-      model: 'gpt-3.5-turbo',
-      messages: messages,
-      max_tokens: 1000,
-      temperature: 0.7,
+    const fit = (current: HistorySummary | null, unsummarized: number): OpenAIMessage[] => {
+      const fitted = [...system, ...(current ? [this.toSummaryMessage(current)] : []), ...kept];
+      this.contextUsage.set({
+        usedTokens: estimateMessagesTokens(fitted),
+        budgetTokens: budget,
+        droppedMessages: (current?.messageCount ?? 0) + unsummarized,
+        summarized: !!current,
+      });
+      return fitted;
     };
 
-    return this.http.post<OpenAIResponse>(this.openaiApiUrl, body, { headers }).pipe(
-      map((response) => {
-        if (response.choices && response.choices.length > 0) {
-          return response.choices[0].message.content;
-        }
-        throw new Error('No response from OpenAI');
+    if (dropped.length === 0 || !summarize) {
+      return of(fit(summary, dropped.length));
+    }
+
+    return this.summarizeHistory(summary, dropped, budget).pipe(
+      map((updated) => {
+        this._historySummary.set(updated);
+        return fit(updated, 0);
       }),
       catchError((error) => {
-        console.error('OpenAI API error:', error);
-        return throwError(() => error);
+        console.warn('Could not summarize earlier messages, dropping them instead:', error);
+        return of(fit(summary, dropped.length));
       })
     );
   }
 
-  // Initialize MCP connection
-  initializeMCP(): Observable<any> {
-    const headers = new HttpHeaders({
-      Accept: 'application/json, text/event-stream',
-      'Content-Type': 'application/json',
-    });
+  // Fold dropped messages into the previous summary
+  private summarizeHistory(
+    previous: HistorySummary | null,
+    dropped: OpenAIMessage[],
+    budget: number
+  ): Observable<HistorySummary> {
+    const transcript =
+      (previous ? `Summary so far:\n${previous.text}\n\n` : '') + toTranscript(dropped);
+    const settings: ModelSettings = {
+      ...this.getModelSettings(),
+      maxTokens: this.summaryMaxTokens,
+      responseFormat: 'text',
+    };
 
-    const initRequest = {
-      jsonrpc: '2.0',
-      id: 1,
-      method: 'initialize',
-      params: {
-        protocolVersion: '2024-11-05',
-        capabilities: {},
-        clientInfo: {
-          name: 'angular-mcp-client',
-          version: '1.0.0',
+    const provider = this.llm.getProvider();
+    const request: LlmRequest = {
+      messages: [
+        {
+          role: 'system',
+          content:
+            'Summarize the conversation below for an assistant that will continue it. Keep facts, names, numbers, decisions and open questions; leave out pleasantries. Reply with the summary only.',
         },
-      },
+        { role: 'user', content: truncateToTokens(transcript, budget - this.summaryMaxTokens) },
+      ],
+      settings,
     };
 
-    return this.http.post('/api/mcp', initRequest, { headers, responseType: 'text' }).pipe(
-      map((response: string) => {
-        // Parse SSE format: "event: message\ndata: {json}"
-        const lines = response.split('\n');
-        const dataLine = lines.find((line) => line.startsWith('data: '));
-        if (dataLine) {
-          const jsonData = dataLine.substring(6); // Remove "data: " prefix
-          const parsedData = JSON.parse(jsonData);
-          if (parsedData.error) {
-            throw new Error(`MCP Initialization Error: ${parsedData.error.message}`);
+    return this.traceCompletion(provider, request, 'summary', false, provider.complete(request))
+      .pipe(
+        map((message) => {
+          const text = message.content?.trim();
+          if (!text) {
+            throw new Error('Empty summary');
           }
-          return parsedData.result;
-        }
-        throw new Error('Invalid SSE response format');
-      }),
-      catchError((error) => {
-        console.error('MCP initialization error:', error);
-        return throwError(() => error);
-      })
+          return { text, messageCount: (previous?.messageCount ?? 0) + dropped.length };
+        })
+      );
+  }
+
+  // Record a completion request and its outcome for the inspector
+  private traceCompletion<T extends OpenAIMessage | ChatTurnEvent>(
+    provider: LlmProvider,
+    request: LlmRequest,
+    purpose: LlmTraceEntry['purpose'],
+    stream: boolean,
+    completion: Observable<T>
+  ): Observable<T> {
+    return this.turnTrace.track(completion, ({ value, error, startedAt, durationMs }) => {
+      const last: OpenAIMessage | ChatTurnEvent | undefined = value;
+      return {
+        kind: 'llm',
+        provider: provider.label,
+        purpose,
+        stream,
+        ...request,
+        startedAt,
+        durationMs,
+        response: !last || 'role' in last ? last : last.type === 'message' ? last.message : undefined,
+        error: error ? describeTraceError(error) : undefined,
+      };
+    });
+  }
+
+  private toSummaryMessage(summary: HistorySummary): OpenAIMessage {
+    return { role: 'system', content: `Summary of the earlier conversation:\n${summary.text}` };
+  }
+
+  // Fetch the chat models the provider offers. Settings that are not saved yet can be passed
+  // to list models before saving them.
+  loadModels(apiKey?: string, providerConfig?: LlmProviderConfig): Observable<string[]> {
+    return this.providerFor(apiKey, providerConfig).pipe(
+      switchMap((provider) => provider.listModels()),
+      tap((models) => this.availableModels.set(models))
     );
   }
 
-  // Method to interact with MCP server using JSON-RPC
-  callMCPMethod(method: string, params?: any): Observable<any> {
-    const mcpServerUrl = this.configService.getMcpServerUrl();
+  /**
+   * Check settings that are not saved yet against the provider, leaving the app's state
+   * alone. Azure cannot list its deployments, so the deployment is asked for a one-token reply.
+   */
+  testProvider(
+    apiKey: string,
+    providerConfig: LlmProviderConfig,
+    settings: ModelSettings
+  ): Observable<string> {
+    return this.providerFor(apiKey, providerConfig).pipe(
+      switchMap((provider) =>
+        providerConfig.type === 'azure'
+          ? provider
+              .complete({
+                messages: [{ role: 'user', content: 'ping' }],
+                settings: { ...settings, maxTokens: 1 },
+              })
+              .pipe(map(() => `key accepted, deployment ${settings.model} answered`))
+          : provider
+              .listModels()
+              .pipe(map((models) => `key accepted, ${models.length} models available`))
+      )
+    );
+  }
 
-    const headers = new HttpHeaders({
-      Accept: 'application/json, text/event-stream',
-      'Content-Type': 'application/json',
-    });
+  private providerFor(
+    apiKey?: string,
+    providerConfig?: LlmProviderConfig
+  ): Observable<LlmProvider> {
+    const config = providerConfig || this.configService.getLlmProvider();
+    const key = apiKey || this.configService.getApiKey();
+    if (
+      !key &&
+      this.configService.requiresApiKey(config.type) &&
+      !this.configService.usesServerManagedKey(config.type)
+    ) {
+      return throwError(() => new Error('API key not set'));
+    }
+    return of(this.llm.createProvider(config, key));
+  }
 
-    // MCP uses JSON-RPC 2.0 protocol
-    const jsonRpcRequest = {
-      jsonrpc: '2.0',
-      id: Date.now(),
-      method: method,
-      params: params || {},
-    };
+  // Initialize every enabled MCP server, starting fresh sessions
+  initializeMCP(): Observable<McpInitializeOutcome[]> {
+    return this.mcpRegistry.initializeAll().pipe(
+      tap((outcomes) =>
+        outcomes
+          .filter((outcome) => outcome.error)
+          .forEach((outcome) =>
+            console.error(`MCP initialization error for ${outcome.server.name}:`, outcome.error)
+          )
+      )
+    );
+  }
 
-    // Use proxy endpoint to avoid CORS issues
-    return this.http.post('/api/mcp', jsonRpcRequest, { headers, responseType: 'text' }).pipe(
-      map((response: string) => {
-        // Parse SSE format: "event: message\ndata: {json}"
-        const lines = response.split('\n');
-        const dataLine = lines.find((line) => line.startsWith('data: '));
-        if (dataLine) {
-          const jsonData = dataLine.substring(6); // Remove "data: " prefix
-          const parsedData = JSON.parse(jsonData);
-          if (parsedData.error) {
-            throw new Error(`MCP Error: ${parsedData.error.message}`);
-          }
-          return parsedData.result;
-        }
-        throw new Error('Invalid SSE response format');
-      }),
+  // Method to interact with an MCP server using JSON-RPC (the default server unless one is named)
+  callMCPMethod(method: string, params?: any, serverId?: string): Observable<any> {
+    return this.mcpRegistry.request(method, params, serverId).pipe(
       catchError((error) => {
         console.error(`MCP ${method} method error:`, error);
         return throwError(() => error);
@@ -177,17 +481,15 @@ export class OpenAIService {
     );
   }
 
-  // Get available MCP tools
-  getMCPTools(): Observable<any> {
-    return this.callMCPMethod('tools/list');
+  // Get available MCP tools from all enabled servers, with server-prefixed names
+  getMCPTools(): Observable<MCPToolsListResult> {
+    return this.mcpRegistry.listTools();
   }
 
-  // Call a specific MCP tool
-  callMCPTool(toolName: string, params?: any): Observable<any> {
-    return this.callMCPMethod('tools/call', {
-      name: toolName,
-      arguments: params || {},
-    }).pipe(
+  // Call a specific MCP tool; namespaced names are routed to their server,
+  // plain names go to the first server that provides the tool
+  callMCPTool(toolName: string, params?: any, options?: CallToolOptions): Observable<any> {
+    return this.mcpRegistry.callTool(toolName, params, options).pipe(
       catchError((error) => {
         console.error(`MCP tool ${toolName} error:`, error);
         throw error;
@@ -195,43 +497,242 @@ export class OpenAIService {
     );
   }
 
+  // Forget cached tool lists and tool results, e.g. after the data behind them changed
+  invalidateMCPCache(): void {
+    this.mcpRegistry.invalidateCache();
+  }
+
+  // Discover resources and prompts the servers advertised during initialization
+  discoverMCPLibrary(): Observable<MCPLibrary> {
+    return forkJoin({
+      resources: this.listMCPResources(),
+      prompts: this.listMCPPrompts(),
+    });
+  }
+
+  // List resources exposed by the enabled MCP servers
+  listMCPResources(): Observable<ServerScoped<MCPResource>[]> {
+    return this.mcpRegistry.listAcrossServers<MCPResource>('resources');
+  }
+
+  // Read the contents of a resource
+  readMCPResource(uri: string, serverId?: string): Observable<MCPResourceContents[]> {
+    return this.callMCPMethod('resources/read', { uri }, serverId).pipe(
+      map((result) => result?.contents || [])
+    );
+  }
+
+  // List prompt templates exposed by the enabled MCP servers
+  listMCPPrompts(): Observable<ServerScoped<MCPPrompt>[]> {
+    return this.mcpRegistry.listAcrossServers<MCPPrompt>('prompts');
+  }
+
+  // Fill a prompt template with arguments and get the resulting messages
+  getMCPPrompt(
+    name: string,
+    args?: Record<string, string>,
+    serverId?: string
+  ): Observable<MCPGetPromptResult> {
+    return this.callMCPMethod('prompts/get', { name, arguments: args || {} }, serverId);
+  }
+
   // Get diagnostic information from MCP server
   getMCPDiagnostic(): Observable<any> {
     return this.callMCPTool('diagnostic');
   }
 
-  // Get all companies with their chats and LLMs
-  getCompanies(): Observable<any> {
-    return this.callMCPTool('getCompanies');
+  // Get all companies with their chats and LLMs; the dataset is read-only, so it is cached.
+  // Results that do not match the models fail with an MCPParseError naming each mismatch
+  getCompanies(): Observable<Company[]> {
+    return this.callMCPTool('getCompanies', undefined, { cache: true }).pipe(
+      map(parseCompanies),
+      tap((companies) => this._companies.set(companies))
+    );
   }
 
   // Get chatbots for a specific company
-  getChats(companyName: string): Observable<any> {
-    return this.callMCPTool('getChats', { companyName });
+  getChats(companyName: string): Observable<Chatbot[]> {
+    return this.callMCPTool('getChats', { companyName }, { cache: true }).pipe(map(parseChatbots));
   }
 
   // Get LLM models for a specific company
-  getLLMs(companyName: string): Observable<any> {
-    return this.callMCPTool('getLLMs', { companyName });
+  getLLMs(companyName: string): Observable<LlmModel[]> {
+    return this.callMCPTool('getLLMs', { companyName }, { cache: true }).pipe(map(parseLlmModels));
   }
 
-  // Enhanced message sending that can utilize MCP server context
-  sendMessageWithMCPContext(messages: OpenAIMessage[], mcpTools?: any): Observable<string> {
+  // Convert MCP tool definitions into OpenAI function-calling tools
+  toOpenAITools(mcpTools?: MCPToolsListResult): OpenAITool[] {
+    if (!mcpTools || !Array.isArray(mcpTools.tools)) {
+      return [];
+    }
+
+    return mcpTools.tools.map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description || '',
+        parameters:
+          tool.inputSchema && tool.inputSchema['type'] === 'object'
+            ? tool.inputSchema
+            : { type: 'object', properties: {} },
+      },
+    }));
+  }
+
+  // Run the function-calling loop: every tool call issued by the model is executed
+  // through MCP and fed back until the model produces a final answer. The messages are
+  // fitted to the context window first.
+  runToolLoop(
+    messages: OpenAIMessage[],
+    tools: OpenAITool[],
+    stream = false
+  ): Observable<ChatTurnEvent> {
+    const added: OpenAIMessage[] = [];
+    let fitted = messages;
+
+    const step = (iteration: number): Observable<ChatTurnEvent> => {
+      // On the last allowed iteration, force the model to answer with what it has
+      const toolChoice = iteration >= this.maxToolIterations ? 'none' : 'auto';
+      const conversation = [...fitted, ...added];
+      const completion: Observable<ChatTurnEvent> = stream
+        ? this.streamChatCompletion(conversation, tools, toolChoice)
+        : this.createChatCompletion(conversation, tools, toolChoice).pipe(
+            map((message): ChatTurnEvent => ({ type: 'message', message }))
+          );
+
+      return completion.pipe(
+        concatMap((event) => {
+          if (event.type !== 'message') {
+            return of(event);
+          }
+
+          const message = event.message;
+          added.push(message);
+          if (!message.tool_calls || message.tool_calls.length === 0) {
+            return of(event);
+          }
+
+          const toolResults = forkJoin(
+            message.tool_calls.map((toolCall) => this.executeToolCall(toolCall))
+          ).pipe(
+            concatMap((toolMessages) => {
+              added.push(...toolMessages);
+              return concat(
+                from(
+                  toolMessages.map(
+                    (toolMessage): ChatTurnEvent => ({ type: 'message', message: toolMessage })
+                  )
+                ),
+                step(iteration + 1)
+              );
+            })
+          );
+          return concat(of(event), toolResults);
+        })
+      );
+    };
+
+    return this.fitToContext(messages).pipe(
+      switchMap((result) => {
+        fitted = result;
+        return step(1);
+      })
+    );
+  }
+
+  // Collapse turn events into the final answer plus the messages the turn added
+  collectTurn(events: Observable<ChatTurnEvent>): Observable<ChatTurnResult> {
+    return events.pipe(
+      filter((event): event is ChatTurnMessage => event.type === 'message'),
+      reduce(
+        (result: ChatTurnResult, event) => ({
+          content: event.message.content ?? '',
+          messages: [...result.messages, event.message],
+        }),
+        { content: '', messages: [] }
+      )
+    );
+  }
+
+  // Execute a single model-issued tool call and wrap the outcome in a tool message
+  private executeToolCall(toolCall: OpenAIToolCall): Observable<OpenAIMessage> {
+    let args: any = {};
+    try {
+      args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (e) {
+      return of({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: `Error: invalid JSON arguments for ${toolCall.function.name}`,
+      });
+    }
+
+    return this.callMCPTool(toolCall.function.name, args).pipe(
+      map(
+        (result): OpenAIMessage => ({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: this.formatToolResult(result),
+        })
+      ),
+      catchError((error) =>
+        of<OpenAIMessage>({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: `Error: ${error?.message || 'tool call failed'}`,
+        })
+      )
+    );
+  }
+
+  // Flatten an MCP tools/call result into text the model can read
+  private formatToolResult(result: any): string {
+    if (result && Array.isArray(result.content)) {
+      const text = result.content
+        .map((part: any) => (part.type === 'text' ? part.text : JSON.stringify(part)))
+        .join('\n');
+      return result.isError ? `Error: ${text}` : text;
+    }
+    return JSON.stringify(result ?? null);
+  }
+
+  // Enhanced message sending that can utilize MCP server context and tools
+  sendMessageWithMCPContext(
+    messages: OpenAIMessage[],
+    mcpTools?: MCPToolsListResult
+  ): Observable<ChatTurnResult> {
+    return this.collectTurn(this.streamMessageWithMCPContext(messages, mcpTools, false));
+  }
+
+  // Same as sendMessageWithMCPContext, but reports the turn as it happens;
+  // with stream enabled the answer arrives as content deltas
+  streamMessageWithMCPContext(
+    messages: OpenAIMessage[],
+    mcpTools?: MCPToolsListResult,
+    stream = true
+  ): Observable<ChatTurnEvent> {
+    const tools = this.toOpenAITools(mcpTools);
+    const toolNames = tools.map((tool) => tool.function.name).join(', ');
+
+    const question = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
     // First try to get actual company data for rich context
     return this.getCompanies().pipe(
-      map((companies: any[]): OpenAIMessage[] => {
-        const context = this.createContext(companies);
+      map((companies) => {
+        const selection = this.createContext(companies, question);
+        // The company data is capped so it cannot crowd the conversation out of the window
+        const context = truncateToTokens(
+          selection.context,
+          Math.floor(this.getContextBudget() / 4)
+        );
         const systemPrompt = `You are an AI assistant that helps users find information about AI companies and their products.
 
 You have access to the following data about AI companies:
 ${context}
 
-When users ask questions, use this data to provide accurate and helpful responses. If the question is about a specific company, you can also suggest using the MCP tools to get more detailed information about their chatbots or LLM models.
+When users ask questions, use this data to provide accurate and helpful responses. If you need more detailed or up-to-date information, call the available tools${toolNames ? ` (${toolNames})` : ''} instead of guessing.
 
-Available MCP tools:
-- getCompanies: Get all companies with their chats and LLMs
-- getChats(companyName): Get chatbots for a specific company
-- getLLMs(companyName): Get LLM models for a specific company
+${companyBlocksInstructions()}
 
 Be helpful, accurate, and suggest relevant companies or products based on the user's question.`;
 
@@ -240,92 +741,79 @@ Be helpful, accurate, and suggest relevant companies or products based on the us
           content: systemPrompt,
         };
         const enhancedMessages = [systemMessage, ...messages.filter((m) => m.role !== 'system')];
-        return enhancedMessages;
+        return { messages: enhancedMessages, sources: selection.sources };
       }),
-      catchError((error): Observable<OpenAIMessage[]> => {
+      catchError((error) => {
+        // Unreachable servers and malformed data (MCPParseError) both fall back to the tools
         console.warn('Could not fetch company data, falling back to basic tool description:', error);
-        // Fallback to basic tool description if company data fetch fails
-        if (mcpTools && mcpTools.tools && mcpTools.tools.length > 0) {
-          const toolsDescription = mcpTools.tools
-            .map((tool: any) => `- ${tool.name}: ${tool.description || 'No description available'}`)
-            .join('\n');
-
+        // Fallback to tool-only instructions if company data fetch fails
+        if (tools.length > 0) {
           const systemMessage: OpenAIMessage = {
             role: 'system',
-            content: `You are an AI assistant with access to the following MCP (Model Context Protocol) tools:\n\n${toolsDescription}\n\nWhen a user asks about topics that could be answered using these tools, explain what information you could provide if you had access to call these tools. For example, if asked about "AI companies", mention that you have access to tools that could provide that information.`,
+            content: `You are an AI assistant with access to MCP (Model Context Protocol) tools (${toolNames}). When a user asks about topics that could be answered using these tools, call them to get the information before answering.`,
           };
-          return of([systemMessage, ...messages.filter((m) => m.role !== 'system')]);
+          return of({
+            messages: [systemMessage, ...messages.filter((m) => m.role !== 'system')],
+            sources: [],
+          });
         }
         // Ensure we always return an array wrapped in observable
         const messagesArray = Array.isArray(messages) ? messages : [messages];
-        return of(messagesArray);
+        return of({ messages: messagesArray, sources: [] });
       }),
-      switchMap((enhancedMessages) => this.sendMessage(enhancedMessages))
+      switchMap(({ messages: enhancedMessages, sources }) => {
+        const turn = this.runToolLoop(enhancedMessages, tools, stream);
+        return sources.length > 0
+          ? concat(of<ChatTurnEvent>({ type: 'sources', sources }), turn)
+          : turn;
+      })
     );
   }
 
-  // Create context from company data (similar to React version)
-  private createContext(companies: any): string {
-    // Handle different response formats from MCP
-    let companiesArray: any[] = [];
-    
-    // Handle MCP response format with content array
-    if (companies && companies.content && Array.isArray(companies.content)) {
-      // Extract the actual data from the content array
-      const contentData = companies.content[0];
-      if (contentData && contentData.text) {
-        try {
-          // Try to parse JSON if it's a string
-          const parsedData = JSON.parse(contentData.text);
-          if (Array.isArray(parsedData)) {
-            companiesArray = parsedData;
-          } else if (parsedData.companies && Array.isArray(parsedData.companies)) {
-            companiesArray = parsedData.companies;
-          } else {
-            companiesArray = [parsedData];
-          }
-        } catch (e) {
-          console.error('Failed to parse MCP content:', e);
-          return 'Error parsing company data.';
-        }
-      } else if (Array.isArray(contentData)) {
-        companiesArray = contentData;
-      } else {
-        companiesArray = [contentData];
-      }
-    } else if (Array.isArray(companies)) {
-      companiesArray = companies;
-    } else if (companies && companies.companies && Array.isArray(companies.companies)) {
-      companiesArray = companies.companies;
-    } else if (companies && typeof companies === 'object') {
-      // If it's a single company object, wrap it in an array
-      companiesArray = [companies];
+  // Build the company context for a question: the most relevant companies in full,
+  // plus a one-line index of the others so the model knows what else it can look up
+  private createContext(
+    companies: Company[],
+    question: string
+  ): { context: string; sources: ContextSource[] } {
+    if (companies.length === 0) {
+      return { context: 'No company data available.', sources: [] };
+    }
+
+    const contextSettings = this.configService.getContextSettings();
+    const { selected, others } = selectCompanies(companies, question, {
+      limit: contextSettings.retrievalLimit,
+      embeddings: contextSettings.localEmbeddings,
+    });
+
+    const sections: string[] = [];
+    if (selected.length > 0) {
+      sections.push(
+        'Companies most relevant to the question:\n\n' +
+          selected.map((scored) => describeCompany(scored.company)).join('\n\n')
+      );
     }
-    
-    if (!companiesArray || companiesArray.length === 0) {
-      return 'No company data available.';
+    if (others.length > 0) {
+      sections.push(
+        `${selected.length > 0 ? 'Other companies' : 'Companies'} in the dataset ` +
+          '(call the tools for their details):\n' +
+          others.map(indexCompany).join('\n')
+      );
     }
 
-    return companiesArray
-      .map((company) => {
-        const chats = company.chats?.map((chat: any) => chat.chatbot).join(', ') || 'None';
-        const llms =
-          company.llms?.map((llm: any) => `${llm.llm} (${llm.specialization})`).join(', ') ||
-          'None';
-
-        return `Company: ${company.company}
-Description: ${company.description}
-Chatbots: ${chats}
-LLM Models: ${llms}`;
-      })
-      .join('\n\n');
+    return {
+      context: sections.join('\n\n'),
+      sources: selected.map((scored) => ({
+        name: scored.company.company,
+        matches: scored.matches,
+      })),
+    };
   }
 
   // Process user question with MCP context (similar to React version)
   processUserQuestion(question: string): Observable<string> {
-    const apiKey = this.configService.getApiKey();
-    if (!apiKey) {
-      return throwError(() => new Error('OpenAI API key not configured. Please set your API key in the configuration.'));
+    if (!this.configService.isApiKeyConfigured()) {
+      return throwError(() => new Error('API key not configured. Please set your API key in the configuration.'));
     }
 
     const userMessage: OpenAIMessage = {
@@ -333,7 +821,11 @@ LLM Models: ${llms}`;
       content: question
     };
 
-    // Use the enhanced context method
-    return this.sendMessageWithMCPContext([userMessage]);
+    // Use the enhanced context method, with MCP tools when the server provides them
+    return this.getMCPTools().pipe(
+      catchError(() => of(undefined)),
+      switchMap((mcpTools) => this.sendMessageWithMCPContext([userMessage], mcpTools)),
+      map((result) => result.content)
+    );
   }
 }
@@ -0,0 +1,177 @@
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpEventType,
+  HttpHeaders,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Observable, concat, lastValueFrom, of, throwError } from 'rxjs';
+import {
+  CircuitBreaker,
+  ResiliencePolicy,
+  RequestTimeoutError,
+  parseRetryAfter,
+  resilienceContext,
+  resilienceInterceptor,
+  retryDelay,
+} from './resilience';
+
+describe('resilience', () => {
+  const policy: ResiliencePolicy = {
+    retries: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 3000,
+    maxRetryAfterMs: 10_000,
+    timeoutMs: 5000,
+  };
+  const httpError = (status: number, retryAfter?: string) =>
+    new HttpErrorResponse({
+      status,
+      headers: retryAfter ? new HttpHeaders({ 'Retry-After': retryAfter }) : undefined,
+    });
+
+  it('should read Retry-After in seconds or as a date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+
+  it('should back off exponentially with jitter', () => {
+    const error = httpError(503);
+    expect(retryDelay(0, policy, error, () => 0)).toBe(500);
+    expect(retryDelay(0, policy, error, () => 1)).toBe(1000);
+    expect(retryDelay(1, policy, error, () => 1)).toBe(2000);
+    expect(retryDelay(2, policy, error)).toBeNull();
+    expect(retryDelay(1, { ...policy, retries: 5 }, error, () => 1)).toBe(2000);
+    expect(retryDelay(4, { ...policy, retries: 5 }, error, () => 1)).toBe(3000);
+  });
+
+  it('should honour Retry-After and only retry transient failures', () => {
+    expect(retryDelay(0, policy, httpError(429, '3'))).toBe(3000);
+    expect(retryDelay(0, policy, httpError(429, '60'))).toBeNull();
+    expect(retryDelay(0, policy, new RequestTimeoutError('/api', 5000), () => 0)).toBe(500);
+    expect(retryDelay(0, policy, httpError(401))).toBeNull();
+    expect(retryDelay(0, policy, httpError(500))).toBeNull();
+    expect(retryDelay(0, policy, new Error('parse error'))).toBeNull();
+  });
+
+  describe('interceptor', () => {
+    const fastPolicy: ResiliencePolicy = { ...policy, baseDelayMs: 0, maxDelayMs: 0 };
+    const request = new HttpRequest('POST', '/api/chat', null, {
+      context: resilienceContext(fastPolicy),
+    });
+    const sent: HttpEvent<unknown> = { type: HttpEventType.Sent };
+    const ok = new HttpResponse({ status: 200, body: 'ok' });
+
+    const run = (responses: Observable<HttpEvent<unknown>>[], httpRequest = request) => {
+      let attempts = 0;
+      const next = () => responses[Math.min(attempts++, responses.length - 1)];
+      const result = lastValueFrom(resilienceInterceptor(httpRequest, next));
+      return { result, attempts: () => attempts };
+    };
+
+    it('should retry transient failures until a request succeeds', async () => {
+      const { result, attempts } = run([
+        concat(of(sent), throwError(() => httpError(502))),
+        concat(of(sent), of(ok)),
+      ]);
+      expect(await result).toBe(ok);
+      expect(attempts()).toBe(2);
+    });
+
+    it('should give up after the policy retries', async () => {
+      const { result, attempts } = run([concat(of(sent), throwError(() => httpError(503)))]);
+      await expectAsync(result).toBeRejectedWith(jasmine.objectContaining({ status: 503 }));
+      expect(attempts()).toBe(3);
+    });
+
+    it('should not retry a response that started arriving', async () => {
+      const progress: HttpEvent<unknown> = {
+        type: HttpEventType.DownloadProgress,
+        loaded: 10,
+        partialText: 'data: {}',
+      };
+      const { result, attempts } = run([
+        concat(of(sent, progress), throwError(() => httpError(0))),
+        of(ok),
+      ]);
+      await expectAsync(result).toBeRejected();
+      expect(attempts()).toBe(1);
+    });
+
+    it('should leave requests without a policy alone', async () => {
+      const { result, attempts } = run(
+        [throwError(() => httpError(503)), of(ok)],
+        new HttpRequest('GET', '/api/config')
+      );
+      await expectAsync(result).toBeRejected();
+      expect(attempts()).toBe(1);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    let now: number;
+    let breaker: CircuitBreaker;
+
+    beforeEach(() => {
+      now = 0;
+      breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 }, () => now);
+    });
+
+    it('should open after consecutive failures', () => {
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      expect(breaker.state).toBe('closed');
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      expect(breaker.allowsRequests()).toBeFalse();
+      expect(breaker.retryAt).toBe(1000);
+    });
+
+    it('should let a request through after the cool-down', () => {
+      breaker.recordFailure();
+      breaker.recordFailure();
+      now = 1000;
+      expect(breaker.state).toBe('half-open');
+      expect(breaker.allowsRequests()).toBeTrue();
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      expect(breaker.retryAt).toBe(2000);
+
+      now = 2000;
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should only let one probe through while half-open', () => {
+      breaker.recordFailure();
+      breaker.recordFailure();
+      now = 1000;
+
+      expect(breaker.tryRequest()).toBeTrue();
+      expect(breaker.tryRequest()).toBeFalse();
+      expect(breaker.allowsRequests()).toBeFalse();
+
+      breaker.recordSuccess();
+      expect(breaker.tryRequest()).toBeTrue();
+      expect(breaker.tryRequest()).toBeTrue();
+    });
+
+    it('should let another probe through when one ends without a result', () => {
+      breaker.recordFailure();
+      breaker.recordFailure();
+      now = 1000;
+
+      expect(breaker.tryRequest()).toBeTrue();
+      breaker.endProbe();
+      expect(breaker.state).toBe('half-open');
+      expect(breaker.tryRequest()).toBeTrue();
+    });
+  });
+});
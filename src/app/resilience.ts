@@ -0,0 +1,252 @@
+import {
+  HttpContext,
+  HttpContextToken,
+  HttpErrorResponse,
+  HttpEvent,
+  HttpEventType,
+  HttpInterceptorFn,
+} from '@angular/common/http';
+import { Observable, throwError, timer } from 'rxjs';
+import { catchError, switchMap, tap, timeout } from 'rxjs/operators';
+
+// How a kind of request is retried and how long it may take
+export interface ResiliencePolicy {
+  // Attempts after the first one
+  retries: number;
+  // Backoff before the first retry; it doubles with every attempt, up to `maxDelayMs`
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Longest `Retry-After` worth waiting for; longer ones fail the request instead
+  maxRetryAfterMs: number;
+  // Longest wait for the response to start, or for the next chunk of a streamed one
+  timeoutMs: number;
+}
+
+// Calls to the model: replies can take a while to start, and rate limits are common
+export const LLM_RESILIENCE_POLICY: ResiliencePolicy = {
+  retries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 15_000,
+  maxRetryAfterMs: 30_000,
+  timeoutMs: 120_000,
+};
+
+// MCP requests are small; a server that does not answer quickly is better skipped
+export const MCP_RESILIENCE_POLICY: ResiliencePolicy = {
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4_000,
+  maxRetryAfterMs: 10_000,
+  timeoutMs: 30_000,
+};
+
+// Tool calls that may change something: the server may have run a call that failed, so a
+// retry could run it twice
+export const MCP_SINGLE_ATTEMPT_POLICY: ResiliencePolicy = {
+  ...MCP_RESILIENCE_POLICY,
+  retries: 0,
+};
+
+// The policy of a request; requests without one are passed through untouched
+export const RESILIENCE_POLICY = new HttpContextToken<ResiliencePolicy | null>(() => null);
+
+/**
+ * Context for a request handled with `policy`
+ */
+export function resilienceContext(policy: ResiliencePolicy): HttpContext {
+  return new HttpContext().set(RESILIENCE_POLICY, policy);
+}
+
+// Statuses worth another attempt: rate limits, overloaded or unreachable upstreams
+const TRANSIENT_STATUSES = new Set([0, 408, 425, 429, 502, 503, 504]);
+
+/**
+ * A request got no response, or no further chunk, within its policy's timeout
+ */
+export class RequestTimeoutError extends Error {
+  constructor(
+    readonly url: string,
+    readonly timeoutMs: number
+  ) {
+    super(`No response from ${url} within ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Whether a failed request may succeed when sent again
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof RequestTimeoutError) {
+    return true;
+  }
+  return error instanceof HttpErrorResponse && TRANSIENT_STATUSES.has(error.status);
+}
+
+/**
+ * Milliseconds to wait according to a `Retry-After` header, given in seconds or as a date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value?.trim()) {
+    return null;
+  }
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.round(parseFloat(value) * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0 for the first retry), or null when the error is
+ * not worth retrying. A `Retry-After` sent with the error wins; otherwise the backoff
+ * doubles with every attempt and is jittered so clients do not retry in lockstep.
+ */
+export function retryDelay(
+  attempt: number,
+  policy: ResiliencePolicy,
+  error: unknown,
+  random: () => number = Math.random,
+): number | null {
+  if (attempt >= policy.retries || !isTransientError(error)) {
+    return null;
+  }
+  if (error instanceof HttpErrorResponse) {
+    const retryAfter = parseRetryAfter(error.headers?.get('Retry-After') ?? null);
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxRetryAfterMs ? retryAfter : null;
+    }
+  }
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
+/**
+ * Retries transient failures of requests that carry a policy, and fails them when they
+ * stall. A response that has started arriving is never retried, so streamed replies are
+ * not repeated.
+ */
+export const resilienceInterceptor: HttpInterceptorFn = (request, next) => {
+  const policy = request.context.get(RESILIENCE_POLICY);
+  if (!policy) {
+    return next(request);
+  }
+
+  const send = (attempt: number): Observable<HttpEvent<unknown>> => {
+    let started = false;
+    return next(request).pipe(
+      timeout({
+        each: policy.timeoutMs,
+        with: () => throwError(() => new RequestTimeoutError(request.url, policy.timeoutMs)),
+      }),
+      tap((event) => {
+        if (event.type !== HttpEventType.Sent) {
+          started = true;
+        }
+      }),
+      catchError((error) => {
+        const delayMs = started ? null : retryDelay(attempt, policy, error);
+        if (delayMs === null) {
+          return throwError(() => error);
+        }
+        return timer(delayMs).pipe(switchMap(() => send(attempt + 1)));
+      }),
+    );
+  };
+  return send(0);
+};
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects requests before letting one through to test the endpoint
+  cooldownMs: number;
+}
+
+export const MCP_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+/**
+ * Rejected without a request, because the endpoint failed repeatedly and is cooling down
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    message: string,
+    readonly retryAt: number
+  ) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Circuit breaker for one endpoint. After `failureThreshold` consecutive failures the
+ * circuit opens and requests should be skipped; once the cool-down is over it is half-open
+ * and a single probe request decides whether it closes again or stays open for another
+ * cool-down. Other requests are rejected while the probe is in flight.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  /**
+   * @param now clock used for the cool-down, replaceable in tests
+   */
+  constructor(
+    private options: CircuitBreakerOptions = MCP_CIRCUIT_BREAKER,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  // When an open circuit lets requests through again
+  get retryAt(): number | null {
+    return this.openedAt === null ? null : this.openedAt + this.options.cooldownMs;
+  }
+
+  allowsRequests(): boolean {
+    const state = this.state;
+    return state === 'closed' || (state === 'half-open' && !this.probing);
+  }
+
+  /**
+   * Claim a request, which in the half-open state makes it the probe.
+   * Returns false when the request should be skipped.
+   */
+  tryRequest(): boolean {
+    if (!this.allowsRequests()) {
+      return false;
+    }
+    this.probing = this.state === 'half-open';
+    return true;
+  }
+
+  // The probe ended without a success or failure being recorded (e.g. it was cancelled)
+  endProbe(): void {
+    this.probing = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.probing = false;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+    }
+  }
+}
@@ -0,0 +1,257 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { FieldError, SchemaField, initialValue } from './tool-schema';
+
+/**
+ * Input for one field of a JSON Schema form. The value lives in `holder[key]`, an object
+ * or array of the parent's value, and is edited in place; objects and arrays render
+ * their children with this component again.
+ */
+@Component({
+  selector: 'app-schema-field',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  template: `
+    <ng-container [ngSwitch]="field().type">
+      <!-- The root object only lists its properties -->
+      <ng-container *ngSwitchCase="'object'">
+        <ng-container *ngIf="!path(); else nestedObject">
+          <app-schema-field
+            *ngFor="let property of field().properties"
+            [field]="property"
+            [holder]="value()"
+            [key]="property.key"
+            [path]="property.key"
+            [errors]="errors()"
+          ></app-schema-field>
+        </ng-container>
+        <ng-template #nestedObject>
+          <fieldset class="schema-group">
+            <legend>
+              {{ field().label }}<span *ngIf="field().required" class="required">*</span>
+            </legend>
+            <p *ngIf="field().description" class="field-help">{{ field().description }}</p>
+            <app-schema-field
+              *ngFor="let property of field().properties"
+              [field]="property"
+              [holder]="value()"
+              [key]="property.key"
+              [path]="path() + '.' + property.key"
+              [errors]="errors()"
+            ></app-schema-field>
+            <p *ngIf="!field().properties?.length" class="field-help">No properties</p>
+          </fieldset>
+        </ng-template>
+      </ng-container>
+
+      <fieldset *ngSwitchCase="'array'" class="schema-group">
+        <legend>
+          {{ field().label }}<span *ngIf="field().required" class="required">*</span>
+        </legend>
+        <p *ngIf="field().description" class="field-help">{{ field().description }}</p>
+        <div class="array-item" *ngFor="let item of value(); let i = index; trackBy: trackByIndex">
+          <app-schema-field
+            [field]="field().items!"
+            [holder]="value()"
+            [key]="i"
+            [path]="path() + '[' + i + ']'"
+            [errors]="errors()"
+          ></app-schema-field>
+          <button type="button" class="remove-item" (click)="removeItem(i)" title="Remove item">
+            ×
+          </button>
+        </div>
+        <button
+          type="button"
+          class="add-item"
+          (click)="addItem()"
+          [disabled]="field().maxItems !== undefined && value().length >= field().maxItems!"
+        >
+          + Add item
+        </button>
+        <div class="field-error" *ngIf="error()">{{ error() }}</div>
+      </fieldset>
+
+      <label *ngSwitchCase="'boolean'" class="schema-field checkbox-field">
+        <input type="checkbox" [(ngModel)]="holder()[key()]" />
+        {{ field().label }}
+        <span *ngIf="field().description" class="field-help">— {{ field().description }}</span>
+      </label>
+
+      <label *ngSwitchDefault class="schema-field">
+        <span class="field-label">
+          {{ field().label }}<span *ngIf="field().required" class="required">*</span>
+          <small class="field-type">{{ field().type }}</small>
+        </span>
+        <ng-container [ngSwitch]="field().type">
+          <select
+            *ngSwitchCase="'enum'"
+            [(ngModel)]="holder()[key()]"
+            class="field-input"
+            [class.invalid]="error()"
+          >
+            <option [ngValue]="null">—</option>
+            <option *ngFor="let option of field().options" [ngValue]="option">{{ option }}</option>
+          </select>
+          <input
+            *ngSwitchCase="'number'"
+            type="number"
+            [min]="field().minimum ?? null"
+            [max]="field().maximum ?? null"
+            [(ngModel)]="holder()[key()]"
+            class="field-input"
+            [class.invalid]="error()"
+          />
+          <input
+            *ngSwitchCase="'integer'"
+            type="number"
+            step="1"
+            [min]="field().minimum ?? null"
+            [max]="field().maximum ?? null"
+            [(ngModel)]="holder()[key()]"
+            class="field-input"
+            [class.invalid]="error()"
+          />
+          <textarea
+            *ngSwitchCase="'json'"
+            rows="4"
+            placeholder="JSON"
+            [(ngModel)]="holder()[key()]"
+            class="field-input json-input"
+            [class.invalid]="error()"
+          ></textarea>
+          <input
+            *ngSwitchDefault
+            type="text"
+            [(ngModel)]="holder()[key()]"
+            class="field-input"
+            [class.invalid]="error()"
+          />
+        </ng-container>
+        <span *ngIf="field().description" class="field-help">{{ field().description }}</span>
+        <span class="field-error" *ngIf="error()">{{ error() }}</span>
+      </label>
+    </ng-container>
+  `,
+  styles: [`
+    .schema-field {
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+      margin-bottom: 0.75rem;
+      font-size: 0.875rem;
+    }
+
+    .checkbox-field {
+      flex-direction: row;
+      align-items: center;
+      gap: 0.5rem;
+    }
+
+    .field-label {
+      font-weight: 500;
+    }
+
+    .field-type {
+      margin-left: 0.375rem;
+      color: var(--text-secondary);
+      font-weight: 400;
+    }
+
+    .required {
+      color: #dc2626;
+      margin-left: 0.125rem;
+    }
+
+    .field-input {
+      padding: 0.5rem;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      font-size: 0.875rem;
+      font-family: inherit;
+    }
+
+    .json-input {
+      font-family: ui-monospace, monospace;
+    }
+
+    .field-input.invalid {
+      border-color: #dc2626;
+    }
+
+    .field-help {
+      margin: 0;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+    }
+
+    .field-error {
+      color: #dc2626;
+      font-size: 0.75rem;
+    }
+
+    .schema-group {
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      padding: 0.5rem 0.75rem;
+      margin: 0 0 0.75rem 0;
+    }
+
+    .schema-group legend {
+      font-size: 0.875rem;
+      font-weight: 500;
+      padding: 0 0.25rem;
+    }
+
+    .array-item {
+      display: flex;
+      align-items: flex-start;
+      gap: 0.5rem;
+    }
+
+    .array-item app-schema-field {
+      flex: 1;
+    }
+
+    .remove-item,
+    .add-item {
+      background: none;
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.75rem;
+      padding: 0.25rem 0.5rem;
+    }
+
+    .remove-item {
+      margin-top: 1.5rem;
+    }
+  `]
+})
+export class SchemaFieldComponent {
+  field = input.required<SchemaField>();
+  holder = input.required<any>();
+  key = input.required<string | number>();
+  // Path of the value, matching the paths of `toArguments` errors; empty for the root
+  path = input('');
+  errors = input<FieldError[]>([]);
+
+  protected value = computed(() => this.holder()[this.key()]);
+  protected error = computed(
+    () => this.errors().find((error) => error.path === this.path())?.message
+  );
+
+  addItem() {
+    this.value().push(initialValue(this.field().items!));
+  }
+
+  removeItem(index: number) {
+    this.value().splice(index, 1);
+  }
+
+  // Items are edited in place; tracking by index keeps inputs focused while typing
+  trackByIndex(index: number): number {
+    return index;
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  InvalidPassphraseError,
+  decryptSecret,
+  deriveSecretKey,
+  encryptSecret,
+  isEncryptedSecret,
+} from './secret-crypto';
+
+describe('secret crypto', () => {
+  // Few iterations keep the tests fast; the strength of the derivation is not under test
+  const iterations = 1000;
+
+  it('should decrypt a secret with its passphrase', async () => {
+    const key = await deriveSecretKey('correct horse', undefined, iterations);
+    const encrypted = await encryptSecret('sk-test-123', key);
+
+    expect(isEncryptedSecret(encrypted)).toBeTrue();
+    expect(JSON.stringify(encrypted)).not.toContain('sk-test-123');
+    const { secret, key: unlocked } = await decryptSecret(encrypted, 'correct horse');
+    expect(secret).toBe('sk-test-123');
+    expect(unlocked.salt).toBe(key.salt);
+  });
+
+  it('should reject a wrong passphrase or altered data', async () => {
+    const key = await deriveSecretKey('correct horse', undefined, iterations);
+    const encrypted = await encryptSecret('sk-test-123', key);
+
+    await expectAsync(decryptSecret(encrypted, 'wrong horse')).toBeRejectedWithError(
+      InvalidPassphraseError
+    );
+    const flipped = encrypted.data.startsWith('A') ? 'B' : 'A';
+    const altered = { ...encrypted, data: flipped + encrypted.data.slice(1) };
+    await expectAsync(decryptSecret(altered, 'correct horse')).toBeRejectedWithError(
+      InvalidPassphraseError
+    );
+  });
+
+  it('should use a fresh IV when re-encrypting with an unlocked key', async () => {
+    const key = await deriveSecretKey('correct horse', undefined, iterations);
+    const first = await encryptSecret('sk-test-123', key);
+    const second = await encryptSecret('sk-test-123', key);
+
+    expect(second.salt).toBe(first.salt);
+    expect(second.iv).not.toBe(first.iv);
+    expect((await decryptSecret(second, 'correct horse')).secret).toBe('sk-test-123');
+  });
+
+  it('should recognize stored secrets', () => {
+    const stored = { version: 1, salt: 'a', iv: 'b', data: 'c', iterations: 1 };
+    expect(isEncryptedSecret(stored)).toBeTrue();
+    expect(isEncryptedSecret('sk-test-123')).toBeFalse();
+    expect(isEncryptedSecret({ ...stored, version: 2 })).toBeFalse();
+    expect(isEncryptedSecret(null)).toBeFalse();
+  });
+});
@@ -0,0 +1,127 @@
+// A secret encrypted with AES-GCM under a key derived from a passphrase (PBKDF2-SHA-256);
+// binary fields are base64
+export interface EncryptedSecret {
+  version: 1;
+  salt: string;
+  iv: string;
+  iterations: number;
+  data: string;
+}
+
+// A key derived from a passphrase, kept in memory while the secret is unlocked so the
+// secret can be re-encrypted without asking for the passphrase again
+export interface SecretKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+export const PBKDF2_ITERATIONS = 310_000;
+
+/**
+ * The passphrase does not decrypt the secret, or the stored secret was altered
+ */
+export class InvalidPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is incorrect');
+    this.name = 'InvalidPassphraseError';
+  }
+}
+
+/**
+ * Whether the browser can encrypt secrets; WebCrypto needs a secure context (HTTPS or localhost)
+ */
+export function isSecretCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && !!crypto.subtle;
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase; a new random salt is used unless one is given
+ */
+export async function deriveSecretKey(
+  passphrase: string,
+  salt?: string,
+  iterations = PBKDF2_ITERATIONS,
+): Promise<SecretKey> {
+  const saltBytes = salt ? fromBase64(salt) : crypto.getRandomValues(new Uint8Array(16));
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: saltBytes, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+  return { key, salt: toBase64(saltBytes), iterations };
+}
+
+/**
+ * Encrypt a secret with a derived key, using a fresh IV every time
+ */
+export async function encryptSecret(secret: string, key: SecretKey): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key.key,
+    new TextEncoder().encode(secret),
+  );
+  return {
+    version: 1,
+    salt: key.salt,
+    iv: toBase64(iv),
+    iterations: key.iterations,
+    data: toBase64(new Uint8Array(data)),
+  };
+}
+
+/**
+ * Decrypt a secret with its passphrase, returning the secret and the key to re-encrypt it with
+ */
+export async function decryptSecret(
+  encrypted: EncryptedSecret,
+  passphrase: string,
+): Promise<{ secret: string; key: SecretKey }> {
+  const key = await deriveSecretKey(passphrase, encrypted.salt, encrypted.iterations);
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+      key.key,
+      fromBase64(encrypted.data),
+    );
+    return { secret: new TextDecoder().decode(data), key };
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong key and for tampered data
+    throw new InvalidPassphraseError();
+  }
+}
+
+/**
+ * Check the shape of an encrypted secret read from storage
+ */
+export function isEncryptedSecret(value: unknown): value is EncryptedSecret {
+  const secret = value as EncryptedSecret;
+  return (
+    !!secret &&
+    typeof secret === 'object' &&
+    secret.version === 1 &&
+    typeof secret.salt === 'string' &&
+    typeof secret.iv === 'string' &&
+    typeof secret.data === 'string' &&
+    typeof secret.iterations === 'number' &&
+    secret.iterations > 0
+  );
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,29 @@
+import { SSEParser, parseSSE } from './sse';
+
+describe('SSEParser', () => {
+  it('should parse a complete event stream', () => {
+    const events = parseSSE('event: message\ndata: {"a":1}\n\ndata: second\n\n');
+    expect(events).toEqual([
+      { event: 'message', data: '{"a":1}', id: undefined },
+      { event: 'message', data: 'second', id: undefined },
+    ]);
+  });
+
+  it('should buffer partial chunks until an event completes', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: hel')).toEqual([]);
+    expect(parser.push('lo\r\n')).toEqual([]);
+    expect(parser.push('\r\n')).toEqual([{ event: 'message', data: 'hello', id: undefined }]);
+  });
+
+  it('should join multi-line data and ignore comments', () => {
+    const events = parseSSE(': keep-alive\nid: 7\ndata: line 1\ndata: line 2\n\n');
+    expect(events).toEqual([{ event: 'message', data: 'line 1\nline 2', id: '7' }]);
+  });
+
+  it('should return an unterminated event on flush', () => {
+    const parser = new SSEParser();
+    expect(parser.push('data: [DONE]')).toEqual([]);
+    expect(parser.flush()).toEqual([{ event: 'message', data: '[DONE]', id: undefined }]);
+  });
+});
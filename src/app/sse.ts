@@ -0,0 +1,117 @@
+export interface SSEEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Incremental parser for `text/event-stream` payloads.
+ * Feed it chunks as they arrive; it returns every event completed so far
+ * and keeps partial lines buffered until the next chunk.
+ */
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  /**
+   * Parse a chunk of the stream and return the events it completed
+   */
+  push(chunk: string): SSEEvent[] {
+    this.buffer += chunk;
+    const events: SSEEvent[] = [];
+
+    let match: RegExpExecArray | null;
+    const lineBreak = /\r\n|\n|\r/g;
+    let consumed = 0;
+    while ((match = lineBreak.exec(this.buffer)) !== null) {
+      // A trailing '\r' may be the first half of '\r\n'; wait for more input
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        break;
+      }
+      const line = this.buffer.slice(consumed, match.index);
+      consumed = match.index + match[0].length;
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return events;
+  }
+
+  /**
+   * Signal the end of the stream and return any event left without a terminating blank line
+   */
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      this.buffer = '';
+      if (event) {
+        events.push(event);
+      }
+    }
+    const pending = this.dispatch();
+    if (pending) {
+      events.push(pending);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      // Comment line, used by servers as keep-alive
+      return null;
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+    };
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
+
+/**
+ * Parse a complete `text/event-stream` body in one go
+ */
+export function parseSSE(text: string): SSEEvent[] {
+  const parser = new SSEParser();
+  return [...parser.push(text), ...parser.flush()];
+}
@@ -0,0 +1,469 @@
+import { Component, OnInit, PLATFORM_ID, computed, inject, signal } from '@angular/core';
+import { CommonModule, Location, isPlatformBrowser } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Router } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { OpenAIService } from './openai.service';
+import { NamespacedTool } from './mcp-registry.service';
+import { describeTraceError } from './turn-trace.service';
+import {
+  FieldError,
+  SchemaField,
+  ToolResultPart,
+  initialValue,
+  toArguments,
+  toResultParts,
+  toSchemaField
+} from './tool-schema';
+import { SchemaFieldComponent } from './schema-field.component';
+
+interface ToolRun {
+  arguments: Record<string, any>;
+  durationMs: number;
+  result?: any;
+  parts?: ToolResultPart[];
+  error?: string;
+}
+
+/**
+ * The `/tools` view: call any MCP tool directly, without the LLM, through a form
+ * generated from the tool's input schema
+ */
+@Component({
+  selector: 'app-tool-runner',
+  standalone: true,
+  imports: [CommonModule, FormsModule, SchemaFieldComponent],
+  template: `
+    <div class="tool-runner">
+      <div class="tool-runner-header">
+        <button class="back-btn" (click)="back()" title="Back to the chat">← Chat</button>
+        <h2>MCP Tools</h2>
+        <button class="back-btn" (click)="loadTools(true)" [disabled]="isLoading()">Reload</button>
+      </div>
+
+      <div class="tool-runner-body">
+        <aside class="tool-list">
+          <input
+            class="tool-filter"
+            type="search"
+            placeholder="Filter tools"
+            [ngModel]="filter()"
+            (ngModelChange)="filter.set($event)"
+          />
+          <div class="tool-status" *ngIf="isLoading()">Loading tools...</div>
+          <div class="error-text" *ngIf="loadError()">{{ loadError() }}</div>
+          <button
+            class="tool-item"
+            *ngFor="let tool of filteredTools()"
+            [class.active]="tool.name === selected()?.name"
+            (click)="select(tool)"
+            [title]="tool.description || tool.name"
+          >
+            <span class="tool-name">{{ tool.toolName }}</span>
+            <small class="tool-server">{{ tool.serverId }}</small>
+          </button>
+          <div class="tool-status" *ngIf="!isLoading() && !loadError() && !filteredTools().length">
+            No tools found.
+          </div>
+        </aside>
+
+        <section class="tool-detail" *ngIf="selected() as tool; else noTool">
+          <h3>{{ tool.toolName }}</h3>
+          <p class="tool-description" *ngIf="tool.description">{{ tool.description }}</p>
+
+          <div class="tool-form">
+            <app-schema-field
+              [field]="field()!"
+              [holder]="form()"
+              key="value"
+              [errors]="errors()"
+            ></app-schema-field>
+            <p
+              class="tool-status"
+              *ngIf="field()?.type === 'object' && !field()?.properties?.length"
+            >
+              This tool takes no arguments.
+            </p>
+            <div class="form-actions">
+              <button type="button" class="run-btn" (click)="run()" [disabled]="isRunning()">
+                {{ isRunning() ? 'Running...' : 'Run tool' }}
+              </button>
+              <button type="button" class="back-btn" (click)="resetForm()">Reset</button>
+              <button type="button" class="back-btn" *ngIf="isRunning()" (click)="cancel()">
+                Cancel
+              </button>
+            </div>
+            <div class="error-text" *ngIf="errors().length">
+              Please fix {{ errors().length }} {{ errors().length === 1 ? 'field' : 'fields' }}.
+            </div>
+          </div>
+
+          <div class="tool-result" *ngIf="lastRun() as run">
+            <h4>
+              Result
+              <small>{{ run.durationMs }} ms</small>
+              <span class="result-badge error" *ngIf="run.error || run.result?.isError">error</span>
+            </h4>
+            <pre class="result-error" *ngIf="run.error">{{ run.error }}</pre>
+            <ng-container *ngFor="let part of run.parts">
+              <ng-container [ngSwitch]="part.type">
+                <pre *ngSwitchCase="'text'" class="result-text">{{ asText(part) }}</pre>
+                <img
+                  *ngSwitchCase="'image'"
+                  class="result-image"
+                  [src]="asImage(part).src"
+                  [alt]="asImage(part).mimeType"
+                />
+                <pre *ngSwitchDefault class="result-json">{{ asJson(part) }}</pre>
+              </ng-container>
+            </ng-container>
+            <details *ngIf="run.result !== undefined">
+              <summary>Raw result</summary>
+              <pre class="result-json">{{ toJson(run.result) }}</pre>
+            </details>
+            <details>
+              <summary>Arguments sent</summary>
+              <pre class="result-json">{{ toJson(run.arguments) }}</pre>
+            </details>
+          </div>
+        </section>
+        <ng-template #noTool>
+          <section class="tool-detail tool-status">Select a tool to call it.</section>
+        </ng-template>
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      flex: 1;
+      min-width: 0;
+      height: 100%;
+    }
+
+    .tool-runner {
+      height: 100%;
+      display: flex;
+      flex-direction: column;
+      background: var(--background);
+    }
+
+    .tool-runner-header {
+      display: flex;
+      align-items: center;
+      gap: 1rem;
+      padding: 1rem 1.5rem;
+      background: var(--surface);
+      border-bottom: 1px solid var(--border);
+    }
+
+    .tool-runner-header h2 {
+      margin: 0;
+      flex: 1;
+      font-size: 1.125rem;
+    }
+
+    .back-btn {
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      padding: 0.375rem 0.75rem;
+      font-size: 0.875rem;
+      cursor: pointer;
+    }
+
+    .back-btn:hover:not(:disabled) {
+      background: var(--background);
+    }
+
+    .tool-runner-body {
+      flex: 1;
+      min-height: 0;
+      display: flex;
+    }
+
+    .tool-list {
+      width: 240px;
+      overflow-y: auto;
+      padding: 1rem 0.75rem;
+      border-right: 1px solid var(--border);
+      display: flex;
+      flex-direction: column;
+      gap: 0.25rem;
+    }
+
+    .tool-filter {
+      padding: 0.5rem;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      margin-bottom: 0.5rem;
+    }
+
+    .tool-item {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-start;
+      text-align: left;
+      background: none;
+      border: none;
+      border-radius: 6px;
+      padding: 0.5rem;
+      cursor: pointer;
+    }
+
+    .tool-item:hover {
+      background: var(--surface);
+    }
+
+    .tool-item.active {
+      background: #eff6ff;
+      color: var(--primary-color);
+    }
+
+    .tool-name {
+      font-size: 0.875rem;
+      font-weight: 500;
+    }
+
+    .tool-server {
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+    }
+
+    .tool-detail {
+      flex: 1;
+      min-width: 0;
+      overflow-y: auto;
+      padding: 1.5rem;
+    }
+
+    .tool-detail h3 {
+      margin: 0 0 0.25rem 0;
+    }
+
+    .tool-description,
+    .tool-status {
+      color: var(--text-secondary);
+      font-size: 0.875rem;
+    }
+
+    .tool-form {
+      max-width: 640px;
+      margin-top: 1rem;
+    }
+
+    .form-actions {
+      display: flex;
+      gap: 0.5rem;
+    }
+
+    .run-btn {
+      background: var(--primary-color);
+      color: white;
+      border: none;
+      border-radius: 6px;
+      padding: 0.375rem 1rem;
+      font-size: 0.875rem;
+      cursor: pointer;
+    }
+
+    .run-btn:disabled {
+      background: var(--border);
+      cursor: not-allowed;
+    }
+
+    .error-text,
+    .result-error {
+      color: #dc2626;
+      font-size: 0.875rem;
+      margin-top: 0.5rem;
+    }
+
+    .tool-result {
+      margin-top: 1.5rem;
+    }
+
+    .tool-result h4 {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      margin: 0 0 0.5rem 0;
+    }
+
+    .tool-result h4 small {
+      color: var(--text-secondary);
+      font-weight: 400;
+    }
+
+    .result-badge.error {
+      padding: 0.05rem 0.375rem;
+      border-radius: 4px;
+      background: #fee2e2;
+      color: #b91c1c;
+      font-size: 0.75rem;
+    }
+
+    .tool-result pre {
+      max-height: 24rem;
+      overflow: auto;
+      padding: 0.75rem;
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      font-size: 0.8125rem;
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+    }
+
+    .result-image {
+      max-width: 100%;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+    }
+
+    .tool-result summary {
+      cursor: pointer;
+      font-size: 0.875rem;
+      color: var(--text-secondary);
+      margin-top: 0.5rem;
+    }
+  `]
+})
+export class ToolRunnerComponent implements OnInit {
+  private openaiService = inject(OpenAIService);
+  private platformId = inject(PLATFORM_ID);
+  private location = inject(Location);
+  private router = inject(Router);
+
+  tools = signal<NamespacedTool[]>([]);
+  isLoading = signal(false);
+  loadError = signal('');
+  selected = signal<NamespacedTool | null>(null);
+  field = signal<SchemaField | null>(null);
+  // The form value sits under `value`, so the root field can be edited in place like any other
+  form = signal<{ value: any }>({ value: null });
+  errors = signal<FieldError[]>([]);
+  isRunning = signal(false);
+  lastRun = signal<ToolRun | null>(null);
+  filter = signal('');
+
+  private activeRun: Subscription | null = null;
+
+  protected filteredTools = computed(() => {
+    const filter = this.filter().trim().toLowerCase();
+    return this.tools().filter(
+      (tool) =>
+        !filter ||
+        tool.name.toLowerCase().includes(filter) ||
+        (tool.description || '').toLowerCase().includes(filter)
+    );
+  });
+
+  ngOnInit() {
+    // Tools are only reachable from the browser, through the MCP proxy
+    if (isPlatformBrowser(this.platformId)) {
+      this.loadTools();
+    }
+  }
+
+  loadTools(refresh = false) {
+    if (refresh) {
+      this.openaiService.invalidateMCPCache();
+    }
+    this.isLoading.set(true);
+    this.loadError.set('');
+    this.openaiService.getMCPTools().subscribe({
+      next: (result) => {
+        this.tools.set((result.tools || []) as NamespacedTool[]);
+        this.isLoading.set(false);
+      },
+      error: (error) => {
+        this.loadError.set(`Could not load tools: ${describeTraceError(error)}`);
+        this.isLoading.set(false);
+      }
+    });
+  }
+
+  select(tool: NamespacedTool) {
+    this.cancel();
+    this.selected.set(tool);
+    this.field.set(toSchemaField(tool.inputSchema));
+    this.resetForm();
+  }
+
+  resetForm() {
+    const field = this.field();
+    this.form.set({ value: field ? initialValue(field) : null });
+    this.errors.set([]);
+    this.lastRun.set(null);
+  }
+
+  run() {
+    const tool = this.selected();
+    const field = this.field();
+    if (!tool || !field) {
+      return;
+    }
+
+    const { value, errors } = toArguments(field, this.form().value);
+    this.errors.set(errors);
+    if (errors.length) {
+      return;
+    }
+
+    const args = value ?? {};
+    const startedAt = Date.now();
+    this.isRunning.set(true);
+    // A manual run shows what the server returns now, not an earlier result
+    this.activeRun = this.openaiService.callMCPTool(tool.name, args, { cache: false }).subscribe({
+      next: (result) =>
+        this.lastRun.set({
+          arguments: args,
+          durationMs: Date.now() - startedAt,
+          result,
+          parts: toResultParts(result)
+        }),
+      error: (error) => {
+        this.lastRun.set({
+          arguments: args,
+          durationMs: Date.now() - startedAt,
+          error: describeTraceError(error)
+        });
+        this.isRunning.set(false);
+      },
+      complete: () => this.isRunning.set(false)
+    });
+  }
+
+  cancel() {
+    this.activeRun?.unsubscribe();
+    this.activeRun = null;
+    this.isRunning.set(false);
+  }
+
+  // Return to the conversation the tools were opened from, or to a new chat
+  back() {
+    const state = this.location.getState() as { navigationId?: number } | null;
+    if ((state?.navigationId ?? 1) > 1) {
+      this.location.back();
+    } else {
+      this.router.navigate(['/']);
+    }
+  }
+
+  // Narrowing helpers; templates cannot narrow a union on `type`
+  asText(part: ToolResultPart): string {
+    return part.type === 'text' ? part.text : '';
+  }
+
+  asImage(part: ToolResultPart): { src: string; mimeType: string } {
+    return part.type === 'image' ? part : { src: '', mimeType: '' };
+  }
+
+  asJson(part: ToolResultPart): string {
+    return part.type === 'json' || part.type === 'other' ? part.json : '';
+  }
+
+  toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2) ?? '';
+  }
+}
@@ -0,0 +1,165 @@
+import { initialValue, toArguments, toResultParts, toSchemaField } from './tool-schema';
+
+describe('tool schema forms', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      companyName: { type: 'string', description: 'Company to look up', minLength: 2 },
+      limit: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+      sort: { enum: ['name', 'size'] },
+      verbose: { type: 'boolean' },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+      filter: {
+        type: 'object',
+        properties: { region: { type: ['string', 'null'] }, minScore: { type: 'number' } },
+        required: ['region'],
+      },
+      extra: { type: 'object' },
+    },
+    required: ['companyName'],
+  };
+
+  it('should build fields for every supported type', () => {
+    const field = toSchemaField(schema);
+    const types = Object.fromEntries(
+      field.properties!.map((property) => [property.key, property.type])
+    );
+
+    expect(field.type).toBe('object');
+    expect(types).toEqual({
+      companyName: 'string',
+      limit: 'integer',
+      sort: 'enum',
+      verbose: 'boolean',
+      tags: 'array',
+      filter: 'object',
+      extra: 'json',
+    });
+    expect(field.properties![0].required).toBeTrue();
+    expect(field.properties![1].required).toBeFalse();
+    expect(field.properties![5].properties![0].type).toBe('string');
+  });
+
+  it('should start from defaults and empty inputs', () => {
+    const value = initialValue(toSchemaField(schema));
+
+    expect(value).toEqual({
+      companyName: null,
+      limit: 10,
+      sort: null,
+      verbose: false,
+      tags: [],
+      filter: { region: null, minScore: null },
+      extra: '',
+    });
+  });
+
+  it('should convert filled inputs to arguments and leave out empty optional ones', () => {
+    const field = toSchemaField(schema);
+    const value = initialValue(field);
+    value.companyName = 'OpenAI';
+    value.tags = ['chat', 'code'];
+    value.filter.region = 'EU';
+    value.extra = '{"debug": true}';
+
+    expect(toArguments(field, value)).toEqual({
+      value: {
+        companyName: 'OpenAI',
+        limit: 10,
+        verbose: false,
+        tags: ['chat', 'code'],
+        filter: { region: 'EU' },
+        extra: { debug: true },
+      },
+      errors: [],
+    });
+  });
+
+  it('should report required fields and constraint violations by path', () => {
+    const field = toSchemaField(schema);
+    const value = initialValue(field);
+    value.limit = 2.5;
+    value.tags = ['a', 'b', 'c', 'd'];
+    value.extra = '{not json';
+
+    expect(toArguments(field, value).errors).toEqual([
+      { path: 'companyName', message: 'Required' },
+      { path: 'limit', message: 'Must be a whole number' },
+      { path: 'tags', message: 'At most 3 items' },
+      { path: 'filter.region', message: 'Required' },
+      { path: 'extra', message: 'Must be valid JSON' },
+    ]);
+  });
+
+  it('should check array items and string lengths', () => {
+    const field = toSchemaField({
+      type: 'object',
+      properties: { names: { type: 'array', items: { type: 'string', minLength: 3 } } },
+    });
+
+    expect(toArguments(field, { names: ['Anthropic', 'AI'] }).errors).toEqual([
+      { path: 'names[1]', message: 'At least 3 characters' },
+    ]);
+  });
+
+  it('should check patterns, including ones only valid without the Unicode flag', () => {
+    const field = toSchemaField({
+      type: 'object',
+      properties: {
+        phone: { type: 'string', pattern: '^\\d{3}\\-\\d{4}$' },
+        slug: { type: 'string', pattern: '^[\\w-.]+$' },
+        name: { type: 'string', pattern: '^\\p{Lu}' },
+      },
+    });
+
+    expect(toArguments(field, { phone: '555-1234', slug: 'a_b.c', name: 'Émile' })).toEqual({
+      value: { phone: '555-1234', slug: 'a_b.c', name: 'Émile' },
+      errors: [],
+    });
+    expect(toArguments(field, { phone: '5551234', slug: 'a b', name: 'émile' }).errors).toEqual([
+      { path: 'phone', message: 'Must match ^\\d{3}\\-\\d{4}$' },
+      { path: 'slug', message: 'Must match ^[\\w-.]+$' },
+      { path: 'name', message: 'Must match ^\\p{Lu}' },
+    ]);
+  });
+
+  it('should report patterns that are not valid regular expressions', () => {
+    const field = toSchemaField({
+      type: 'object',
+      properties: { code: { type: 'string', pattern: '([a-z]' } },
+    });
+
+    expect(toArguments(field, { code: 'abc' }).errors).toEqual([
+      { path: 'code', message: "The schema's pattern is not a valid regular expression: ([a-z]" },
+    ]);
+  });
+
+  it('should accept tools without an input schema', () => {
+    const field = toSchemaField(undefined);
+    expect(toArguments(field, initialValue(field))).toEqual({ value: {}, errors: [] });
+  });
+});
+
+describe('toResultParts', () => {
+  it('should show text, JSON text and images', () => {
+    const parts = toResultParts({
+      content: [
+        { type: 'text', text: 'Hello' },
+        { type: 'text', text: '[{"company":"OpenAI"}]' },
+        { type: 'image', data: 'aGk=', mimeType: 'image/gif' },
+      ],
+    });
+
+    expect(parts[0]).toEqual({ type: 'text', text: 'Hello' });
+    expect(parts[1]).toEqual({ type: 'json', json: '[\n  {\n    "company": "OpenAI"\n  }\n]' });
+    expect(parts[2]).toEqual({
+      type: 'image',
+      src: 'data:image/gif;base64,aGk=',
+      mimeType: 'image/gif',
+    });
+  });
+
+  it('should fall back to the raw result when there is no content', () => {
+    expect(toResultParts({ ok: true })).toEqual([{ type: 'json', json: '{\n  "ok": true\n}' }]);
+  });
+});
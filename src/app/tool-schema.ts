@@ -0,0 +1,301 @@
+// One input of a generated tool form, derived from a JSON Schema
+export interface SchemaField {
+  key: string;
+  label: string;
+  description?: string;
+  // `json` covers free-form objects and schemas the form cannot render as inputs
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'array' | 'object' | 'json';
+  required: boolean;
+  default?: unknown;
+  options?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  items?: SchemaField;
+  properties?: SchemaField[];
+}
+
+export interface FieldError {
+  // Dotted path of the input, e.g. `filters.tags[1]`
+  path: string;
+  message: string;
+}
+
+/**
+ * Form model of a JSON Schema. Tool input schemas are objects, so the root field
+ * normally holds the tool's arguments as `properties`.
+ */
+export function toSchemaField(
+  schema: Record<string, any> | undefined,
+  key = '',
+  required = false
+): SchemaField {
+  const field: SchemaField = {
+    key,
+    label: schema?.['title'] || key,
+    description: schema?.['description'],
+    type: schemaType(schema),
+    required,
+    default: schema?.['default'],
+  };
+
+  switch (field.type) {
+    case 'enum':
+      field.options = schema!['enum'];
+      break;
+    case 'number':
+    case 'integer':
+      field.minimum = schema!['minimum'];
+      field.maximum = schema!['maximum'];
+      break;
+    case 'string':
+      field.minLength = schema!['minLength'];
+      field.maxLength = schema!['maxLength'];
+      field.pattern = schema!['pattern'];
+      break;
+    case 'array':
+      field.minItems = schema!['minItems'];
+      field.maxItems = schema!['maxItems'];
+      field.items = toSchemaField(schema!['items'], 'item', true);
+      break;
+    case 'object': {
+      const requiredKeys: string[] = schema?.['required'] || [];
+      field.properties = Object.entries<Record<string, any>>(schema?.['properties'] || {}).map(
+        ([name, property]) => toSchemaField(property, name, requiredKeys.includes(name))
+      );
+      break;
+    }
+  }
+  return field;
+}
+
+function schemaType(schema: Record<string, any> | undefined): SchemaField['type'] {
+  if (!schema) {
+    return 'object';
+  }
+  if (Array.isArray(schema['enum'])) {
+    return 'enum';
+  }
+  // Nullable types are written as `["string", "null"]`
+  const type = Array.isArray(schema['type'])
+    ? schema['type'].find((candidate: string) => candidate !== 'null')
+    : schema['type'];
+
+  switch (type) {
+    case 'string':
+    case 'number':
+    case 'integer':
+    case 'boolean':
+      return type;
+    case 'array':
+      return 'array';
+    case 'object':
+    case undefined:
+      // Objects without declared properties take any JSON
+      return schema['properties'] ? 'object' : type ? 'json' : 'object';
+    default:
+      return 'json';
+  }
+}
+
+/**
+ * Initial form value of a field: its default, or an empty input
+ */
+export function initialValue(field: SchemaField): any {
+  switch (field.type) {
+    case 'object':
+      return Object.fromEntries(
+        (field.properties || []).map((property) => [property.key, initialValue(property)])
+      );
+    case 'array':
+      return Array.isArray(field.default) ? [...field.default] : [];
+    case 'boolean':
+      return typeof field.default === 'boolean' ? field.default : false;
+    case 'json':
+      return field.default === undefined ? '' : JSON.stringify(field.default, null, 2);
+    default:
+      return field.default ?? null;
+  }
+}
+
+/**
+ * Turn a form value into tool arguments, checking required fields and the schema's
+ * constraints. Empty optional inputs are left out of the arguments.
+ */
+export function toArguments(
+  field: SchemaField,
+  value: any,
+  path = field.key
+): { value?: any; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const fail = (message: string) => {
+    errors.push({ path, message });
+    return { errors };
+  };
+
+  if (isEmpty(field, value)) {
+    return field.required ? fail('Required') : { errors };
+  }
+
+  switch (field.type) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      for (const property of field.properties || []) {
+        const child = toArguments(property, value[property.key], joinPath(path, property.key));
+        errors.push(...child.errors);
+        if (child.value !== undefined) {
+          result[property.key] = child.value;
+        }
+      }
+      return { value: result, errors };
+    }
+
+    case 'array': {
+      const items: any[] = value;
+      if (field.minItems !== undefined && items.length < field.minItems) {
+        return fail(`At least ${field.minItems} items`);
+      }
+      if (field.maxItems !== undefined && items.length > field.maxItems) {
+        return fail(`At most ${field.maxItems} items`);
+      }
+      const result = items.map((item, index) => {
+        const child = toArguments(field.items!, item, `${path}[${index}]`);
+        errors.push(...child.errors);
+        return child.value;
+      });
+      return { value: result, errors };
+    }
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (!Number.isFinite(number)) {
+        return fail('Must be a number');
+      }
+      if (field.type === 'integer' && !Number.isInteger(number)) {
+        return fail('Must be a whole number');
+      }
+      if (field.minimum !== undefined && number < field.minimum) {
+        return fail(`Must be at least ${field.minimum}`);
+      }
+      if (field.maximum !== undefined && number > field.maximum) {
+        return fail(`Must be at most ${field.maximum}`);
+      }
+      return { value: number, errors };
+    }
+
+    case 'string': {
+      const text = String(value);
+      if (field.minLength !== undefined && text.length < field.minLength) {
+        return fail(`At least ${field.minLength} characters`);
+      }
+      if (field.maxLength !== undefined && text.length > field.maxLength) {
+        return fail(`At most ${field.maxLength} characters`);
+      }
+      if (field.pattern) {
+        const pattern = compilePattern(field.pattern);
+        if (!pattern) {
+          return fail(`The schema's pattern is not a valid regular expression: ${field.pattern}`);
+        }
+        if (!pattern.test(text)) {
+          return fail(`Must match ${field.pattern}`);
+        }
+      }
+      return { value: text, errors };
+    }
+
+    case 'json':
+      try {
+        return { value: JSON.parse(value), errors };
+      } catch {
+        return fail('Must be valid JSON');
+      }
+
+    default:
+      return { value, errors };
+  }
+}
+
+function isEmpty(field: SchemaField, value: any): boolean {
+  switch (field.type) {
+    case 'object':
+      // Objects are always sent, so their own required properties are checked
+      return value === null || value === undefined;
+    case 'array':
+      return !Array.isArray(value) || value.length === 0;
+    case 'boolean':
+      return typeof value !== 'boolean';
+    default:
+      return value === null || value === undefined || value === '';
+  }
+}
+
+// JSON Schema patterns are Unicode regular expressions, but many schemas escape characters
+// such as `-` or `_` that only non-Unicode mode accepts
+function compilePattern(source: string): RegExp | null {
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(source, flags);
+    } catch {
+      // Try the next mode
+    }
+  }
+  return null;
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// A part of a tool result, prepared for display
+export type ToolResultPart =
+  | { type: 'text'; text: string }
+  | { type: 'json'; json: string }
+  | { type: 'image'; src: string; mimeType: string }
+  | { type: 'other'; json: string };
+
+/**
+ * Display parts of a `tools/call` result: text, text holding JSON, images, embedded
+ * resources and structured content
+ */
+export function toResultParts(result: any): ToolResultPart[] {
+  const parts: ToolResultPart[] = (Array.isArray(result?.content) ? result.content : []).map(
+    (content: any): ToolResultPart => {
+      if (content?.type === 'text' && typeof content.text === 'string') {
+        return textPart(content.text);
+      }
+      if (content?.type === 'image' && typeof content.data === 'string') {
+        const mimeType = content.mimeType || 'image/png';
+        return { type: 'image', src: `data:${mimeType};base64,${content.data}`, mimeType };
+      }
+      if (content?.type === 'resource' && typeof content.resource?.text === 'string') {
+        return textPart(content.resource.text);
+      }
+      return { type: 'other', json: JSON.stringify(content, null, 2) };
+    }
+  );
+
+  if (result?.structuredContent !== undefined) {
+    parts.push({ type: 'json', json: JSON.stringify(result.structuredContent, null, 2) });
+  }
+  if (parts.length === 0 && result !== undefined) {
+    parts.push({ type: 'json', json: JSON.stringify(result, null, 2) });
+  }
+  return parts;
+}
+
+function textPart(text: string): ToolResultPart {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return { type: 'json', json: JSON.stringify(JSON.parse(trimmed), null, 2) };
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return { type: 'text', text };
+}
@@ -0,0 +1,260 @@
+import { Component, computed, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { copyToClipboard } from './clipboard';
+import { LlmTraceEntry, McpTraceEntry, TraceEntry } from './turn-trace.service';
+
+/**
+ * Collapsible list of the MCP requests and LLM calls behind one assistant reply,
+ * with their raw payloads and copy-as-JSON
+ */
+@Component({
+  selector: 'app-turn-inspector',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="turn-inspector">
+      <button class="inspector-toggle" (click)="isOpen.set(!isOpen())">
+        {{ isOpen() ? '▾' : '▸' }} Inspect {{ summary() }}
+      </button>
+
+      <div class="inspector-body" *ngIf="isOpen()">
+        <div class="inspector-actions">
+          <button class="inspector-button" (click)="copy(entries(), 'all')">
+            {{ copyLabel('all', 'Copy turn as JSON') }}
+          </button>
+        </div>
+
+        <details class="trace-entry" *ngFor="let entry of entries(); let i = index">
+          <summary>
+            <ng-container *ngIf="entry.kind === 'mcp'; else llmSummary">
+              <span class="trace-kind mcp">MCP</span>
+              <strong>{{ mcp(entry).method }}</strong>
+              <span class="trace-detail">{{ mcp(entry).serverId }}</span>
+              <span *ngIf="mcp(entry).cached" class="trace-badge">cached</span>
+            </ng-container>
+            <ng-template #llmSummary>
+              <span class="trace-kind llm">LLM</span>
+              <strong>{{ llm(entry).settings.model }}</strong>
+              <span class="trace-detail">{{ llm(entry).provider }} · {{ llm(entry).purpose }}</span>
+              <span *ngIf="llm(entry).stream" class="trace-badge">stream</span>
+            </ng-template>
+            <span *ngIf="entry.error" class="trace-badge error">error</span>
+            <span class="trace-duration">{{ entry.durationMs }} ms</span>
+          </summary>
+
+          <ng-container *ngIf="entry.kind === 'mcp'; else llmDetails">
+            <h5>Params</h5>
+            <pre>{{ toJson(mcp(entry).params ?? {}) }}</pre>
+            <ng-container *ngIf="!entry.error">
+              <h5>Result</h5>
+              <pre>{{ toJson(mcp(entry).result) }}</pre>
+            </ng-container>
+          </ng-container>
+          <ng-template #llmDetails>
+            <h5>System prompt</h5>
+            <pre>{{ systemPrompt(llm(entry)) || '(none)' }}</pre>
+            <h5>Messages ({{ llm(entry).messages.length }})</h5>
+            <pre>{{ toJson(conversationMessages(llm(entry))) }}</pre>
+            <h5>Settings</h5>
+            <pre>{{ toJson(llm(entry).settings) }}</pre>
+            <ng-container *ngIf="llm(entry).tools?.length">
+              <h5>Tools</h5>
+              <pre>{{ toolNames(llm(entry)) }}</pre>
+            </ng-container>
+            <ng-container *ngIf="llm(entry).response">
+              <h5>Response</h5>
+              <pre>{{ toJson(llm(entry).response) }}</pre>
+            </ng-container>
+          </ng-template>
+          <ng-container *ngIf="entry.error">
+            <h5>Error</h5>
+            <pre class="trace-error">{{ entry.error }}</pre>
+          </ng-container>
+
+          <button class="inspector-button" (click)="copy(entry, i)">
+            {{ copyLabel(i, 'Copy as JSON') }}
+          </button>
+        </details>
+      </div>
+    </div>
+  `,
+  styles: [`
+    .turn-inspector {
+      margin-top: 0.5rem;
+      font-size: 0.75rem;
+    }
+
+    .inspector-toggle {
+      background: none;
+      border: none;
+      padding: 0;
+      color: var(--text-secondary);
+      font-size: 0.75rem;
+      cursor: pointer;
+    }
+
+    .inspector-toggle:hover {
+      color: var(--text-primary);
+    }
+
+    .inspector-body {
+      margin-top: 0.375rem;
+      display: flex;
+      flex-direction: column;
+      gap: 0.375rem;
+    }
+
+    .inspector-actions {
+      display: flex;
+      justify-content: flex-end;
+    }
+
+    .inspector-button {
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 4px;
+      padding: 0.125rem 0.5rem;
+      font-size: 0.75rem;
+      color: var(--text-secondary);
+      cursor: pointer;
+    }
+
+    .inspector-button:hover {
+      color: var(--text-primary);
+    }
+
+    .trace-entry {
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      padding: 0.375rem 0.5rem;
+      background: var(--surface);
+    }
+
+    .trace-entry summary {
+      display: flex;
+      align-items: center;
+      gap: 0.375rem;
+      cursor: pointer;
+    }
+
+    .trace-kind {
+      font-weight: 600;
+      font-size: 0.625rem;
+      padding: 0.05rem 0.3rem;
+      border-radius: 3px;
+      color: white;
+    }
+
+    .trace-kind.mcp {
+      background: #0891b2;
+    }
+
+    .trace-kind.llm {
+      background: #7c3aed;
+    }
+
+    .trace-detail {
+      color: var(--text-secondary);
+    }
+
+    .trace-badge {
+      padding: 0.05rem 0.3rem;
+      border-radius: 3px;
+      background: #f1f5f9;
+      color: #475569;
+    }
+
+    .trace-badge.error {
+      background: #fee2e2;
+      color: #b91c1c;
+    }
+
+    .trace-duration {
+      margin-left: auto;
+      color: var(--text-secondary);
+      font-variant-numeric: tabular-nums;
+    }
+
+    .trace-entry h5 {
+      margin: 0.5rem 0 0.25rem 0;
+      font-size: 0.75rem;
+      font-weight: 600;
+    }
+
+    .trace-entry pre {
+      margin: 0 0 0.375rem 0;
+      max-height: 16rem;
+      overflow: auto;
+      padding: 0.375rem 0.5rem;
+      background: #f8fafc;
+      border-radius: 4px;
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+    }
+
+    .trace-entry pre.trace-error {
+      color: #b91c1c;
+    }
+  `]
+})
+export class TurnInspectorComponent {
+  entries = input<TraceEntry[]>([]);
+
+  isOpen = signal(false);
+  // Which copy button last succeeded: 'all' or the index of an entry
+  // Outcome of the latest copy, shown on its button for a moment
+  copyState = signal<{ key: 'all' | number; copied: boolean } | null>(null);
+
+  protected summary = computed(() => {
+    const entries = this.entries();
+    const mcpCount = entries.filter((entry) => entry.kind === 'mcp').length;
+    const llmCount = entries.length - mcpCount;
+    return `(${mcpCount} MCP ${mcpCount === 1 ? 'request' : 'requests'}, ${llmCount} LLM ${
+      llmCount === 1 ? 'call' : 'calls'
+    })`;
+  });
+
+  // Narrowing helpers; templates cannot narrow a union on `kind`
+  mcp(entry: TraceEntry): McpTraceEntry {
+    return entry as McpTraceEntry;
+  }
+
+  llm(entry: TraceEntry): LlmTraceEntry {
+    return entry as LlmTraceEntry;
+  }
+
+  systemPrompt(entry: LlmTraceEntry): string {
+    return entry.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content ?? '')
+      .join('\n\n');
+  }
+
+  conversationMessages(entry: LlmTraceEntry) {
+    return entry.messages.filter((message) => message.role !== 'system');
+  }
+
+  toolNames(entry: LlmTraceEntry): string {
+    return (entry.tools || []).map((tool) => tool.function.name).join('\n');
+  }
+
+  toJson(value: unknown): string {
+    return JSON.stringify(value, null, 2) ?? '';
+  }
+
+  copy(value: TraceEntry | TraceEntry[], key: 'all' | number) {
+    copyToClipboard(this.toJson(value)).then((copied) => {
+      const state = { key, copied };
+      this.copyState.set(state);
+      setTimeout(() => this.copyState() === state && this.copyState.set(null), 2000);
+    });
+  }
+
+  copyLabel(key: 'all' | number, label: string): string {
+    const state = this.copyState();
+    if (state?.key !== key) {
+      return label;
+    }
+    return state.copied ? 'Copied!' : 'Copy failed';
+  }
+}
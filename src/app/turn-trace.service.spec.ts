@@ -0,0 +1,87 @@
+import { Subject, lastValueFrom, of, throwError } from 'rxjs';
+import { McpTraceEntry, TurnTraceService, describeTraceError } from './turn-trace.service';
+
+describe('TurnTraceService', () => {
+  let service: TurnTraceService;
+
+  const toEntry = ({ value, error, durationMs }: any): McpTraceEntry => ({
+    kind: 'mcp',
+    serverId: 'local',
+    method: 'tools/call',
+    startedAt: 0,
+    durationMs,
+    result: value,
+    error: error ? describeTraceError(error) : undefined,
+  });
+
+  beforeEach(() => {
+    service = new TurnTraceService();
+  });
+
+  it('should record requests made during a turn with their result', async () => {
+    service.begin('turn-1');
+    await lastValueFrom(service.track(of('first', 'last'), toEntry));
+
+    const entries = service.entriesFor('turn-1') as McpTraceEntry[];
+    expect(entries.length).toBe(1);
+    expect(entries[0].result).toBe('last');
+    expect(entries[0].error).toBeUndefined();
+  });
+
+  it('should record failed requests with their error', async () => {
+    service.begin('turn-1');
+    await lastValueFrom(service.track(throwError(() => new Error('boom')), toEntry)).catch(
+      () => undefined
+    );
+
+    expect((service.entriesFor('turn-1')[0] as McpTraceEntry).error).toBe('boom');
+  });
+
+  it('should not record requests made outside a turn', async () => {
+    await lastValueFrom(service.track(of('value'), toEntry));
+    expect(Object.keys(service.traces()).length).toBe(0);
+  });
+
+  it('should attribute a request to the turn active when it started', () => {
+    const response = new Subject<string>();
+    service.begin('turn-1');
+    service.track(response, toEntry).subscribe();
+    service.end('turn-1');
+    service.begin('turn-2');
+
+    response.next('late');
+    response.complete();
+
+    expect(service.entriesFor('turn-1').length).toBe(1);
+    expect(service.entriesFor('turn-2').length).toBe(0);
+  });
+
+  it('should record requests unsubscribed before they ended as cancelled', () => {
+    service.begin('turn-1');
+    service.track(new Subject<string>(), toEntry).subscribe().unsubscribe();
+
+    expect(service.entriesFor('turn-1')[0].error).toBe('Cancelled');
+  });
+
+  it('should forget every turn when cleared', async () => {
+    service.begin('turn-1');
+    await lastValueFrom(service.track(of('value'), toEntry));
+    service.clear();
+
+    expect(service.entriesFor('turn-1')).toEqual([]);
+    service.recordNow(toEntry({ durationMs: 0 }));
+    expect(Object.keys(service.traces()).length).toBe(0);
+  });
+});
+
+describe('describeTraceError', () => {
+  it('should prefer the API error message of an HTTP error', () => {
+    const error = { error: { error: { message: 'Invalid key' } }, message: 'Http failure' };
+    expect(describeTraceError(error)).toBe('Invalid key');
+  });
+
+  it('should fall back to the message or the value itself', () => {
+    expect(describeTraceError(new Error('boom'))).toBe('boom');
+    expect(describeTraceError('plain')).toBe('plain');
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable, signal } from '@angular/core';
+import { Observable, defer } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+import type { ModelSettings } from './config.service';
+import type { OpenAIMessage, OpenAITool } from './openai.service';
+
+// A JSON-RPC request sent to an MCP server, or a tool result served from the cache
+export interface McpTraceEntry {
+  kind: 'mcp';
+  serverId: string;
+  method: string;
+  params?: Record<string, any>;
+  startedAt: number;
+  durationMs: number;
+  result?: any;
+  error?: string;
+  cached?: boolean;
+}
+
+// A chat completion request exactly as handed to the provider
+export interface LlmTraceEntry {
+  kind: 'llm';
+  provider: string;
+  purpose: 'chat' | 'summary';
+  stream: boolean;
+  messages: OpenAIMessage[];
+  tools?: OpenAITool[];
+  toolChoice?: 'auto' | 'none';
+  settings: ModelSettings;
+  startedAt: number;
+  durationMs: number;
+  response?: OpenAIMessage;
+  error?: string;
+}
+
+export type TraceEntry = McpTraceEntry | LlmTraceEntry;
+
+// How a tracked request ended: the last value it emitted, or its error
+export interface TraceOutcome<T> {
+  value?: T;
+  error?: any;
+  startedAt: number;
+  durationMs: number;
+}
+
+/**
+ * Records the MCP and LLM requests made for each assistant reply, for the inspector.
+ * Requests are attributed to the turn that was active when they started; requests made
+ * outside a turn (startup, background cache refreshes) are not recorded.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class TurnTraceService {
+  private activeTurn: string | null = null;
+  private _traces = signal<Record<string, TraceEntry[]>>({});
+
+  readonly traces = this._traces.asReadonly();
+
+  /**
+   * Attribute the requests that start from now on to a turn
+   */
+  begin(turnId: string): void {
+    this.activeTurn = turnId;
+    this._traces.update((traces) => ({ ...traces, [turnId]: [] }));
+  }
+
+  /**
+   * Stop attributing requests to the turn; requests already running still report to it
+   */
+  end(turnId: string): void {
+    if (this.activeTurn === turnId) {
+      this.activeTurn = null;
+    }
+  }
+
+  entriesFor(turnId: string): TraceEntry[] {
+    return this._traces()[turnId] ?? [];
+  }
+
+  /**
+   * Forget every recorded turn, e.g. when another conversation is opened
+   */
+  clear(): void {
+    this.activeTurn = null;
+    this._traces.set({});
+  }
+
+  /**
+   * Time a request and record it once it succeeds or fails. `describe` builds the entry
+   * from the last value emitted (or the error) and the elapsed time.
+   */
+  track<T>(
+    request: Observable<T>,
+    describe: (outcome: TraceOutcome<T>) => TraceEntry
+  ): Observable<T> {
+    return defer(() => {
+      const turnId = this.activeTurn;
+      if (!turnId) {
+        return request;
+      }
+
+      const startedAt = Date.now();
+      let value: T | undefined;
+      let settled = false;
+      const record = (error?: any) => {
+        settled = true;
+        const durationMs = Date.now() - startedAt;
+        this.record(turnId, describe({ value, error, startedAt, durationMs }));
+      };
+
+      return request.pipe(
+        tap({
+          next: (next) => (value = next),
+          complete: () => record(),
+          error: (error) => record(error),
+        }),
+        // Unsubscribed before it ended, e.g. the reply was stopped
+        finalize(() => settled || record(new Error('Cancelled')))
+      );
+    });
+  }
+
+  /**
+   * Add an entry to the active turn, for work that is not an observable request
+   */
+  recordNow(entry: TraceEntry): void {
+    if (this.activeTurn) {
+      this.record(this.activeTurn, entry);
+    }
+  }
+
+  private record(turnId: string, entry: TraceEntry): void {
+    this._traces.update((traces) =>
+      turnId in traces ? { ...traces, [turnId]: [...traces[turnId], entry] } : traces
+    );
+  }
+}
+
+/**
+ * Readable message of an error from HttpClient, an MCP server or anywhere else
+ */
+export function describeTraceError(error: any): string {
+  return error?.error?.error?.message || error?.message || String(error);
+}
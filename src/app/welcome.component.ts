@@ -0,0 +1,119 @@
+import { Component, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+
+/**
+ * Greeting at the top of the chat, with questions the user can send in one click
+ */
+@Component({
+  selector: 'app-welcome',
+  standalone: true,
+  imports: [CommonModule],
+  template: `
+    <div class="welcome-message">
+      <h2>Welcome to AI Assistant</h2>
+      <p>Start a conversation by typing a message below. I'm here to help!</p>
+    </div>
+
+    <!-- Suggested Questions - Always Visible -->
+    <div class="suggested-questions">
+      <h3>💡 Try asking:</h3>
+      <div class="questions-grid">
+        <button
+          class="question-btn"
+          *ngFor="let question of suggestedQuestions"
+          (click)="questionSelected.emit(question)"
+          type="button">
+          {{ question }}
+        </button>
+      </div>
+    </div>
+  `,
+  styles: [`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 1rem;
+    }
+
+    .welcome-message {
+      text-align: center;
+      padding: 2rem;
+      color: var(--text-secondary);
+    }
+
+    .welcome-message h2 {
+      margin: 0 0 0.5rem 0;
+      color: var(--text-primary);
+      font-size: 1.5rem;
+      font-weight: 600;
+    }
+
+    .suggested-questions {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      margin: 1.5rem 0;
+      padding: 0 1rem;
+    }
+
+    .suggested-questions h3 {
+      margin: 0 0 0.5rem 0;
+      font-size: 1rem;
+      font-weight: 600;
+      color: var(--text-primary);
+      text-align: center;
+    }
+
+    .questions-grid {
+      display: flex;
+      flex-direction: column;
+      gap: 0.5rem;
+    }
+
+    .question-btn {
+      background: var(--surface);
+      border: 1px solid var(--border);
+      border-radius: 0.75rem;
+      padding: 0.75rem 1rem;
+      text-align: left;
+      cursor: pointer;
+      transition: all 0.2s ease;
+      color: var(--text-primary);
+      font-size: 0.875rem;
+      line-height: 1.4;
+      box-shadow: var(--shadow);
+    }
+
+    .question-btn:hover {
+      background: var(--primary-color);
+      color: white;
+      border-color: var(--primary-color);
+      transform: translateY(-1px);
+      box-shadow: var(--shadow-lg);
+    }
+
+    @media (max-width: 768px) {
+      .suggested-questions {
+        padding: 0 0.5rem;
+        margin: 1rem 0;
+      }
+
+      .question-btn {
+        padding: 0.625rem 0.875rem;
+        font-size: 0.8rem;
+      }
+    }
+  `]
+})
+export class WelcomeComponent {
+  questionSelected = output<string>();
+
+  // Suggested questions for users
+  suggestedQuestions = [
+    "What AI companies are available?",
+    "Tell me about OpenAI's products",
+    "Which companies offer chatbots?",
+    "What LLM models does Google have?",
+    "Compare Anthropic and OpenAI"
+  ];
+}
@@ -6,23 +6,50 @@ import {
 } from '@angular/ssr/node';
 import express from 'express';
 import { join } from 'node:path';
+import { createChatProxy, loadChatProxyOptions } from './server/chat-proxy';
+import { createMcpProxy, loadMcpProxyOptions } from './server/mcp-proxy';
+import { createMockMcpServer, loadMockMcpServerOptions } from './server/mock-mcp-server';
+import { createOpenAIStub, loadOpenAIStubOptions } from './server/openai-stub';
 
 const browserDistFolder = join(import.meta.dirname, '../browser');
 
 const app = express();
 const angularApp = new AngularNodeAppEngine();
 
-/**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/{*splat}', (req, res) => {
- *   // Handle API request
- * });
- * ```
- */
+// Offline development: `MOCK_SERVICES=true` replaces OpenAI and the MCP server with local stand-ins
+const mockServices = ['1', 'true'].includes(process.env['MOCK_SERVICES']?.toLowerCase() ?? '');
+
+if (mockServices) {
+  /**
+   * OpenAI-compatible stub answering from scripted rules (`OPENAI_STUB_SCRIPT`).
+   * At `/api/chat` it stands in for the chat proxy with a server-managed key; at
+   * `/api/mock/openai/v1` it can be used as an OpenAI-compatible base URL.
+   */
+  const openaiStub = createOpenAIStub(loadOpenAIStubOptions());
+  app.use('/api/chat', openaiStub);
+  app.use('/api/mock/openai/v1', openaiStub);
+
+  /**
+   * Local MCP server with fixture data (`MOCK_MCP_DATA`); every MCP server entry pointing
+   * at `/api/mcp` reaches it, whatever `X-MCP-Target` it names.
+   */
+  app.use('/api/mcp', createMockMcpServer(loadMockMcpServerOptions()));
+
+  console.log('Mock services enabled: /api/chat and /api/mcp are served locally');
+} else {
+  /**
+   * OpenAI chat completions proxy.
+   * When `OPENAI_API_KEY` is set the key stays on the server and the browser calls `/api/chat`.
+   */
+  app.use('/api/chat', createChatProxy(loadChatProxyOptions()));
+
+  /**
+   * MCP proxy.
+   * Forwards `/api/mcp` and `/api/mcp/health` to `MCP_UPSTREAM_URL`, or to the server named in
+   * the `X-MCP-Target` header when its host is listed in `MCP_ALLOWED_HOSTS`.
+   */
+  app.use('/api/mcp', createMcpProxy(loadMcpProxyOptions()));
+}
 
 /**
  * Serve static files from /browser
@@ -0,0 +1,117 @@
+import express, { Router } from 'express';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import { chatCompletionRequest, chatResponseHeaders } from './chat-upstream';
+
+export interface ChatProxyOptions {
+  /** OpenAI API key held by the server; never sent to the browser */
+  apiKey?: string;
+  /** Chat completions endpoint requests are forwarded to */
+  apiUrl: string;
+  /** Model list endpoint of the same provider */
+  modelsUrl: string;
+}
+
+/**
+ * Read the chat proxy settings from the environment.
+ * `OPENAI_API_KEY` enables the server-managed key mode; `OPENAI_API_URL` overrides the endpoint.
+ * The model list is read from `OPENAI_MODELS_URL`, or from `../models` next to the endpoint.
+ */
+export function loadChatProxyOptions(env: NodeJS.ProcessEnv = process.env): ChatProxyOptions {
+  const apiUrl = env['OPENAI_API_URL'] || 'https://api.openai.com/v1/chat/completions';
+  return {
+    apiKey: env['OPENAI_API_KEY'] || undefined,
+    apiUrl,
+    modelsUrl: env['OPENAI_MODELS_URL'] || new URL('../models', apiUrl).toString(),
+  };
+}
+
+/**
+ * Router forwarding chat completions (including streamed ones) to OpenAI with the server's key.
+ *
+ * - `GET  /status` tells the client whether the server manages the key
+ * - `GET  /models` lists the provider's models
+ * - `POST /`       forwards the request body to the chat completions endpoint
+ */
+export function createChatProxy(options: ChatProxyOptions): Router {
+  const router = Router();
+
+  router.get('/status', (req, res) => {
+    res.json({ serverManagedKey: !!options.apiKey });
+  });
+
+  router.get('/models', async (req, res) => {
+    if (!options.apiKey) {
+      res.status(503).json({
+        error: { message: 'The server is not configured with an OpenAI API key' },
+      });
+      return;
+    }
+
+    try {
+      const upstream = await fetch(options.modelsUrl, {
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+      });
+      res.status(upstream.status);
+      res.setHeader('Content-Type', upstream.headers.get('Content-Type') || 'application/json');
+      res.send(await upstream.text());
+    } catch (error) {
+      console.error('OpenAI models proxy error:', error);
+      res.status(502).json({ error: { message: 'Could not reach the OpenAI API' } });
+    }
+  });
+
+  router.post('/', express.json({ limit: '2mb' }), async (req, res) => {
+    if (!options.apiKey) {
+      res.status(503).json({
+        error: { message: 'The server is not configured with an OpenAI API key' },
+      });
+      return;
+    }
+
+    // Abort the upstream request when the browser goes away (e.g. the user stops a stream)
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        controller.abort();
+      }
+    });
+
+    try {
+      const upstream = await fetch(
+        options.apiUrl,
+        chatCompletionRequest(req.body, req.get('Accept'), options.apiKey, controller.signal),
+      );
+
+      res.status(upstream.status);
+      const headers = chatResponseHeaders(upstream.headers);
+      for (const [name, value] of Object.entries(headers)) {
+        res.setHeader(name, value);
+      }
+
+      if (!upstream.body) {
+        res.end();
+        return;
+      }
+      if (headers['content-type']?.includes('text/event-stream')) {
+        res.setHeader('Cache-Control', 'no-cache');
+        res.flushHeaders();
+      }
+      Readable.fromWeb(upstream.body as ReadableStream)
+        .on('error', () => res.destroy())
+        .pipe(res);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        return;
+      }
+      console.error('OpenAI proxy error:', error);
+      if (!res.headersSent) {
+        res.status(502).json({ error: { message: 'Could not reach the OpenAI API' } });
+      } else {
+        res.destroy();
+      }
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,36 @@
+import { chatCompletionRequest, chatResponseHeaders } from './chat-upstream';
+
+describe('chat proxy upstream', () => {
+  it("should send only the server's key with the request body", () => {
+    const body = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'Hi' }] };
+    const request = chatCompletionRequest(body, 'text/event-stream', 'sk-server');
+
+    expect(request.method).toBe('POST');
+    expect(request.headers).toEqual({
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      Authorization: 'Bearer sk-server',
+    });
+    expect(JSON.parse(request.body as string)).toEqual(body);
+  });
+
+  it('should ask for JSON when the browser names no Accept type', () => {
+    const request = chatCompletionRequest({}, undefined, 'sk-server');
+    expect((request.headers as Record<string, string>)['Accept']).toBe('application/json');
+  });
+
+  it('should only pass the content type and Retry-After back', () => {
+    const headers = new Headers({
+      'Content-Type': 'application/json',
+      'Retry-After': '20',
+      'Set-Cookie': '__cf_bm=1',
+      'OpenAI-Organization': 'org-123',
+      'X-Request-Id': 'req_1',
+    });
+
+    expect(chatResponseHeaders(headers)).toEqual({
+      'content-type': 'application/json',
+      'retry-after': '20',
+    });
+  });
+});
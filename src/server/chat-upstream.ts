@@ -0,0 +1,38 @@
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after'];
+
+/**
+ * Request to the chat completions endpoint for a browser's request body. Only the server's
+ * key is sent: none of the browser's headers (its cookies, or a key of its own) are forwarded.
+ */
+export function chatCompletionRequest(
+  body: unknown,
+  accept: string | undefined,
+  apiKey: string,
+  signal?: AbortSignal,
+): RequestInit {
+  return {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: accept || 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+    signal,
+  };
+}
+
+/**
+ * The provider's response headers that are passed back to the browser
+ */
+export function chatResponseHeaders(headers: Headers): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = headers.get(name);
+    if (value) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
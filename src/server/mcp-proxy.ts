@@ -0,0 +1,129 @@
+import express, { Request, Response, Router } from 'express';
+import { Readable } from 'node:stream';
+import type { ReadableStream } from 'node:stream/web';
+import {
+  MCP_TARGET_HEADER,
+  fetchUpstream,
+  isAllowedUpstream,
+  upstreamRequestHeaders,
+  upstreamResponseHeaders,
+} from './mcp-upstream';
+
+export interface McpProxyOptions {
+  /** Upstream MCP endpoint used when the client does not ask for another one */
+  upstreamUrl: string;
+  /** Hosts the client may target through `X-MCP-Target`; `*.example.com` matches subdomains */
+  allowedHosts: string[];
+}
+
+/**
+ * Read the MCP proxy settings from the environment.
+ * `MCP_UPSTREAM_URL` sets the default server and `MCP_ALLOWED_HOSTS` (comma separated)
+ * lists additional hosts clients may reach. The default upstream's host is always allowed.
+ */
+export function loadMcpProxyOptions(env: NodeJS.ProcessEnv = process.env): McpProxyOptions {
+  const upstreamUrl = env['MCP_UPSTREAM_URL'] || 'https://mcp.bmcom.ca/mcp';
+  const allowedHosts = (env['MCP_ALLOWED_HOSTS'] || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => !!host);
+
+  return {
+    upstreamUrl,
+    allowedHosts: [new URL(upstreamUrl).host.toLowerCase(), ...allowedHosts],
+  };
+}
+
+/**
+ * Router proxying MCP Streamable HTTP traffic to an allowlisted upstream server.
+ *
+ * - `GET  /health`            forwards to the upstream's `/health` endpoint
+ * - `POST|GET|DELETE /`       forwards JSON-RPC messages, SSE streams and session termination
+ */
+export function createMcpProxy(options: McpProxyOptions): Router {
+  const router = Router();
+
+  router.get('/health', async (req, res) => {
+    const target = resolveTarget(req, res, options);
+    if (!target) {
+      return;
+    }
+    await forward(req, res, new URL(`${target.href.replace(/\/$/, '')}/health`));
+  });
+
+  router.all('/', express.raw({ type: '*/*', limit: '4mb' }), async (req, res) => {
+    const target = resolveTarget(req, res, options);
+    if (!target) {
+      return;
+    }
+    await forward(req, res, target);
+  });
+
+  return router;
+}
+
+function resolveTarget(req: Request, res: Response, options: McpProxyOptions): URL | null {
+  const requested = req.get(MCP_TARGET_HEADER);
+  let target: URL;
+  try {
+    target = new URL(requested || options.upstreamUrl);
+  } catch {
+    res.status(400).json({ error: { message: `Invalid MCP server URL: ${requested}` } });
+    return null;
+  }
+
+  if (!isAllowedUpstream(target, options.allowedHosts)) {
+    res.status(403).json({ error: { message: `MCP server host is not allowed: ${target.host}` } });
+    return null;
+  }
+  return target;
+}
+
+async function forward(req: Request, res: Response, target: URL): Promise<void> {
+  // Abort the upstream request (and any open SSE stream) when the browser disconnects
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD' && Buffer.isBuffer(req.body);
+
+  try {
+    const upstream = await fetchUpstream(target, {
+      method: req.method,
+      headers: upstreamRequestHeaders(req.headers),
+      body: hasBody && req.body.length > 0 ? req.body : undefined,
+      signal: controller.signal,
+    });
+
+    res.status(upstream.status);
+    for (const [name, value] of Object.entries(upstreamResponseHeaders(upstream.headers))) {
+      res.setHeader(name, value);
+    }
+
+    if (!upstream.body) {
+      res.end();
+      return;
+    }
+    if (upstream.headers.get('content-type')?.includes('text/event-stream')) {
+      // Send events to the browser as soon as they arrive
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+    }
+    Readable.fromWeb(upstream.body as ReadableStream)
+      .on('error', () => res.destroy())
+      .pipe(res);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return;
+    }
+    console.error(`MCP proxy error for ${target.href}:`, error);
+    if (!res.headersSent) {
+      res.status(502).json({ error: { message: `Could not reach MCP server at ${target.host}` } });
+    } else {
+      res.destroy();
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  fetchUpstream,
+  isAllowedUpstream,
+  upstreamRequestHeaders,
+  upstreamResponseHeaders,
+} from './mcp-upstream';
+
+describe('MCP proxy upstream', () => {
+  describe('isAllowedUpstream', () => {
+    const allowed = (url: string, hosts: string[]) => isAllowedUpstream(new URL(url), hosts);
+
+    it('should match wildcard entries on subdomains only', () => {
+      expect(allowed('https://mcp.example.com/mcp', ['*.example.com'])).toBeTrue();
+      expect(allowed('https://a.b.example.com/mcp', ['*.example.com'])).toBeTrue();
+      expect(allowed('https://example.com/mcp', ['*.example.com'])).toBeFalse();
+      expect(allowed('https://evil.com/mcp', ['*.example.com'])).toBeFalse();
+      expect(allowed('https://evilexample.com/mcp', ['*.example.com'])).toBeFalse();
+      expect(allowed('https://example.com.evil.com/mcp', ['*.example.com'])).toBeFalse();
+    });
+
+    it('should match exact entries on the whole host name', () => {
+      expect(allowed('https://Example.com/mcp', ['example.com'])).toBeTrue();
+      expect(allowed('https://example.com.evil.com/mcp', ['example.com'])).toBeFalse();
+      expect(allowed('https://mcp.example.com/mcp', ['example.com'])).toBeFalse();
+    });
+
+    it('should only allow the port an entry names, or the default port', () => {
+      expect(allowed('https://example.com/mcp', ['example.com:443'])).toBeTrue();
+      expect(allowed('http://localhost:3001/mcp', ['localhost:3001'])).toBeTrue();
+      expect(allowed('http://localhost:3002/mcp', ['localhost:3001'])).toBeFalse();
+      expect(allowed('https://example.com:8443/mcp', ['example.com'])).toBeFalse();
+      expect(allowed('https://mcp.example.com:8443/mcp', ['*.example.com'])).toBeFalse();
+      expect(allowed('https://mcp.example.com:8443/mcp', ['*.example.com:8443'])).toBeTrue();
+    });
+
+    it('should refuse other schemes', () => {
+      expect(allowed('ftp://example.com/mcp', ['example.com'])).toBeFalse();
+      expect(allowed('file:///etc/passwd', ['example.com'])).toBeFalse();
+    });
+  });
+
+  describe('headers', () => {
+    it('should strip cookies, browser context and forwarding headers from requests', () => {
+      const headers = upstreamRequestHeaders({
+        'content-type': 'application/json',
+        'mcp-session-id': 'session-1',
+        authorization: 'Bearer server-token',
+        cookie: 'session=secret',
+        origin: 'https://app.example.com',
+        referer: 'https://app.example.com/chat',
+        host: 'app.example.com',
+        'x-mcp-target': 'https://mcp.example.com/mcp',
+        'x-forwarded-for': '10.0.0.1',
+        'x-forwarded-proto': 'https',
+        'sec-fetch-site': 'same-origin',
+        'sec-ch-ua': '"Chromium"',
+        accept: ['application/json', 'text/event-stream'],
+        'if-none-match': undefined,
+      });
+
+      expect(headers).toEqual({
+        'content-type': 'application/json',
+        'mcp-session-id': 'session-1',
+        authorization: 'Bearer server-token',
+        accept: 'application/json, text/event-stream',
+      });
+    });
+
+    it('should only pass MCP response headers back', () => {
+      const headers = new Headers({
+        'Content-Type': 'text/event-stream',
+        'Mcp-Session-Id': 'session-1',
+        'Set-Cookie': 'tracker=1',
+        'Access-Control-Allow-Origin': '*',
+      });
+
+      expect(upstreamResponseHeaders(headers)).toEqual({
+        'content-type': 'text/event-stream',
+        'mcp-session-id': 'session-1',
+      });
+    });
+  });
+
+  describe('fetchUpstream', () => {
+    const target = new URL('https://mcp.example.com/mcp');
+
+    beforeEach(() => {
+      spyOn(console, 'error');
+    });
+
+    it('should not follow redirects and answer a 3xx with a 502', async () => {
+      const fetchFn = jasmine
+        .createSpy('fetch')
+        .and.resolveTo(
+          new Response('moved', { status: 302, headers: { Location: 'https://evil.com/mcp' } }),
+        );
+
+      const response = await fetchUpstream(target, { method: 'POST' }, fetchFn);
+
+      expect(fetchFn).toHaveBeenCalledOnceWith(target, { method: 'POST', redirect: 'manual' });
+      expect(response.status).toBe(502);
+      expect(response.headers.get('location')).toBeNull();
+      expect(await response.json()).toEqual({
+        error: { message: 'MCP server at mcp.example.com redirected' },
+      });
+    });
+
+    it('should return other responses unchanged', async () => {
+      const upstream = new Response('{}', { status: 404 });
+      const fetchFn = jasmine.createSpy('fetch').and.resolveTo(upstream);
+
+      expect(await fetchUpstream(target, { method: 'GET' }, fetchFn)).toBe(upstream);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/** Header the client uses to pick an upstream MCP server other than the default one */
+export const MCP_TARGET_HEADER = 'X-MCP-Target';
+
+// Request headers never passed to the upstream MCP server: hop-by-hop headers, browser
+// context and our own cookies. Everything else (MCP session headers, per-server headers
+// such as Authorization configured by the user) is forwarded.
+const BLOCKED_REQUEST_HEADERS = new Set([
+  'host',
+  'connection',
+  'keep-alive',
+  'proxy-authorization',
+  'proxy-connection',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'content-length',
+  'accept-encoding',
+  'cookie',
+  'origin',
+  'referer',
+  MCP_TARGET_HEADER.toLowerCase(),
+]);
+
+// Response headers passed back to the browser
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'mcp-session-id', 'cache-control', 'retry-after'];
+
+/**
+ * Check a URL against the host allowlist. An entry naming a port allows only that port;
+ * otherwise only the scheme's default port is allowed.
+ */
+export function isAllowedUpstream(url: URL, allowedHosts: string[]): boolean {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  return allowedHosts.some((allowed) => {
+    const wildcard = allowed.startsWith('*.');
+    let entry: URL;
+    try {
+      // Parsed with the target's scheme, so an explicit default port ("host:443") matches too
+      entry = new URL(`${url.protocol}//${wildcard ? allowed.slice(2) : allowed}`);
+    } catch {
+      return false;
+    }
+    if (entry.port !== url.port) {
+      return false;
+    }
+    return wildcard ? hostname.endsWith(`.${entry.hostname}`) : hostname === entry.hostname;
+  });
+}
+
+/**
+ * The browser's request headers that are passed on to the upstream MCP server
+ */
+export function upstreamRequestHeaders(
+  headers: Record<string, string | string[] | undefined>,
+): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lowerName = name.toLowerCase();
+    if (
+      value === undefined ||
+      BLOCKED_REQUEST_HEADERS.has(lowerName) ||
+      lowerName.startsWith('sec-') ||
+      lowerName.startsWith('x-forwarded-')
+    ) {
+      continue;
+    }
+    forwarded[lowerName] = Array.isArray(value) ? value.join(', ') : value;
+  }
+  return forwarded;
+}
+
+/**
+ * The upstream response headers that are passed back to the browser
+ */
+export function upstreamResponseHeaders(headers: Headers): Record<string, string> {
+  const forwarded: Record<string, string> = {};
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = headers.get(name);
+    if (value) {
+      forwarded[name] = value;
+    }
+  }
+  return forwarded;
+}
+
+/**
+ * Send a request to an allowlisted MCP server. Redirects are not followed, since they could
+ * lead to any host: the response to one is a 502 instead.
+ */
+export async function fetchUpstream(
+  target: URL,
+  init: RequestInit,
+  fetchFn: typeof fetch = fetch,
+): Promise<Response> {
+  const upstream = await fetchFn(target, { ...init, redirect: 'manual' });
+  const redirected =
+    upstream.type === 'opaqueredirect' || (upstream.status >= 300 && upstream.status < 400);
+  if (!redirected) {
+    return upstream;
+  }
+
+  await upstream.body?.cancel();
+  console.error(`MCP proxy refused a redirect from ${target.href}`);
+  const error = { error: { message: `MCP server at ${target.host} redirected` } };
+  return new Response(JSON.stringify(error), {
+    status: 502,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,66 @@
+import { readFileSync } from 'node:fs';
+import type { Company } from '../app/company-models';
+
+/**
+ * Fixture dataset served by the mock MCP server: a handful of companies with their
+ * chatbots and models, in the shape the real `getCompanies` tool returns.
+ */
+export const MOCK_COMPANIES: Company[] = [
+  {
+    company: 'OpenAI',
+    description: 'AI research and deployment company behind the GPT models.',
+    chats: [
+      { chatbot: 'ChatGPT', description: 'General-purpose conversational assistant.' },
+    ],
+    llms: [
+      { llm: 'GPT-4o', specialization: 'Multimodal reasoning over text, images and audio' },
+      { llm: 'o3-mini', specialization: 'Fast reasoning for math and code' },
+    ],
+  },
+  {
+    company: 'Anthropic',
+    description: 'AI safety company building reliable, interpretable AI systems.',
+    chats: [{ chatbot: 'Claude', description: 'Assistant for writing, analysis and coding.' }],
+    llms: [
+      { llm: 'Claude Sonnet', specialization: 'Balanced model for coding and agents' },
+      { llm: 'Claude Haiku', specialization: 'Fast, low-cost tasks' },
+    ],
+  },
+  {
+    company: 'Google DeepMind',
+    description: 'Google research lab developing the Gemini family of models.',
+    chats: [{ chatbot: 'Gemini', description: 'Assistant integrated with Google services.' }],
+    llms: [{ llm: 'Gemini Pro', specialization: 'Long-context multimodal understanding' }],
+  },
+  {
+    company: 'Mistral AI',
+    description: 'European company publishing open-weight and commercial models.',
+    chats: [{ chatbot: 'Le Chat', description: 'Multilingual assistant with web search.' }],
+    llms: [
+      { llm: 'Mistral Large', specialization: 'Multilingual reasoning' },
+      { llm: 'Codestral', specialization: 'Code generation' },
+    ],
+  },
+  {
+    company: 'Meta AI',
+    description: 'Meta research group releasing the open Llama models.',
+    chats: [{ chatbot: 'Meta AI', description: 'Assistant in Meta apps.' }],
+    llms: [{ llm: 'Llama', specialization: 'Open-weight general-purpose models' }],
+  },
+];
+
+/**
+ * Companies for the mock MCP server: the JSON file named by `MOCK_MCP_DATA` (an array of
+ * companies in the `getCompanies` shape), or the built-in fixtures.
+ */
+export function loadMockCompanies(env: NodeJS.ProcessEnv = process.env): Company[] {
+  const path = env['MOCK_MCP_DATA'];
+  if (!path) {
+    return MOCK_COMPANIES;
+  }
+  const companies = JSON.parse(readFileSync(path, 'utf8'));
+  if (!Array.isArray(companies)) {
+    throw new Error(`MOCK_MCP_DATA must contain an array of companies: ${path}`);
+  }
+  return companies;
+}
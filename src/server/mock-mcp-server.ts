@@ -0,0 +1,160 @@
+import express, { Request, Response, Router } from 'express';
+import { randomUUID } from 'node:crypto';
+import type { Company } from '../app/company-models';
+import type { MCPInitializeResult } from '../app/mcp-client';
+import { loadMockCompanies } from './mock-data';
+import {
+  INTERNAL_ERROR,
+  INVALID_REQUEST,
+  JsonRpcError,
+  MOCK_MCP_SERVER_INFO,
+  handleMockMcpRequest,
+} from './mock-mcp-tools';
+
+// Newest first; a client asking for another version is answered with the newest
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+// Clients that never send DELETE leave their sessions behind: idle ones expire, and the
+// oldest go first once there are too many
+const SESSION_IDLE_MS = 30 * 60_000;
+const MAX_SESSIONS = 100;
+
+export interface MockMcpServerOptions {
+  /** Dataset behind `getCompanies`, `getChats` and `getLLMs` */
+  companies: Company[];
+}
+
+/**
+ * Read the mock MCP server settings from the environment.
+ * `MOCK_MCP_DATA` names a JSON file replacing the built-in fixture companies.
+ */
+export function loadMockMcpServerOptions(
+  env: NodeJS.ProcessEnv = process.env,
+): MockMcpServerOptions {
+  return { companies: loadMockCompanies(env) };
+}
+
+/**
+ * Router serving a local MCP server over Streamable HTTP, for development without network
+ * access and for tests. It answers like the real company server, over the same framing:
+ *
+ * - `GET    /health` reports `{ "status": "ok" }`
+ * - `POST   /`       handles `initialize`, `ping`, `tools/list` and `tools/call`; replies are
+ *                    sent as a `text/event-stream` event when the client accepts it, else as JSON
+ * - `DELETE /`       ends the session
+ */
+export function createMockMcpServer(options: MockMcpServerOptions): Router {
+  const router = Router();
+  // Session ids by when they were last used, least recently used first
+  const sessions = new Map<string, number>();
+  const startedAt = Date.now();
+
+  const openSession = (): string => {
+    const now = Date.now();
+    for (const [sessionId, lastUsed] of sessions) {
+      if (now - lastUsed > SESSION_IDLE_MS || sessions.size >= MAX_SESSIONS) {
+        sessions.delete(sessionId);
+      }
+    }
+    const sessionId = randomUUID();
+    sessions.set(sessionId, now);
+    return sessionId;
+  };
+
+  const touchSession = (sessionId: string): boolean => {
+    const lastUsed = sessions.get(sessionId);
+    sessions.delete(sessionId);
+    if (lastUsed === undefined || Date.now() - lastUsed > SESSION_IDLE_MS) {
+      return false;
+    }
+    sessions.set(sessionId, Date.now());
+    return true;
+  };
+
+  router.get('/health', (req, res) => {
+    res.json({ status: 'ok', server: MOCK_MCP_SERVER_INFO, mock: true });
+  });
+
+  router.post('/', express.json({ limit: '1mb' }), (req, res) => {
+    const message = req.body;
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      const error = errorResponse(null, INVALID_REQUEST, 'Expected one JSON-RPC message');
+      res.status(400).json(error);
+      return;
+    }
+    // Notifications and responses need no reply
+    if (message.id === undefined || !message.method) {
+      res.status(202).end();
+      return;
+    }
+
+    if (message.method === 'initialize') {
+      const requested = message.params?.protocolVersion;
+      const sessionId = openSession();
+      const result: MCPInitializeResult = {
+        protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: MOCK_MCP_SERVER_INFO,
+        instructions: 'Mock server with fixture data about AI companies.',
+      };
+      res.setHeader('Mcp-Session-Id', sessionId);
+      send(req, res, { jsonrpc: '2.0', id: message.id, result });
+      return;
+    }
+
+    // Unknown sessions get 404 so the client starts a new one, as with real servers
+    const sessionId = req.get('Mcp-Session-Id');
+    if (!sessionId) {
+      const error = errorResponse(message.id, INVALID_REQUEST, 'Missing Mcp-Session-Id');
+      res.status(400).json(error);
+      return;
+    }
+    if (!touchSession(sessionId)) {
+      res.status(404).json(errorResponse(message.id, INVALID_REQUEST, 'Session not found'));
+      return;
+    }
+
+    try {
+      const result = handleMockMcpRequest(message.method, message.params ?? {}, {
+        companies: options.companies,
+        sessionCount: sessions.size,
+        startedAt,
+      });
+      send(req, res, { jsonrpc: '2.0', id: message.id, result });
+    } catch (error) {
+      const code = error instanceof JsonRpcError ? error.code : INTERNAL_ERROR;
+      send(req, res, errorResponse(message.id, code, (error as Error).message));
+    }
+  });
+
+  router.delete('/', (req, res) => {
+    const sessionId = req.get('Mcp-Session-Id');
+    if (!sessionId || !sessions.delete(sessionId)) {
+      res.status(404).end();
+      return;
+    }
+    res.status(204).end();
+  });
+
+  // No server-initiated stream
+  router.get('/', (req, res) => {
+    res.status(405).setHeader('Allow', 'POST, DELETE').end();
+  });
+
+  return router;
+}
+
+function errorResponse(id: unknown, code: number, message: string) {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+// Reply the way the real server does: one SSE `message` event, or plain JSON
+function send(req: Request, res: Response, message: unknown): void {
+  if ((req.get('Accept') || '').includes('text/event-stream')) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.end(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+    return;
+  }
+  res.json(message);
+}
@@ -0,0 +1,69 @@
+import type { Company } from '../app/company-models';
+import {
+  INVALID_PARAMS,
+  JsonRpcError,
+  METHOD_NOT_FOUND,
+  MOCK_MCP_TOOLS,
+  MockMcpContext,
+  handleMockMcpRequest,
+} from './mock-mcp-tools';
+
+describe('mock MCP server tools', () => {
+  const companies: Company[] = [
+    {
+      company: 'Anthropic',
+      description: 'AI safety company.',
+      chats: [{ chatbot: 'Claude', description: 'Assistant.' }],
+      llms: [{ llm: 'Claude Haiku', specialization: 'Fast tasks' }],
+    },
+  ];
+  const context: MockMcpContext = { companies, sessionCount: 2, startedAt: Date.now() };
+  const call = (name: string, args: Record<string, unknown> = {}) =>
+    handleMockMcpRequest('tools/call', { name, arguments: args }, context) as any;
+  const errorOf = (run: () => unknown) => {
+    try {
+      run();
+    } catch (error) {
+      return error as JsonRpcError;
+    }
+    return null;
+  };
+
+  it('should answer ping and list its tools', () => {
+    expect(handleMockMcpRequest('ping', {}, context)).toEqual({});
+    expect(handleMockMcpRequest('tools/list', {}, context)).toEqual({ tools: MOCK_MCP_TOOLS });
+  });
+
+  it('should return the companies, chatbots and models as text content', () => {
+    expect(JSON.parse(call('getCompanies').content[0].text)).toEqual(companies);
+    expect(JSON.parse(call('getChats', { companyName: ' anthropic ' }).content[0].text)).toEqual(
+      companies[0].chats,
+    );
+    expect(JSON.parse(call('getLLMs', { companyName: 'Anthropic' }).content[0].text)).toEqual(
+      companies[0].llms,
+    );
+  });
+
+  it('should report unknown companies as a tool error', () => {
+    expect(call('getLLMs', { companyName: 'Nobody' })).toEqual({
+      content: [{ type: 'text', text: 'Company not found: Nobody' }],
+      isError: true,
+    });
+  });
+
+  it('should report its status in diagnostic', () => {
+    const status = JSON.parse(call('diagnostic').content[0].text);
+    expect(status.status).toBe('ok');
+    expect(status.mock).toBeTrue();
+    expect(status.companies).toBe(1);
+    expect(status.sessions).toBe(2);
+  });
+
+  it('should fail with JSON-RPC errors for bad calls and unknown methods', () => {
+    expect(errorOf(() => call('getChats'))?.code).toBe(INVALID_PARAMS);
+    expect(errorOf(() => call('deleteCompany'))?.code).toBe(INVALID_PARAMS);
+    expect(errorOf(() => handleMockMcpRequest('resources/list', {}, context))?.code).toBe(
+      METHOD_NOT_FOUND,
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import type { Company } from '../app/company-models';
+import type { MCPTool } from '../app/mcp-client';
+
+export const MOCK_MCP_SERVER_INFO = { name: 'mock-mcp-server', version: '1.0.0' };
+
+// JSON-RPC error codes
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+const COMPANY_NAME_SCHEMA = {
+  type: 'object',
+  properties: { companyName: { type: 'string', description: 'Name of the company' } },
+  required: ['companyName'],
+};
+
+export const MOCK_MCP_TOOLS: MCPTool[] = [
+  {
+    name: 'getCompanies',
+    description: 'List the AI companies with their chatbots and language models',
+    inputSchema: { type: 'object', properties: {} },
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'getChats',
+    description: 'List the chatbots of a company',
+    inputSchema: COMPANY_NAME_SCHEMA,
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'getLLMs',
+    description: 'List the language models of a company',
+    inputSchema: COMPANY_NAME_SCHEMA,
+    annotations: { readOnlyHint: true },
+  },
+  {
+    name: 'diagnostic',
+    description: 'Report the status of the MCP server',
+    inputSchema: { type: 'object', properties: {} },
+  },
+];
+
+// What the mock server's requests read besides their params
+export interface MockMcpContext {
+  companies: Company[];
+  sessionCount: number;
+  startedAt: number;
+}
+
+export class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+/**
+ * Result of a request to the mock MCP server in an established session: `ping`,
+ * `tools/list` or `tools/call`. Throws JsonRpcError for unknown methods, unknown tools
+ * and missing arguments.
+ */
+export function handleMockMcpRequest(
+  method: string,
+  params: Record<string, any>,
+  context: MockMcpContext,
+): unknown {
+  switch (method) {
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools: MOCK_MCP_TOOLS };
+    case 'tools/call':
+      return callMockTool(String(params['name'] ?? ''), params['arguments'] ?? {}, context);
+    default:
+      throw new JsonRpcError(METHOD_NOT_FOUND, `Method not found: ${method}`);
+  }
+}
+
+function callMockTool(name: string, args: Record<string, any>, context: MockMcpContext) {
+  const text = (value: unknown, isError = false) => {
+    const body = typeof value === 'string' ? value : JSON.stringify(value);
+    const content = [{ type: 'text', text: body }];
+    return isError ? { content, isError } : { content };
+  };
+
+  switch (name) {
+    case 'getCompanies':
+      return text(context.companies);
+    case 'getChats':
+    case 'getLLMs': {
+      const companyName = String(args['companyName'] ?? '').trim();
+      if (!companyName) {
+        throw new JsonRpcError(INVALID_PARAMS, `${name} requires a companyName`);
+      }
+      const company = context.companies.find(
+        (candidate) => candidate.company.toLowerCase() === companyName.toLowerCase(),
+      );
+      if (!company) {
+        return text(`Company not found: ${companyName}`, true);
+      }
+      return text(name === 'getChats' ? company.chats : company.llms);
+    }
+    case 'diagnostic':
+      return text({
+        server: MOCK_MCP_SERVER_INFO,
+        status: 'ok',
+        mock: true,
+        companies: context.companies.length,
+        sessions: context.sessionCount,
+        uptimeSeconds: Math.round((Date.now() - context.startedAt) / 1000),
+        timestamp: new Date().toISOString(),
+      });
+    default:
+      throw new JsonRpcError(INVALID_PARAMS, `Unknown tool: ${name}`);
+  }
+}
@@ -0,0 +1,159 @@
+import express, { Response, Router } from 'express';
+import { readFileSync } from 'node:fs';
+import type { OpenAIMessage, OpenAIStreamChunk } from '../app/openai.service';
+import { StubRule, isStubScript, stubCompletion } from './stub-completion';
+
+export interface OpenAIStubOptions {
+  /** Model reported by `/models`; requests may name any model */
+  model: string;
+  rules: StubRule[];
+  /** Pause between streamed chunks, so streaming and stopping can be watched */
+  chunkDelayMs: number;
+}
+
+/**
+ * Read the stub settings from the environment.
+ * `OPENAI_STUB_SCRIPT` names a JSON file with an array of rules and
+ * `OPENAI_STUB_DELAY_MS` sets the pause between streamed chunks (default 20).
+ */
+export function loadOpenAIStubOptions(env: NodeJS.ProcessEnv = process.env): OpenAIStubOptions {
+  const path = env['OPENAI_STUB_SCRIPT'];
+  const rules = path ? JSON.parse(readFileSync(path, 'utf8')) : [];
+  if (!isStubScript(rules)) {
+    throw new Error(`OPENAI_STUB_SCRIPT must hold an array of rules with a valid "match": ${path}`);
+  }
+  const delay = Number(env['OPENAI_STUB_DELAY_MS'] ?? 20);
+  return {
+    model: 'stub-model',
+    rules,
+    chunkDelayMs: Number.isFinite(delay) && delay >= 0 ? delay : 20,
+  };
+}
+
+/**
+ * Router answering like OpenAI's chat completions API from scripted rules, for development
+ * without network access and for tests. Mounted at `/api/chat` it also stands in for the
+ * chat proxy, reporting a server-managed key so the app needs no API key.
+ *
+ * - `GET    /status`                          reports a server-managed key
+ * - `GET    /models`                          lists the stub model
+ * - `POST   /` and `POST /chat/completions`   answer, streamed as SSE chunks when `stream` is set
+ * - `PUT    /script`                          replaces the rules, e.g. from a test
+ * - `DELETE /script`                          restores the rules the stub started with
+ */
+export function createOpenAIStub(options: OpenAIStubOptions): Router {
+  const router = Router();
+  let rules = options.rules;
+
+  router.get('/status', (req, res) => {
+    res.json({ serverManagedKey: true });
+  });
+
+  router.get('/models', (req, res) => {
+    res.json({
+      object: 'list',
+      data: [{ id: options.model, object: 'model', created: 0, owned_by: 'stub' }],
+    });
+  });
+
+  router.put('/script', express.json({ limit: '1mb' }), (req, res) => {
+    if (!isStubScript(req.body)) {
+      const message = 'Expected an array of rules with a valid "match"';
+      res.status(400).json({ error: { message } });
+      return;
+    }
+    rules = req.body;
+    res.status(204).end();
+  });
+
+  router.delete('/script', (req, res) => {
+    rules = options.rules;
+    res.status(204).end();
+  });
+
+  router.post(['/', '/chat/completions'], express.json({ limit: '2mb' }), (req, res) => {
+    const { messages, tools, tool_choice: toolChoice, stream } = req.body ?? {};
+    if (!Array.isArray(messages)) {
+      res.status(400).json({ error: { message: 'messages must be an array' } });
+      return;
+    }
+    const message = stubCompletion(messages, tools, toolChoice, rules);
+    const model = req.body.model || options.model;
+    if (stream) {
+      streamCompletion(res, message, model, options.chunkDelayMs);
+      return;
+    }
+
+    const completionTokens = Math.ceil(JSON.stringify(message).length / 4);
+    const promptTokens = Math.ceil(JSON.stringify(messages).length / 4);
+    res.json({
+      id: `chatcmpl-stub-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [{ index: 0, message, finish_reason: finishReason(message) }],
+      usage: {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+    });
+  });
+
+  return router;
+}
+
+function finishReason(message: OpenAIMessage): string {
+  return message.tool_calls?.length ? 'tool_calls' : 'stop';
+}
+
+// Send the message as OpenAI does: a role chunk, content word by word, one chunk per tool
+// call, a final chunk with the finish reason, then [DONE]
+function streamCompletion(
+  res: Response,
+  message: OpenAIMessage,
+  model: string,
+  delayMs: number,
+): void {
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const chunk = (
+    delta: OpenAIStreamChunk['choices'][0]['delta'],
+    finish: string | null = null,
+  ) => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finish }],
+  });
+
+  const chunks: object[] = [chunk({ role: 'assistant', content: '' })];
+  for (const content of message.content?.match(/\S+\s*/g) ?? []) {
+    chunks.push(chunk({ content }));
+  }
+  (message.tool_calls ?? []).forEach((toolCall, index) =>
+    chunks.push(chunk({ tool_calls: [{ index, ...toolCall }] })),
+  );
+  chunks.push(chunk({}, finishReason(message)));
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => (closed = true));
+  const writeNext = (index: number) => {
+    if (closed) {
+      return;
+    }
+    if (index === chunks.length) {
+      res.end('data: [DONE]\n\n');
+      return;
+    }
+    res.write(`data: ${JSON.stringify(chunks[index])}\n\n`);
+    setTimeout(() => writeNext(index + 1), delayMs);
+  };
+  writeNext(0);
+}
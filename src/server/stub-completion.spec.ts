@@ -0,0 +1,71 @@
+import type { OpenAIMessage, OpenAITool } from '../app/openai.service';
+import { StubRule, isStubScript, stubCompletion } from './stub-completion';
+
+describe('OpenAI stub completions', () => {
+  const tool = (name: string): OpenAITool => ({
+    type: 'function',
+    function: { name, description: '', parameters: { type: 'object', properties: {} } },
+  });
+  const tools = [tool('default__getCompanies'), tool('default__getLLMs')];
+  const user = (content: string): OpenAIMessage => ({ role: 'user', content });
+
+  const rules: StubRule[] = [
+    {
+      match: 'models? of (\\w+)',
+      toolCalls: [{ name: 'getLLMs', arguments: { companyName: 'Anthropic' } }],
+      reply: 'Here they are:\n{{results}}',
+    },
+    { match: '^hello', reply: 'Hi there!' },
+  ];
+
+  it('should answer with the first matching rule, case-insensitively', () => {
+    expect(stubCompletion([user('HELLO stub')], tools, 'auto', rules)).toEqual({
+      role: 'assistant',
+      content: 'Hi there!',
+    });
+  });
+
+  it("should call a rule's tools by their namespaced names", () => {
+    const reply = stubCompletion([user('Which models of Anthropic?')], tools, 'auto', rules);
+
+    expect(reply.content).toBeNull();
+    expect(reply.tool_calls).toEqual([
+      {
+        id: 'call_stub_1_0',
+        type: 'function',
+        function: { name: 'default__getLLMs', arguments: '{"companyName":"Anthropic"}' },
+      },
+    ]);
+  });
+
+  it('should put the tool results into the reply of the matching rule', () => {
+    const messages: OpenAIMessage[] = [
+      user('Which models of Anthropic?'),
+      stubCompletion([user('Which models of Anthropic?')], tools, 'auto', rules),
+      { role: 'tool', tool_call_id: 'call_stub_1_0', content: '["Claude Sonnet"]' },
+    ];
+
+    expect(stubCompletion(messages, tools, 'auto', rules).content).toBe(
+      'Here they are:\n["Claude Sonnet"]',
+    );
+  });
+
+  it('should skip tools the request does not offer', () => {
+    const reply = stubCompletion([user('Which models of Anthropic?')], tools, 'none', rules);
+    expect(reply).toEqual({ role: 'assistant', content: 'Here they are:\n' });
+  });
+
+  it('should call a tool the message names, or echo it, without a matching rule', () => {
+    expect(stubCompletion([user('Run getCompanies')], tools).tool_calls?.[0].function.name).toBe(
+      'default__getCompanies',
+    );
+    expect(stubCompletion([user('Anything else')], tools).content).toBe('You said: Anything else');
+  });
+
+  it('should only accept scripts of rules with valid patterns', () => {
+    expect(isStubScript(rules)).toBeTrue();
+    expect(isStubScript([{ match: '([a-z' }])).toBeFalse();
+    expect(isStubScript([{ match: 'x', toolCalls: [{}] }])).toBeFalse();
+    expect(isStubScript({ match: 'x' })).toBeFalse();
+  });
+});
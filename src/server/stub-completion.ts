@@ -0,0 +1,106 @@
+import type { OpenAIMessage, OpenAITool, OpenAIToolCall } from '../app/openai.service';
+
+/**
+ * A scripted answer. The first rule whose `match` is found in the latest user message
+ * decides the reply: it calls `toolCalls` first when the request offers those tools, then
+ * answers with `reply`, in which `{{results}}` is replaced by the tool results.
+ */
+export interface StubRule {
+  /** Regular expression, tested case-insensitively */
+  match: string;
+  reply?: string;
+  /** Tools by their MCP name; namespaced names such as `default__getCompanies` also match */
+  toolCalls?: { name: string; arguments?: Record<string, unknown> }[];
+}
+
+/**
+ * Check the shape of a stub script
+ */
+export function isStubScript(value: unknown): value is StubRule[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (rule) =>
+        !!rule &&
+        typeof rule.match === 'string' &&
+        isPattern(rule.match) &&
+        (rule.reply === undefined || typeof rule.reply === 'string') &&
+        (rule.toolCalls === undefined ||
+          (Array.isArray(rule.toolCalls) &&
+            rule.toolCalls.every((call: any) => typeof call?.name === 'string'))),
+    )
+  );
+}
+
+/**
+ * The stub's answer to a chat completions request. Without a matching rule it behaves like
+ * the app's fake provider: it calls a tool named in the message, summarizes tool results,
+ * and otherwise echoes the message.
+ */
+export function stubCompletion(
+  messages: OpenAIMessage[],
+  tools: OpenAITool[] = [],
+  toolChoice: unknown = 'auto',
+  rules: StubRule[] = [],
+): OpenAIMessage {
+  const question = [...messages].reverse().find((message) => message.role === 'user');
+  const text = question?.content ?? '';
+  const rule = rules.find((candidate) => new RegExp(candidate.match, 'i').test(text));
+  const last = messages[messages.length - 1];
+
+  if (last?.role === 'tool') {
+    // Every result of the previous assistant turn sits after its tool calls
+    const results: string[] = [];
+    for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+      results.unshift(messages[i].content ?? '');
+    }
+    const reply = rule?.reply ?? 'Tool results:\n\n{{results}}';
+    return { role: 'assistant', content: reply.replace('{{results}}', results.join('\n\n')) };
+  }
+
+  const offered = toolChoice === 'none' ? [] : tools.map((tool) => tool.function.name);
+  const calls = (rule ? (rule.toolCalls ?? []) : defaultToolCalls(text, offered))
+    .map((call) => ({ ...call, name: offered.find((name) => matchesTool(name, call.name)) }))
+    .filter((call): call is { name: string; arguments?: Record<string, unknown> } => !!call.name);
+  if (calls.length > 0) {
+    return {
+      role: 'assistant',
+      content: null,
+      tool_calls: calls.map(
+        (call, index): OpenAIToolCall => ({
+          id: `call_stub_${messages.length}_${index}`,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments ?? {}) },
+        }),
+      ),
+    };
+  }
+
+  const reply = rule?.reply?.replace('{{results}}', '');
+  const echo = text ? `You said: ${text}` : 'Hello from the stub.';
+  return { role: 'assistant', content: reply ?? echo };
+}
+
+function isPattern(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Namespaced tool names ("server__tool") are matched by their tool part
+function matchesTool(offered: string, name: string): boolean {
+  return offered === name || offered.endsWith(`__${name}`);
+}
+
+// Like the fake provider, call the first offered tool the message names
+function defaultToolCalls(text: string, offered: string[]): { name: string }[] {
+  const named = offered.find((name) => {
+    const separator = name.indexOf('__');
+    const plain = separator >= 0 ? name.slice(separator + 2) : name;
+    return text.toLowerCase().includes(plain.toLowerCase());
+  });
+  return named ? [{ name: named }] : [];
+}